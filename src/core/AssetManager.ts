@@ -1,4 +1,6 @@
 // Asset manager for loading and managing game sprites and animations
+import { AreaConfig, AUTHORED_AREAS } from '../managers/AreaDefinitions.ts';
+
 export interface SpriteData {
   image: HTMLImageElement;
   frameWidth: number;
@@ -114,6 +116,12 @@ export class AssetManager {
     };
   }
 
+  // Create an area's walker sprite from its definition (skipped if already created)
+  public createAreaSprite(area: AreaConfig): void {
+    if (this.isSpriteLoaded(area.walkerSprite)) return;
+    this.createPlaceholderSprite(area.walkerSprite, 16, 16, 4, area.walkerSpriteColors);
+  }
+
   // Create placeholder sprites programmatically
   public createPlaceholderSprite(
     name: string, 
@@ -171,19 +179,21 @@ export class AssetManager {
 
   // Initialize default placeholder sprites
   public async initializePlaceholderSprites(): Promise<void> {
-    // Create walker placeholder sprites with different colors for each area
-    const walkerColors = [
-      ['#ff6b6b', '#ff8e8e', '#ffb1b1', '#ffd4d4'], // Area 1 - Red tones
-      ['#4ecdc4', '#71d4cc', '#94dbd4', '#b7e2dc'], // Area 2 - Teal tones  
-      ['#45b7d1', '#68c5d9', '#8bd3e1', '#aee1e9'], // Area 3 - Blue tones
-    ];
-
-    for (let i = 0; i < walkerColors.length; i++) {
-      this.createPlaceholderSprite(
-        `walker_area_${i + 1}`,
-        16, 16, 4,
-        walkerColors[i]
-      );
+    // Create walker placeholder sprites for each authored area (generated areas add theirs when reached)
+    for (const area of AUTHORED_AREAS) {
+      this.createAreaSprite(area);
+    }
+
+    // Create walker archetype placeholder sprites (civilians use the area sprites)
+    const archetypeColors: { [sprite: string]: string[] } = {
+      walker_runner: ['#f9ca24', '#f6e58d', '#f9ca24', '#ffeaa7'], // Yellow tones
+      walker_armored: ['#7f8c8d', '#95a5a6', '#bdc3c7', '#95a5a6'], // Steel tones
+      walker_guard: ['#192a56', '#273c75', '#40739e', '#273c75'], // Navy tones
+      walker_boss: ['#6c3483', '#d4ac0d', '#f1c40f', '#d4ac0d'] // Royal purple and gold
+    };
+
+    for (const [spriteName, colors] of Object.entries(archetypeColors)) {
+      this.createPlaceholderSprite(spriteName, 16, 16, 4, colors);
     }
 
     // Create zombie placeholder sprite
@@ -194,6 +204,18 @@ export class AssetManager {
       zombieColors
     );
 
+    // Create placeholder sprites for the other zombie types
+    const zombieTypeColors: { [sprite: string]: string[] } = {
+      zombie_runner: ['#FF4500', '#FF6347', '#FF4500', '#FF7F50'], // Orange-red tones
+      zombie_brute: ['#4B0000', '#5C1010', '#6B0F0F', '#5C1010'], // Dark blood tones
+      zombie_spitter: ['#556B2F', '#6B8E23', '#7CFC00', '#6B8E23'], // Acid green tones
+      zombie_infector: ['#4B0082', '#6A0DAD', '#8B008B', '#6A0DAD'] // Plague purple tones
+    };
+
+    for (const [spriteName, colors] of Object.entries(zombieTypeColors)) {
+      this.createPlaceholderSprite(spriteName, 16, 16, 4, colors);
+    }
+
     console.log('Placeholder sprites initialized');
   }
 }
\ No newline at end of file
@@ -1,5 +1,6 @@
 // Attack system for managing combat interactions with proper cooldowns
 import { Vector2 } from './Vector2.ts';
+import { SpatialGrid } from './SpatialGrid.ts';
 
 export interface Attacker {
   position: Vector2;
@@ -85,6 +86,23 @@ export class AttackSystem {
     return distance <= attackRange;
   }
 
+  // Get all targets within attack range, using the spatial grid for candidates
+  public getTargetsInRange<T extends Target>(attacker: Attacker, grid: SpatialGrid<T>, config: AttackConfig, results: T[] = []): T[] {
+    if (!attacker.active) return results;
+
+    // Pad the query by the largest target so edge-touching targets are included
+    const queryRadius = config.range + (attacker.size + grid.getMaxEntitySize()) / 2;
+    const candidates = grid.queryRadius(attacker.position, queryRadius);
+
+    for (const target of candidates) {
+      if (this.isInRange(attacker, target, config)) {
+        results.push(target);
+      }
+    }
+
+    return results;
+  }
+
   // Get distance to target minus attack range (negative means in range)
   public getDistanceToRange(attacker: Attacker, target: Target, config: AttackConfig): number {
     const distance = attacker.position.distanceTo(target.position);
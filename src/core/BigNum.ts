@@ -0,0 +1,249 @@
+// Big number (mantissa + base-10 exponent) for values that outgrow a double, like souls and upgrade costs
+export type BigNumSource = BigNum | number;
+
+// suffix: 1.23K, 4.56M, 7.89aa...
+// scientific: 1.23e45
+export type NumberNotation = 'suffix' | 'scientific';
+
+// Short-scale suffixes before switching to two-letter names (aa, ab, ... zz)
+const NAMED_SUFFIXES = ['', 'K', 'M', 'B', 'T'];
+const LETTERS = 'abcdefghijklmnopqrstuvwxyz';
+
+// Arithmetic falls back to plain numbers while both values stay well inside the double range,
+// so small values keep exact integer math (and existing replays stay deterministic)
+const NUMBER_EXPONENT_LIMIT = 300;
+
+// Exponent gap beyond which the smaller value no longer changes a sum
+const MAX_SIGNIFICANT_DIGITS = 17;
+
+export class BigNum {
+  static readonly ZERO = new BigNum(0, 0);
+  static readonly ONE = new BigNum(1, 0);
+
+  readonly mantissa: number; // 0, or 1 <= |mantissa| < 10
+  readonly exponent: number; // Integer power of ten
+
+  private constructor(mantissa: number, exponent: number) {
+    this.mantissa = mantissa;
+    this.exponent = exponent;
+  }
+
+  // Build a normalized value from any mantissa and exponent
+  static fromParts(mantissa: number, exponent: number): BigNum {
+    if (mantissa === 0 || !Number.isFinite(mantissa) || !Number.isFinite(exponent)) {
+      return BigNum.ZERO;
+    }
+
+    // toExponential gives the exact decimal digits, avoiding log10 rounding at powers of ten
+    const [digits, shift] = mantissa.toExponential().split('e');
+    return new BigNum(parseFloat(digits), Math.round(exponent) + parseInt(shift, 10));
+  }
+
+  static from(value: BigNumSource): BigNum {
+    return value instanceof BigNum ? value : BigNum.fromParts(value, 0);
+  }
+
+  // Read a serialized value: a plain number (older saves), a "1.5e400" string or { mantissa, exponent }
+  static fromJSON(value: unknown): BigNum {
+    if (typeof value === 'number') {
+      return BigNum.from(value);
+    }
+    if (typeof value === 'string') {
+      const [digits, exponent] = value.split('e');
+      const mantissa = parseFloat(digits);
+      return BigNum.fromParts(Number.isNaN(mantissa) ? 0 : mantissa, exponent ? parseInt(exponent, 10) : 0);
+    }
+    if (value && typeof value === 'object') {
+      const { mantissa, exponent } = value as { mantissa?: unknown; exponent?: unknown };
+      if (typeof mantissa === 'number' && typeof exponent === 'number') {
+        return BigNum.fromParts(mantissa, exponent);
+      }
+    }
+    return BigNum.ZERO;
+  }
+
+  // Check if a serialized value can be read back (for save validation)
+  static isSerialized(value: unknown): boolean {
+    if (typeof value === 'number') return Number.isFinite(value);
+    if (typeof value === 'string') return /^-?\d+(\.\d+)?(e[+-]?\d+)?$/.test(value);
+    return false;
+  }
+
+  static max(a: BigNumSource, b: BigNumSource): BigNum {
+    return BigNum.from(a).gte(b) ? BigNum.from(a) : BigNum.from(b);
+  }
+
+  static min(a: BigNumSource, b: BigNumSource): BigNum {
+    return BigNum.from(a).lte(b) ? BigNum.from(a) : BigNum.from(b);
+  }
+
+  private fitsNumber(): boolean {
+    return Math.abs(this.exponent) <= NUMBER_EXPONENT_LIMIT;
+  }
+
+  isZero(): boolean {
+    return this.mantissa === 0;
+  }
+
+  isNegative(): boolean {
+    return this.mantissa < 0;
+  }
+
+  negate(): BigNum {
+    return new BigNum(-this.mantissa, this.exponent);
+  }
+
+  add(other: BigNumSource): BigNum {
+    const value = BigNum.from(other);
+    if (this.isZero()) return value;
+    if (value.isZero()) return this;
+    if (this.fitsNumber() && value.fitsNumber()) {
+      return BigNum.from(this.toNumber() + value.toNumber());
+    }
+
+    // Align the smaller value to the larger exponent
+    const [large, small] = this.exponent >= value.exponent ? [this, value] : [value, this];
+    const gap = large.exponent - small.exponent;
+    if (gap > MAX_SIGNIFICANT_DIGITS) return large;
+    return BigNum.fromParts(large.mantissa + small.mantissa / Math.pow(10, gap), large.exponent);
+  }
+
+  sub(other: BigNumSource): BigNum {
+    return this.add(BigNum.from(other).negate());
+  }
+
+  mul(other: BigNumSource): BigNum {
+    const value = BigNum.from(other);
+    if (this.isZero() || value.isZero()) return BigNum.ZERO;
+    if (Math.abs(this.exponent + value.exponent) <= NUMBER_EXPONENT_LIMIT && this.fitsNumber() && value.fitsNumber()) {
+      return BigNum.from(this.toNumber() * value.toNumber());
+    }
+    return BigNum.fromParts(this.mantissa * value.mantissa, this.exponent + value.exponent);
+  }
+
+  div(other: BigNumSource): BigNum {
+    const value = BigNum.from(other);
+    if (value.isZero()) {
+      console.warn('BigNum division by zero');
+      return BigNum.ZERO;
+    }
+    if (this.isZero()) return BigNum.ZERO;
+    if (Math.abs(this.exponent - value.exponent) <= NUMBER_EXPONENT_LIMIT && this.fitsNumber() && value.fitsNumber()) {
+      return BigNum.from(this.toNumber() / value.toNumber());
+    }
+    return BigNum.fromParts(this.mantissa / value.mantissa, this.exponent - value.exponent);
+  }
+
+  // Raise a positive value to a power
+  pow(power: number): BigNum {
+    if (power === 0) return BigNum.ONE;
+    if (this.isZero()) return BigNum.ZERO;
+
+    const log = this.log10() * power;
+    if (Math.abs(log) <= NUMBER_EXPONENT_LIMIT && this.fitsNumber()) {
+      return BigNum.from(Math.pow(this.toNumber(), power));
+    }
+    const exponent = Math.floor(log);
+    return BigNum.fromParts(Math.pow(10, log - exponent), exponent);
+  }
+
+  sqrt(): BigNum {
+    return this.pow(0.5);
+  }
+
+  // Base-10 logarithm of a positive value (-Infinity for zero)
+  log10(): number {
+    if (this.mantissa <= 0) return -Infinity;
+    return Math.log10(this.mantissa) + this.exponent;
+  }
+
+  // Round down to a whole number (values this large have no fractional digits left)
+  floor(): BigNum {
+    if (this.exponent >= MAX_SIGNIFICANT_DIGITS) return this;
+    return BigNum.from(Math.floor(this.toNumber()));
+  }
+
+  // Compare with another value (-1, 0 or 1)
+  cmp(other: BigNumSource): number {
+    const value = BigNum.from(other);
+    const sign = Math.sign(this.mantissa);
+    const otherSign = Math.sign(value.mantissa);
+    if (sign !== otherSign) return sign > otherSign ? 1 : -1;
+    if (sign === 0) return 0;
+
+    // Same sign: a bigger exponent means a bigger magnitude
+    if (this.exponent !== value.exponent) {
+      return (this.exponent > value.exponent ? 1 : -1) * sign;
+    }
+    if (this.mantissa === value.mantissa) return 0;
+    return this.mantissa > value.mantissa ? 1 : -1;
+  }
+
+  eq(other: BigNumSource): boolean {
+    return this.cmp(other) === 0;
+  }
+
+  gt(other: BigNumSource): boolean {
+    return this.cmp(other) > 0;
+  }
+
+  gte(other: BigNumSource): boolean {
+    return this.cmp(other) >= 0;
+  }
+
+  lt(other: BigNumSource): boolean {
+    return this.cmp(other) < 0;
+  }
+
+  lte(other: BigNumSource): boolean {
+    return this.cmp(other) <= 0;
+  }
+
+  // Convert to a plain number (Infinity past the double range)
+  toNumber(): number {
+    if (this.isZero()) return 0;
+    // Parsing the decimal form keeps integers exact (2.33 * 100 would give 233.00000000000003)
+    return Number(`${this.mantissa}e${this.exponent}`);
+  }
+
+  toString(): string {
+    return this.fitsNumber() ? String(this.toNumber()) : `${this.mantissa}e${this.exponent}`;
+  }
+
+  // Serialized as a compact string, read back with BigNum.fromJSON
+  toJSON(): string {
+    return this.toString();
+  }
+
+  // Format for display: whole numbers below 1000, then suffixes or scientific notation
+  format(notation: NumberNotation = 'suffix', decimals: number = 2): string {
+    if (this.isNegative()) return `-${this.negate().format(notation, decimals)}`;
+    if (this.exponent < 3) {
+      return String(Number(this.toNumber().toFixed(decimals)));
+    }
+
+    if (notation === 'suffix') {
+      const group = Math.floor(this.exponent / 3);
+      const suffix = BigNum.getSuffix(group);
+      if (suffix !== null) {
+        const scaled = Number((this.mantissa * Math.pow(10, this.exponent - group * 3)).toFixed(decimals));
+        // Rounding can carry into the next group (999.996K -> 1.00M)
+        if (scaled >= 1000) return BigNum.fromParts(1, (group + 1) * 3).format(notation, decimals);
+        return `${scaled.toFixed(decimals)}${suffix}`;
+      }
+    }
+
+    const mantissa = Number(this.mantissa.toFixed(decimals));
+    if (mantissa >= 10) return BigNum.fromParts(1, this.exponent + 1).format('scientific', decimals);
+    return `${mantissa.toFixed(decimals)}e${this.exponent}`;
+  }
+
+  // Suffix for a group of three digits (null once two letters run out)
+  private static getSuffix(group: number): string | null {
+    if (group < NAMED_SUFFIXES.length) return NAMED_SUFFIXES[group];
+
+    const index = group - NAMED_SUFFIXES.length;
+    if (index >= LETTERS.length * LETTERS.length) return null;
+    return LETTERS[Math.floor(index / LETTERS.length)] + LETTERS[index % LETTERS.length];
+  }
+}
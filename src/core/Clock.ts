@@ -0,0 +1,32 @@
+// Clock abstraction so simulation time can be driven independently of the browser
+export interface Clock {
+  now(): number; // in milliseconds
+}
+
+// Wall clock backed by performance.now()
+export class SystemClock implements Clock {
+  now(): number {
+    return performance.now();
+  }
+}
+
+// Manually advanced clock for fixed-step simulation and headless runs
+export class ManualClock implements Clock {
+  private time: number;
+
+  constructor(startTime: number = 0) {
+    this.time = startTime;
+  }
+
+  now(): number {
+    return this.time;
+  }
+
+  advance(milliseconds: number): void {
+    this.time += milliseconds;
+  }
+
+  set(time: number): void {
+    this.time = time;
+  }
+}
@@ -1,6 +1,7 @@
 // Collision system for entity separation and boundary management
 import { Vector2 } from './Vector2.ts';
 import { Entity } from './Entity.ts';
+import { SpatialGrid } from './SpatialGrid.ts';
 
 export interface CollisionEntity extends Entity {
   size: number;
@@ -19,19 +20,24 @@ export class CollisionSystem {
   }
 
   // Apply separation force between entities to prevent overlap
-  public applySeparation(entities: CollisionEntity[], separationForce: number = 50): void {
-    for (let i = 0; i < entities.length; i++) {
-      const entityA = entities[i];
+  // Neighbours come from the spatial grid, which must already contain the entities
+  public applySeparation<T extends CollisionEntity>(entities: T[], grid: SpatialGrid<T>, separationForce: number = 50): void {
+    // Largest entity size bounds how far away a neighbour can still overlap
+    const maxSize = grid.getMaxEntitySize();
+    const neighbors: T[] = [];
+
+    for (const entityA of entities) {
       if (!entityA.active) continue;
 
       const separationVector = new Vector2(0, 0);
       let neighborCount = 0;
 
-      for (let j = 0; j < entities.length; j++) {
-        if (i === j) continue;
-        
-        const entityB = entities[j];
-        if (!entityB.active) continue;
+      neighbors.length = 0;
+      const queryRadius = (entityA.size + maxSize) / 2 + 5;
+      grid.queryRadius(entityA.position, queryRadius, neighbors);
+
+      for (const entityB of neighbors) {
+        if (entityB === entityA) continue;
 
         const distance = entityA.position.distanceTo(entityB.position);
         const minDistance = (entityA.size + entityB.size) / 2 + 5; // 5px buffer
@@ -1,5 +1,6 @@
 // Basic Entity class for game objects
 import { Vector2 } from './Vector2.ts';
+import { Random, defaultRandom } from './Random.ts';
 
 export class Entity {
   public id: string;
@@ -7,15 +8,15 @@ export class Entity {
   public velocity: Vector2;
   public active: boolean;
 
-  constructor(x: number = 0, y: number = 0) {
-    this.id = this.generateId();
+  constructor(x: number = 0, y: number = 0, random: Random = defaultRandom) {
+    this.id = this.generateId(random);
     this.position = new Vector2(x, y);
     this.velocity = new Vector2(0, 0);
     this.active = true;
   }
 
-  private generateId(): string {
-    return Math.random().toString(36).substr(2, 9);
+  private generateId(random: Random): string {
+    return random.next().toString(36).substr(2, 9);
   }
 
   // Update entity position based on velocity
@@ -1,9 +1,10 @@
 // Entity culling system for performance optimization
+// Culling only decides what gets drawn: the simulation always updates every entity, so
+// frame rate never changes gameplay results.
 import { Entity } from './Entity.ts';
 import { PerformanceMonitor } from './PerformanceMonitor.ts';
 
 export interface CullableEntity extends Entity {
-  lastUpdateTime?: number;
   priority?: number; // Higher priority = less likely to be culled
 }
 
@@ -13,7 +14,6 @@ export class EntityCuller {
   
   // Culling parameters
   private readonly VIEWPORT_MARGIN = 50; // Extra margin around viewport for culling
-  private readonly UPDATE_SKIP_DISTANCE = 200; // Distance at which to skip updates
   // private readonly PRIORITY_CULL_THRESHOLD = 0.1; // Only cull lowest 10% priority entities
 
   private constructor() {
@@ -27,7 +27,7 @@ export class EntityCuller {
     return EntityCuller.instance;
   }
 
-  // Cull entities based on viewport and performance
+  // Pick the entities to render based on viewport and performance
   cullEntities<T extends CullableEntity>(
     entities: T[], 
     viewportWidth: number, 
@@ -102,37 +102,6 @@ export class EntityCuller {
     return scoredEntities.slice(0, maxCount).map(item => item.entity);
   }
 
-  // Determine if entity should skip update based on distance and performance
-  shouldSkipUpdate(entity: CullableEntity, viewportWidth: number, viewportHeight: number): boolean {
-    const updateFrequency = this.performanceMonitor.getEntityUpdateFrequency();
-    
-    // Always update if performance is good
-    if (updateFrequency >= 1.0) {
-      return false;
-    }
-
-    // Skip based on update frequency
-    if (Math.random() > updateFrequency) {
-      return true;
-    }
-
-    // Skip distant entities more often
-    const centerX = viewportWidth / 2;
-    const centerY = viewportHeight / 2;
-    const distance = Math.sqrt(
-      Math.pow(entity.position.x - centerX, 2) + 
-      Math.pow(entity.position.y - centerY, 2)
-    );
-
-    if (distance > this.UPDATE_SKIP_DISTANCE) {
-      // Skip distant entities more frequently
-      const skipChance = Math.min(0.8, (distance - this.UPDATE_SKIP_DISTANCE) / this.UPDATE_SKIP_DISTANCE);
-      return Math.random() < skipChance;
-    }
-
-    return false;
-  }
-
   // Cull particles based on performance and age
   cullParticles<T extends { life: number; maxLife: number; x: number; y: number }>(
     particles: T[],
@@ -173,7 +142,8 @@ export class EntityCuller {
   }
 
   // Set entity priority (0.0 to 1.0, higher = more important)
-  setEntityPriority(entity: CullableEntity, priority: number): void {
+  // Static so simulation systems can tag entities without touching the performance monitor
+  static setEntityPriority(entity: CullableEntity, priority: number): void {
     entity.priority = Math.max(0, Math.min(1, priority));
   }
 }
\ No newline at end of file
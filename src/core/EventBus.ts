@@ -0,0 +1,61 @@
+// Typed publish/subscribe hub so systems can react to gameplay events without knowing who raised them
+export type EventHandler<T> = (event: T) => void;
+
+// Returned by subscriptions; call it to stop listening
+export type Unsubscribe = () => void;
+
+// Listeners for each event type, typed by that event's payload
+type HandlerSets<Events> = { [K in keyof Events]?: Set<EventHandler<Events[K]>> };
+
+export class EventBus<Events extends object> {
+  private handlers: HandlerSets<Events> = {};
+
+  // Listen for an event type
+  on<K extends keyof Events>(type: K, handler: EventHandler<Events[K]>): Unsubscribe {
+    let handlers = this.handlers[type];
+    if (!handlers) {
+      handlers = new Set();
+      this.handlers[type] = handlers;
+    }
+    handlers.add(handler);
+    return () => this.off(type, handler);
+  }
+
+  // Listen for the next event of a type only
+  once<K extends keyof Events>(type: K, handler: EventHandler<Events[K]>): Unsubscribe {
+    const unsubscribe = this.on(type, event => {
+      unsubscribe();
+      handler(event);
+    });
+    return unsubscribe;
+  }
+
+  off<K extends keyof Events>(type: K, handler: EventHandler<Events[K]>): void {
+    this.handlers[type]?.delete(handler);
+  }
+
+  // Deliver an event to every listener in subscription order
+  // (a failing listener is reported and skipped so it can't interrupt the simulation step)
+  emit<K extends keyof Events>(type: K, event: Events[K]): void {
+    const handlers = this.handlers[type];
+    if (!handlers || handlers.size === 0) return;
+
+    // Copy so listeners can unsubscribe while being notified
+    for (const handler of [...handlers]) {
+      try {
+        handler(event);
+      } catch (error) {
+        console.warn(`Event listener for "${String(type)}" failed:`, error);
+      }
+    }
+  }
+
+  hasListeners<K extends keyof Events>(type: K): boolean {
+    return (this.handlers[type]?.size ?? 0) > 0;
+  }
+
+  // Remove every listener
+  clear(): void {
+    this.handlers = {};
+  }
+}
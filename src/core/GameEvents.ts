@@ -0,0 +1,140 @@
+// Gameplay events published on the simulation's event bus (effects, accessibility and other systems subscribe)
+import { EventBus } from './EventBus.ts';
+import { BigNum } from './BigNum.ts';
+import { PerformanceLevel } from './PerformanceMonitor.ts';
+import { StatModifier } from './StatPipeline.ts';
+import { AreaConfig, BossAttackPattern } from '../managers/AreaDefinitions.ts';
+import { CurrencyAmounts } from '../managers/CurrencyDefinitions.ts';
+import { CurrencyChange } from '../managers/ResourceManager.ts';
+import { WalkerArchetypeId } from '../entities/WalkerArchetypes.ts';
+import { ZombieTypeId } from '../entities/ZombieTypes.ts';
+import { GameMode } from '../systems/WaveSystem.ts';
+
+export interface WalkerDefeatedEvent {
+  x: number;
+  y: number;
+  archetype: WalkerArchetypeId;
+  souls: BigNum;
+  drops: CurrencyAmounts; // Secondary currencies rolled on defeat
+  color: string; // Death effect color picked from the area palette
+}
+
+export interface ZombieSpawnedEvent {
+  x: number;
+  y: number;
+  zombieType: ZombieTypeId;
+  risen: boolean; // An infected walker rose rather than the player spawning it
+  zombieCount: number; // Horde size including this zombie
+}
+
+export interface ZombieDefeatedEvent {
+  x: number;
+  y: number;
+  zombieType: ZombieTypeId;
+}
+
+export interface UpgradePurchasedEvent {
+  upgradeId: string;
+  label: string;
+  count: number; // Levels bought at once
+  level: number; // Level after the purchase
+  cost: CurrencyAmounts;
+  prestige: boolean; // Permanent essence upgrade
+  automatic: boolean; // Bought by an auto-buy rule
+}
+
+export interface BossSpawnedEvent {
+  area: AreaConfig;
+  name: string;
+  maxHealth: number;
+}
+
+export interface WalkerEscapedEvent {
+  x: number;
+  y: number;
+  archetype: WalkerArchetypeId;
+  soulYield: number; // Area soul yield multiplier after the escape
+}
+
+export interface BossAttackedEvent {
+  x: number;
+  y: number;
+  pattern: BossAttackPattern;
+  radius: number; // Reach of the attack around the boss
+  zombiesHit: number;
+}
+
+export interface BossDefeatedEvent {
+  area: AreaConfig; // Area the boss guarded
+  name: string;
+  x: number;
+  y: number;
+  souls: BigNum;
+}
+
+// advance: the horde defeated the area's boss and moved on
+// prestige: a rebirth sent the horde back to the first area
+export type AreaChangeReason = 'advance' | 'travel' | 'prestige';
+
+export interface AreaChangedEvent {
+  area: AreaConfig;
+  reason: AreaChangeReason;
+}
+
+export interface WaveStartedEvent {
+  wave: number;
+  walkerCount: number;
+}
+
+export interface WaveClearedEvent {
+  wave: number;
+  bonus: BigNum; // Souls paid for clearing the wave
+}
+
+export interface GameModeChangedEvent {
+  mode: GameMode;
+}
+
+export interface PrestigeEvent {
+  essence: number; // Essence awarded for this rebirth
+  prestigeCount: number;
+}
+
+export interface AchievementUnlockedEvent {
+  achievementId: string;
+  label: string;
+  description: string;
+  rewardDescription: string;
+  reward: StatModifier[];
+}
+
+export interface GamePausedEvent {
+  paused: boolean;
+}
+
+export interface PerformanceLevelChangedEvent {
+  level: PerformanceLevel;
+}
+
+// Event type → payload
+export interface GameEvents {
+  'walker-defeated': WalkerDefeatedEvent;
+  'walker-escaped': WalkerEscapedEvent;
+  'zombie-spawned': ZombieSpawnedEvent;
+  'zombie-defeated': ZombieDefeatedEvent;
+  'upgrade-purchased': UpgradePurchasedEvent;
+  'boss-spawned': BossSpawnedEvent;
+  'boss-attacked': BossAttackedEvent;
+  'boss-defeated': BossDefeatedEvent;
+  'area-changed': AreaChangedEvent;
+  'wave-started': WaveStartedEvent;
+  'wave-cleared': WaveClearedEvent;
+  'game-mode-changed': GameModeChangedEvent;
+  'prestige': PrestigeEvent;
+  'currency-changed': CurrencyChange; // Souls or any other ledger balance changed
+  'achievement-unlocked': AchievementUnlockedEvent;
+  'game-paused': GamePausedEvent;
+  'performance-level-changed': PerformanceLevelChangedEvent;
+}
+
+export type GameEventBus = EventBus<GameEvents>;
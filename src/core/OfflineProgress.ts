@@ -0,0 +1,53 @@
+// Offline progress estimation for time spent away from the game
+import { BigNum, BigNumSource } from './BigNum.ts';
+
+export interface OfflineProgressParams {
+  elapsedMs: number; // Time since the game was last saved
+  maxOfflineHours: number; // Cap on how much away time is rewarded
+  zombieCount: number; // Horde size when the player left
+  observedKillsPerMinute?: number | null; // Live kill rate before leaving (replaces the horde-size estimate)
+  zombieSpeedMultiplier: number; // Faster zombies catch walkers more often
+  areaSoulMultiplier: number;
+  soulMultiplier: BigNumSource; // Soul gain from upgrades and prestige
+}
+
+export interface OfflineProgressSummary {
+  elapsedMs: number; // Full time away
+  rewardedMs: number; // Time away after applying the cap
+  capped: boolean;
+  walkersDefeated: number;
+  souls: BigNum;
+}
+
+// Estimated walkers each unupgraded zombie defeats per second while away
+// (kept below the live rate since nobody is placing zombies or buying upgrades)
+export const OFFLINE_KILLS_PER_ZOMBIE_PER_SECOND = 0.05;
+
+// Share of the observed live kill rate kept while away
+export const OFFLINE_OBSERVED_RATE_FACTOR = 0.5;
+
+// Shortest absence worth reporting (quick tab switches are ignored)
+export const MIN_OFFLINE_MS = 60 * 1000;
+
+// Estimate what the horde earned while the player was away
+export function estimateOfflineProgress(params: OfflineProgressParams): OfflineProgressSummary {
+  const elapsedMs = Math.max(0, params.elapsedMs);
+  const maxMs = Math.max(0, params.maxOfflineHours) * 60 * 60 * 1000;
+  const rewardedMs = Math.min(elapsedMs, maxMs);
+
+  // Prefer the kill rate actually seen before leaving; fall back to estimating it from horde size
+  const observedKillsPerMinute = params.observedKillsPerMinute ?? 0;
+  const killsPerSecond = observedKillsPerMinute > 0
+    ? observedKillsPerMinute / 60 * OFFLINE_OBSERVED_RATE_FACTOR
+    : Math.max(0, params.zombieCount) * OFFLINE_KILLS_PER_ZOMBIE_PER_SECOND * params.zombieSpeedMultiplier;
+  const walkersDefeated = Math.floor(killsPerSecond * rewardedMs / 1000);
+  const souls = BigNum.from(walkersDefeated).mul(params.areaSoulMultiplier).mul(params.soulMultiplier).floor();
+
+  return {
+    elapsedMs,
+    rewardedMs,
+    capped: elapsedMs > maxMs,
+    walkersDefeated,
+    souls
+  };
+}
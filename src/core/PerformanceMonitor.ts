@@ -1,4 +1,6 @@
 // Performance monitoring and graceful degradation system
+import { GameEventBus } from './GameEvents.ts';
+
 export interface PerformanceMetrics {
   fps: number;
   frameTime: number;
@@ -32,7 +34,7 @@ export class PerformanceMonitor {
   
   // Current performance level
   private currentLevel: PerformanceLevel = PerformanceLevel.HIGH;
-  private levelChangeCallbacks: ((level: PerformanceLevel) => void)[] = [];
+  private events: GameEventBus | null = null; // Receives performance level changes
   
   // Entity and render tracking
   private entityCount: number = 0;
@@ -87,8 +89,8 @@ export class PerformanceMonitor {
   }
 
   // Track render calls for batch optimization
-  incrementRenderCalls(): void {
-    this.renderCalls++;
+  incrementRenderCalls(count: number = 1): void {
+    this.renderCalls += count;
   }
 
   // Update performance level based on current metrics
@@ -111,8 +113,8 @@ export class PerformanceMonitor {
       // Update culling settings based on performance level
       this.updateCullingSettings();
       
-      // Notify callbacks
-      this.levelChangeCallbacks.forEach(callback => callback(newLevel));
+      // Notify subscribers
+      this.events?.emit('performance-level-changed', { level: newLevel });
     }
   }
 
@@ -189,9 +191,9 @@ export class PerformanceMonitor {
     return this.maxParticlesBeforeCulling;
   }
 
-  // Register callback for performance level changes
-  onPerformanceLevelChange(callback: (level: PerformanceLevel) => void): void {
-    this.levelChangeCallbacks.push(callback);
+  // Publish performance level changes on the running game's event bus
+  setEventBus(events: GameEventBus | null): void {
+    this.events = events;
   }
 
   // Check if we should use reduced quality rendering
@@ -203,18 +205,4 @@ export class PerformanceMonitor {
   shouldSkipEffects(): boolean {
     return this.currentLevel === PerformanceLevel.LOW;
   }
-
-  // Get recommended entity update frequency (1.0 = every frame, 0.5 = every other frame)
-  getEntityUpdateFrequency(): number {
-    switch (this.currentLevel) {
-      case PerformanceLevel.HIGH:
-        return 1.0;
-      case PerformanceLevel.MEDIUM:
-        return 0.8;
-      case PerformanceLevel.LOW:
-        return 0.6;
-      default:
-        return 1.0;
-    }
-  }
 }
\ No newline at end of file
@@ -0,0 +1,50 @@
+// Seeded pseudo-random number generator for deterministic gameplay
+export class Random {
+  private state: number;
+
+  constructor(seed: number = Math.floor(Math.random() * 0x100000000)) {
+    this.state = seed >>> 0;
+  }
+
+  // Get next float in [0, 1) (mulberry32)
+  next(): number {
+    this.state = (this.state + 0x6D2B79F5) >>> 0;
+    let t = this.state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 0x100000000;
+  }
+
+  // Get float in [min, max)
+  range(min: number, max: number): number {
+    return min + this.next() * (max - min);
+  }
+
+  // Get integer in [0, maxExclusive)
+  int(maxExclusive: number): number {
+    return Math.floor(this.next() * maxExclusive);
+  }
+
+  // Return true with the given probability (0.0 to 1.0)
+  chance(probability: number): boolean {
+    return this.next() < probability;
+  }
+
+  // Pick a random element from a non-empty array
+  pick<T>(items: T[]): T {
+    return items[this.int(items.length)];
+  }
+
+  // Get internal state (for saving and replays)
+  getState(): number {
+    return this.state;
+  }
+
+  // Restore internal state so the sequence continues where it left off
+  setState(state: number): void {
+    this.state = state >>> 0;
+  }
+}
+
+// Shared unseeded generator for code paths that are not given one explicitly
+export const defaultRandom = new Random();
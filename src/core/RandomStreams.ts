@@ -0,0 +1,52 @@
+// Central random number service with independent named sub-streams
+import { Random } from './Random.ts';
+
+// gameplay: anything that affects simulation results
+// visuals: cosmetic effects that must never change gameplay
+export type RandomStreamName = 'gameplay' | 'visuals';
+
+export type RandomStreamsState = { [name in RandomStreamName]: number };
+
+const STREAM_NAMES: RandomStreamName[] = ['gameplay', 'visuals'];
+
+export class RandomStreams {
+  private streams: Map<RandomStreamName, Random> = new Map();
+
+  constructor(seed: number = Math.floor(Math.random() * 0x100000000)) {
+    for (const name of STREAM_NAMES) {
+      this.streams.set(name, new Random(RandomStreams.deriveSeed(seed, name)));
+    }
+  }
+
+  // Get the generator for a named stream
+  get(name: RandomStreamName): Random {
+    return this.streams.get(name)!;
+  }
+
+  // Get state of every stream (for saving and replays)
+  getState(): RandomStreamsState {
+    return {
+      gameplay: this.get('gameplay').getState(),
+      visuals: this.get('visuals').getState()
+    };
+  }
+
+  // Restore stream states; streams missing from the state keep their current sequence
+  setState(state: Partial<RandomStreamsState>): void {
+    for (const name of STREAM_NAMES) {
+      const streamState = state[name];
+      if (typeof streamState === 'number') {
+        this.get(name).setState(streamState);
+      }
+    }
+  }
+
+  // Mix the root seed with the stream name so streams don't share a sequence
+  private static deriveSeed(seed: number, name: string): number {
+    let hash = (seed ^ 0x9E3779B9) >>> 0;
+    for (let i = 0; i < name.length; i++) {
+      hash = Math.imul(hash ^ name.charCodeAt(i), 0x01000193) >>> 0;
+    }
+    return hash;
+  }
+}
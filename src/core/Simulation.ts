@@ -0,0 +1,486 @@
+// Headless, deterministic gameplay simulation decoupled from canvas and DOM
+import { WalkerSystem } from '../systems/WalkerSystem.ts';
+import { ZombieSystem } from '../systems/ZombieSystem.ts';
+import { WaveSystem, GameMode } from '../systems/WaveSystem.ts';
+import { ResourceManager } from '../managers/ResourceManager.ts';
+import { UpgradeManager } from '../managers/UpgradeManager.ts';
+import { AreaManager } from '../managers/AreaManager.ts';
+import { SaveManager, MemoryStorage } from '../managers/SaveManager.ts';
+import { PrestigeManager } from '../managers/PrestigeManager.ts';
+import { AchievementManager } from '../managers/AchievementManager.ts';
+import { StatisticsManager } from '../managers/StatisticsManager.ts';
+import { IncomeTracker } from '../managers/IncomeTracker.ts';
+import { AutomationManager, AutoBuyRule } from '../managers/AutomationManager.ts';
+import { RandomStreams, RandomStreamsState } from './RandomStreams.ts';
+import { Clock, ManualClock } from './Clock.ts';
+import { SimulationContext } from './SimulationContext.ts';
+import { StatPipeline } from './StatPipeline.ts';
+import { EventBus } from './EventBus.ts';
+import { GameEventBus, GameEvents, AreaChangeReason } from './GameEvents.ts';
+import { estimateOfflineProgress, OfflineProgressSummary } from './OfflineProgress.ts';
+import { Vector2 } from './Vector2.ts';
+import { BigNum } from './BigNum.ts';
+import { ZombieTypeId } from '../entities/ZombieTypes.ts';
+
+export interface SimulationOptions {
+  width: number;
+  height: number;
+  seed?: number; // Defaults to continuing the saved random state, or a random seed
+  randomState?: RandomStreamsState; // Exact stream state to start from (takes precedence over seed)
+  clock?: Clock; // Defaults to a clock advanced by the fixed timestep
+  saveManager?: SaveManager; // Defaults to in-memory storage
+}
+
+// Player input applied at the start of a specific fixed-step tick
+export type SimulationInput =
+  | { tick: number; type: 'spawn-zombie'; x: number; y: number; zombieType?: ZombieTypeId }
+  | { tick: number; type: 'purchase-upgrade'; upgradeId: string; count?: number }
+  | { tick: number; type: 'purchase-prestige-upgrade'; upgradeId: string }
+  | { tick: number; type: 'prestige' }
+  | { tick: number; type: 'offline-progress'; elapsedMs: number; zombieCount: number; maxOfflineHours: number; killsPerMinute?: number | null }
+  | { tick: number; type: 'configure-auto-buy'; upgradeId: string; enabled: boolean; rule: AutoBuyRule }
+  | { tick: number; type: 'set-auto-buy-priority'; upgradeIds: string[] }
+  | { tick: number; type: 'travel-to-area'; areaId: number }
+  | { tick: number; type: 'set-auto-advance'; enabled: boolean }
+  | { tick: number; type: 'set-game-mode'; mode: GameMode }
+  | { tick: number; type: 'resize'; width: number; height: number };
+
+// Plain snapshot of simulation state for comparisons and balance analysis
+export interface SimulationState {
+  tick: number;
+  souls: BigNum;
+  walkersDefeated: number;
+  currentArea: number;
+  upgrades: { [upgradeId: string]: number };
+  essence: number;
+  prestigeCount: number;
+  walkers: { x: number; y: number; health: number }[];
+  zombies: { x: number; y: number; health: number }[];
+}
+
+export class Simulation {
+  public static readonly FIXED_TIME_STEP = 1000 / 60; // 60 updates per second
+
+  public readonly saveManager: SaveManager;
+  public readonly resourceManager: ResourceManager;
+  public readonly prestigeManager: PrestigeManager;
+  public readonly upgradeManager: UpgradeManager;
+  public readonly areaManager: AreaManager;
+  public readonly achievementManager: AchievementManager;
+  public readonly statisticsManager: StatisticsManager;
+  public readonly incomeTracker: IncomeTracker;
+  public readonly automationManager: AutomationManager;
+  public readonly walkerSystem: WalkerSystem;
+  public readonly zombieSystem: ZombieSystem;
+  public readonly waveSystem: WaveSystem;
+  public readonly events: GameEventBus;
+
+  private readonly context: SimulationContext;
+  private readonly manualClock: ManualClock | null;
+  private tick: number = 0;
+  private lastOfflineProgress: OfflineProgressSummary | null = null;
+  private autoAdvance: boolean = true; // Move to each area as soon as it unlocks
+  private gameMode: GameMode = 'sandbox';
+  private bossDefeated: boolean = false; // Set when the boss falls; the next area opens on the following step
+
+  constructor(options: SimulationOptions) {
+    this.saveManager = options.saveManager ?? new SaveManager(new MemoryStorage());
+
+    this.manualClock = options.clock ? null : new ManualClock();
+    this.events = new EventBus<GameEvents>();
+    this.context = {
+      random: new RandomStreams(options.seed),
+      clock: options.clock ?? this.manualClock!,
+      stats: new StatPipeline(),
+      events: this.events
+    };
+
+    // Initialize managers
+    this.resourceManager = new ResourceManager(this.saveManager, this.events);
+    this.prestigeManager = new PrestigeManager(this.saveManager, this.resourceManager);
+    this.upgradeManager = new UpgradeManager(this.saveManager);
+    this.areaManager = new AreaManager(this.saveManager);
+    this.achievementManager = new AchievementManager(this.saveManager, this.events, this.context.clock);
+    this.statisticsManager = new StatisticsManager(this.saveManager, this.areaManager, this.events);
+    this.incomeTracker = new IncomeTracker(this.resourceManager, this.upgradeManager, this.events);
+    this.automationManager = new AutomationManager(
+      this.saveManager,
+      this.upgradeManager,
+      this.resourceManager,
+      this.incomeTracker,
+      this.context.stats
+    );
+
+    // Run upgrades, permanent prestige upgrades, achievement rewards and the current area all feed the stat pipeline
+    this.context.stats.addSource(this.upgradeManager);
+    this.context.stats.addSource(this.prestigeManager);
+    this.context.stats.addSource(this.achievementManager);
+    this.context.stats.addSource(this.areaManager);
+
+    // Initialize gameplay systems
+    this.walkerSystem = new WalkerSystem(options.width, options.height, this.areaManager, this.context);
+    this.zombieSystem = new ZombieSystem(options.width, options.height, this.resourceManager, this.areaManager, this.context);
+    this.waveSystem = new WaveSystem(this.walkerSystem, this.areaManager, this.resourceManager, this.context);
+
+    // Auto-buy rules purchase through the same path as the player
+    this.automationManager.setPurchaseHandler(upgradeId => this.purchaseUpgrade(upgradeId, 1, true));
+
+    // Achievement rewards for zombie stats apply to the horde already on the field
+    this.events.on('achievement-unlocked', event => {
+      if (StatPipeline.affectsZombies(event.reward)) {
+        this.zombieSystem.applyUpgrades();
+      }
+    });
+
+    // Defeating an area's boss opens the next area (after every listener has seen the defeat)
+    this.events.on('boss-defeated', () => {
+      this.bossDefeated = true;
+    });
+
+    // Credit the area the save is already in
+    this.achievementManager.recordArea(this.areaManager.getCurrentAreaId());
+
+    // Continue the saved random sequence unless a seed was given explicitly
+    // (restored last so system construction doesn't consume from it)
+    if (options.randomState) {
+      this.context.random.setState(options.randomState);
+    } else if (options.seed === undefined) {
+      const saveData = this.saveManager.loadGameState();
+      if (saveData?.randomState) {
+        this.context.random.setState(saveData.randomState);
+      }
+    }
+  }
+
+  // Advance the simulation by one fixed timestep
+  step(): void {
+    // Check for area progression
+    this.checkAreaProgression();
+
+    // Recover soul yield lost to escaped walkers
+    this.areaManager.update(Simulation.FIXED_TIME_STEP);
+
+    // Update walker system with the zombie spatial index for steering and guarding
+    this.walkerSystem.update(Simulation.FIXED_TIME_STEP, this.zombieSystem.getSpatialGrid());
+
+    // Update zombie system with the walker spatial index for AI targeting
+    this.zombieSystem.update(Simulation.FIXED_TIME_STEP, this.walkerSystem.getSpatialGrid());
+
+    // Bring in the next wave once this one is cleared (wave mode only)
+    this.waveSystem.update(Simulation.FIXED_TIME_STEP);
+
+    // Save income on its timer
+    this.resourceManager.update(Simulation.FIXED_TIME_STEP);
+
+    // Count play time and close souls/sec samples
+    this.statisticsManager.update(Simulation.FIXED_TIME_STEP);
+    this.incomeTracker.update(Simulation.FIXED_TIME_STEP);
+
+    // Check auto-buy rules on their timer
+    this.automationManager.update(Simulation.FIXED_TIME_STEP);
+
+    this.tick++;
+    if (this.manualClock) {
+      this.manualClock.advance(Simulation.FIXED_TIME_STEP);
+    }
+  }
+
+  // Run a number of ticks, applying each input at the start of its tick
+  run(ticks: number, inputs: SimulationInput[] = []): SimulationState {
+    const pending = [...inputs].sort((a, b) => a.tick - b.tick);
+    let inputIndex = 0;
+    const endTick = this.tick + ticks;
+
+    while (this.tick < endTick) {
+      while (inputIndex < pending.length && pending[inputIndex].tick <= this.tick) {
+        this.applyInput(pending[inputIndex]);
+        inputIndex++;
+      }
+      this.step();
+    }
+
+    return this.getState();
+  }
+
+  // Apply a single player input (returns true if it had an effect)
+  applyInput(input: SimulationInput): boolean {
+    switch (input.type) {
+      case 'spawn-zombie':
+        return this.spawnZombie(new Vector2(input.x, input.y), input.zombieType);
+      case 'purchase-upgrade':
+        return this.purchaseUpgrade(input.upgradeId, input.count);
+      case 'purchase-prestige-upgrade':
+        return this.purchasePrestigeUpgrade(input.upgradeId);
+      case 'prestige':
+        return this.prestige();
+      case 'offline-progress':
+        return this.applyOfflineProgress(input.elapsedMs, input.zombieCount, input.maxOfflineHours, input.killsPerMinute).walkersDefeated > 0;
+      case 'configure-auto-buy':
+        return this.automationManager.configure(input.upgradeId, { enabled: input.enabled, rule: input.rule });
+      case 'set-auto-buy-priority':
+        return this.automationManager.setPriority(input.upgradeIds);
+      case 'travel-to-area':
+        return this.travelToArea(input.areaId);
+      case 'set-auto-advance':
+        this.autoAdvance = input.enabled;
+        return true;
+      case 'set-game-mode':
+        return this.setGameMode(input.mode);
+      case 'resize':
+        this.resize(input.width, input.height);
+        return true;
+      default:
+        return false;
+    }
+  }
+
+  // Spawn a zombie of the given type at the specified position
+  spawnZombie(position: Vector2, zombieType: ZombieTypeId = 'shambler'): boolean {
+    return this.zombieSystem.spawnZombie(position, zombieType);
+  }
+
+  // Spend souls on the next levels of an upgrade and apply its effects
+  purchaseUpgrade(upgradeId: string, count: number = 1, automatic: boolean = false): boolean {
+    if (!this.upgradeManager.canPurchaseUpgrade(upgradeId) || count > this.upgradeManager.getRemainingLevels(upgradeId)) {
+      return false;
+    }
+
+    const cost = this.upgradeManager.getBulkUpgradeCost(upgradeId, count);
+    if (count < 1 || !this.resourceManager.spend(cost)) {
+      return false;
+    }
+
+    this.upgradeManager.purchaseUpgrade(upgradeId, count);
+    this.applyUpgradeEffects(upgradeId);
+    this.events.emit('upgrade-purchased', {
+      upgradeId,
+      label: this.upgradeManager.getUpgradeDefinition(upgradeId)?.label ?? upgradeId,
+      count,
+      level: this.upgradeManager.getUpgradeLevel(upgradeId),
+      cost,
+      prestige: false,
+      automatic
+    });
+    return true;
+  }
+
+  // Apply upgrade effects to existing entities immediately
+  // (other stats are resolved through the stat pipeline whenever they are used)
+  applyUpgradeEffects(upgradeId: string): void {
+    if (this.upgradeManager.affectsZombies(upgradeId)) {
+      this.zombieSystem.applyUpgrades();
+    }
+  }
+
+  // Spend essence on a permanent prestige upgrade and apply it to the current run
+  purchasePrestigeUpgrade(upgradeId: string): boolean {
+    const cost = this.prestigeManager.getUpgradeCost(upgradeId);
+    if (!this.prestigeManager.purchaseUpgrade(upgradeId)) {
+      return false;
+    }
+
+    this.zombieSystem.applyUpgrades();
+    this.events.emit('upgrade-purchased', {
+      upgradeId,
+      label: this.prestigeManager.getUpgradeDefinition(upgradeId)?.label ?? upgradeId,
+      count: 1,
+      level: this.prestigeManager.getUpgradeLevel(upgradeId),
+      cost,
+      prestige: true,
+      automatic: false
+    });
+    return true;
+  }
+
+  // Rebirth: award essence for lifetime souls, then reset souls, upgrades and area progress
+  prestige(): boolean {
+    const essence = this.prestigeManager.prestige();
+    if (essence <= 0) {
+      return false;
+    }
+
+    this.resourceManager.startNewRun(this.context.stats.resolve('starting-souls'));
+    this.upgradeManager.reset();
+    this.areaManager.reset();
+    this.bossDefeated = false;
+
+    // Start the new run with an empty field (the boss leaves with everyone else)
+    this.zombieSystem.clear();
+    this.walkerSystem.clear();
+    this.waveSystem.reset();
+
+    console.log(`Prestiged for ${essence} essence (rebirth #${this.prestigeManager.getPrestigeCount()})`);
+
+    this.events.emit('prestige', { essence, prestigeCount: this.prestigeManager.getPrestigeCount() });
+    this.events.emit('area-changed', { area: this.areaManager.getCurrentArea(), reason: 'prestige' });
+    return true;
+  }
+
+  // Award estimated souls and defeats for time spent away (area progression follows on the next step)
+  applyOfflineProgress(
+    elapsedMs: number,
+    zombieCount: number,
+    maxOfflineHours: number,
+    killsPerMinute: number | null = null
+  ): OfflineProgressSummary {
+    const summary = estimateOfflineProgress({
+      elapsedMs,
+      maxOfflineHours,
+      zombieCount,
+      observedKillsPerMinute: killsPerMinute,
+      zombieSpeedMultiplier: this.context.stats.resolve('zombie-speed'),
+      areaSoulMultiplier: this.areaManager.getCurrentArea().soulMultiplier,
+      soulMultiplier: this.context.stats.resolveBig('soul-gain')
+    });
+
+    if (summary.walkersDefeated > 0) {
+      this.resourceManager.awardOfflineProgress(summary.souls, summary.walkersDefeated);
+    }
+
+    this.lastOfflineProgress = summary;
+    return summary;
+  }
+
+  // Get the result of the most recent offline progress calculation
+  getLastOfflineProgress(): OfflineProgressSummary | null {
+    return this.lastOfflineProgress;
+  }
+
+  // Update play area dimensions when the canvas resizes
+  resize(width: number, height: number): void {
+    this.walkerSystem.updateCanvasDimensions(width, height);
+    this.zombieSystem.updateCanvasDimensions(width, height);
+  }
+
+  getTick(): number {
+    return this.tick;
+  }
+
+  getContext(): SimulationContext {
+    return this.context;
+  }
+
+  // Persist random stream state so a reload continues the same sequence,
+  // along with the horde size and kill rate used to estimate offline progress, the latest statistics,
+  // and income and achievement progress not yet saved
+  saveSessionState(): void {
+    this.resourceManager.flush();
+    this.achievementManager.flush();
+    this.saveManager.saveGameState({
+      randomState: this.context.random.getState(),
+      zombieCount: this.zombieSystem.getZombieCount(),
+      killsPerMinute: this.incomeTracker.getOfflineKillsPerMinute() ?? undefined,
+      statistics: this.statisticsManager.getStatisticsData()
+    });
+  }
+
+  // Capture a plain snapshot of the current state
+  getState(): SimulationState {
+    const upgrades: { [upgradeId: string]: number } = {};
+    for (const [upgradeId, data] of Object.entries(this.upgradeManager.getUpgradeData())) {
+      upgrades[upgradeId] = data.level;
+    }
+
+    return {
+      tick: this.tick,
+      souls: this.resourceManager.getSouls(),
+      walkersDefeated: this.resourceManager.getWalkersDefeated(),
+      currentArea: this.areaManager.getCurrentAreaId(),
+      upgrades,
+      essence: this.prestigeManager.getEssence(),
+      prestigeCount: this.prestigeManager.getPrestigeCount(),
+      walkers: this.walkerSystem.getActiveWalkers().map(walker => ({
+        x: walker.position.x,
+        y: walker.position.y,
+        health: walker.health
+      })),
+      zombies: this.zombieSystem.getActiveZombies().map(zombie => ({
+        x: zombie.position.x,
+        y: zombie.position.y,
+        health: zombie.health
+      }))
+    };
+  }
+
+  // Move to any unlocked area (returns false if it is locked or already current)
+  travelToArea(areaId: number): boolean {
+    if (areaId === this.areaManager.getCurrentAreaId()) return false;
+    return this.enterArea(areaId, 'travel');
+  }
+
+  isAutoAdvanceEnabled(): boolean {
+    return this.autoAdvance;
+  }
+
+  // Switch between the idle sandbox and wave mode (returns false if already in that mode)
+  setGameMode(mode: GameMode): boolean {
+    if (mode === this.gameMode) return false;
+    this.gameMode = mode;
+
+    // Each mode starts from an empty field of walkers; the horde stays
+    this.walkerSystem.clear();
+    this.walkerSystem.setRefillEnabled(mode === 'sandbox');
+    if (mode === 'waves') {
+      this.waveSystem.start();
+    } else {
+      this.waveSystem.stop();
+    }
+
+    console.log(`Game mode set to ${mode}`);
+    this.events.emit('game-mode-changed', { mode });
+    return true;
+  }
+
+  getGameMode(): GameMode {
+    return this.gameMode;
+  }
+
+  // Open the next area after a boss defeat, then summon the area's boss once enough walkers have fallen in the furthest unlocked area
+  private checkAreaProgression(): void {
+    if (this.bossDefeated) {
+      this.bossDefeated = false;
+      this.unlockNextArea();
+    }
+
+    if (this.walkerSystem.getBoss() || !this.areaManager.isBossDue(this.resourceManager.getWalkersDefeated())) {
+      return;
+    }
+
+    const area = this.areaManager.getCurrentArea();
+    const boss = this.walkerSystem.spawnBoss();
+    console.log(`${area.boss.name} has appeared in ${area.name}!`);
+    this.events.emit('boss-spawned', { area, name: area.boss.name, maxHealth: boss.maxHealth });
+  }
+
+  // Open the next area after a boss defeat and auto-advance into it if enabled
+  private unlockNextArea(): void {
+    const unlockedArea = this.areaManager.unlockNextArea();
+    if (unlockedArea && this.autoAdvance && this.enterArea(unlockedArea.id, 'advance')) {
+      console.log(`Advanced to new area: ${unlockedArea.name}`);
+    }
+  }
+
+  // Switch the current area and update everything already on the field
+  private enterArea(areaId: number, reason: AreaChangeReason): boolean {
+    const previousArea = this.areaManager.getCurrentArea();
+    if (!this.areaManager.setCurrentArea(areaId)) {
+      return false;
+    }
+
+    const newArea = this.areaManager.getCurrentArea();
+
+    // A boss left undefeated stays behind (it returns when the horde comes back)
+    this.walkerSystem.removeBoss();
+
+    // Update walker sprites for the new area
+    this.walkerSystem.updateWalkerSprites(newArea);
+
+    // Leaving or entering an area with zombie modifiers changes the horde on the field
+    if (StatPipeline.affectsZombies(previousArea.modifiers) || StatPipeline.affectsZombies(newArea.modifiers)) {
+      this.zombieSystem.applyUpgrades();
+    }
+
+    this.events.emit('area-changed', { area: newArea, reason });
+    return true;
+  }
+}
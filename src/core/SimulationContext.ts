@@ -0,0 +1,12 @@
+// Shared services injected into gameplay systems by the simulation
+import { RandomStreams } from './RandomStreams.ts';
+import { Clock } from './Clock.ts';
+import { StatPipeline } from './StatPipeline.ts';
+import { GameEventBus } from './GameEvents.ts';
+
+export interface SimulationContext {
+  random: RandomStreams;
+  clock: Clock;
+  stats: StatPipeline; // Upgrade-derived stats queried by zombies, walkers and resources
+  events: GameEventBus; // Gameplay events raised by systems and managers
+}
@@ -0,0 +1,152 @@
+// Uniform grid spatial index for fast radius and nearest-neighbour queries
+import { Vector2 } from './Vector2.ts';
+
+export interface SpatialEntity {
+  position: Vector2;
+  active: boolean;
+  size?: number;
+}
+
+export class SpatialGrid<T extends SpatialEntity> {
+  private cells: Map<number, T[]> = new Map();
+  private readonly cellSize: number;
+  private itemCount: number = 0;
+  private maxEntitySize: number = 0;
+
+  // Offset keeps cell coordinates positive so they pack into a single numeric key
+  private static readonly KEY_OFFSET = 32768;
+
+  constructor(cellSize: number = 64) {
+    this.cellSize = cellSize;
+  }
+
+  // Remove all entities from the grid (cell arrays are kept for reuse)
+  clear(): void {
+    for (const cell of this.cells.values()) {
+      cell.length = 0;
+    }
+    this.itemCount = 0;
+    this.maxEntitySize = 0;
+  }
+
+  // Clear the grid and insert every active entity
+  rebuild(entities: T[]): void {
+    this.clear();
+    for (const entity of entities) {
+      if (entity.active) {
+        this.insert(entity);
+      }
+    }
+  }
+
+  // Insert a single entity into the cell containing its position
+  insert(entity: T): void {
+    const key = this.getKey(this.toCell(entity.position.x), this.toCell(entity.position.y));
+    let cell = this.cells.get(key);
+    if (!cell) {
+      cell = [];
+      this.cells.set(key, cell);
+    }
+    cell.push(entity);
+    this.itemCount++;
+    if (entity.size !== undefined && entity.size > this.maxEntitySize) {
+      this.maxEntitySize = entity.size;
+    }
+  }
+
+  // Get all active entities within radius of a point
+  queryRadius(position: Vector2, radius: number, results: T[] = []): T[] {
+    const radiusSquared = radius * radius;
+    const minX = this.toCell(position.x - radius);
+    const maxX = this.toCell(position.x + radius);
+    const minY = this.toCell(position.y - radius);
+    const maxY = this.toCell(position.y + radius);
+
+    for (let cx = minX; cx <= maxX; cx++) {
+      for (let cy = minY; cy <= maxY; cy++) {
+        const cell = this.cells.get(this.getKey(cx, cy));
+        if (!cell) continue;
+
+        for (const entity of cell) {
+          if (!entity.active) continue;
+
+          const dx = entity.position.x - position.x;
+          const dy = entity.position.y - position.y;
+          if (dx * dx + dy * dy <= radiusSquared) {
+            results.push(entity);
+          }
+        }
+      }
+    }
+
+    return results;
+  }
+
+  // Find the nearest active entity within maxRadius (optionally filtered)
+  findNearest(position: Vector2, maxRadius: number, filter?: (entity: T) => boolean): T | null {
+    let nearest: T | null = null;
+    let nearestDistanceSquared = maxRadius * maxRadius;
+
+    // Search rings of cells outward so close matches end the search early
+    const centerX = this.toCell(position.x);
+    const centerY = this.toCell(position.y);
+    const maxRing = Math.ceil(maxRadius / this.cellSize);
+
+    for (let ring = 0; ring <= maxRing; ring++) {
+      for (let cx = centerX - ring; cx <= centerX + ring; cx++) {
+        for (let cy = centerY - ring; cy <= centerY + ring; cy++) {
+          // Only visit the outer edge of this ring
+          if (ring > 0 && cx !== centerX - ring && cx !== centerX + ring &&
+              cy !== centerY - ring && cy !== centerY + ring) {
+            continue;
+          }
+
+          const cell = this.cells.get(this.getKey(cx, cy));
+          if (!cell) continue;
+
+          for (const entity of cell) {
+            if (!entity.active) continue;
+            if (filter && !filter(entity)) continue;
+
+            const dx = entity.position.x - position.x;
+            const dy = entity.position.y - position.y;
+            const distanceSquared = dx * dx + dy * dy;
+            if (distanceSquared <= nearestDistanceSquared) {
+              nearestDistanceSquared = distanceSquared;
+              nearest = entity;
+            }
+          }
+        }
+      }
+
+      // Anything in further rings is at least ring * cellSize away
+      if (nearest && ring * this.cellSize >= Math.sqrt(nearestDistanceSquared)) {
+        break;
+      }
+    }
+
+    return nearest;
+  }
+
+  // Get number of entities inserted since the last rebuild
+  getCount(): number {
+    return this.itemCount;
+  }
+
+  // Get the largest size of any inserted entity (used to pad overlap queries)
+  getMaxEntitySize(): number {
+    return this.maxEntitySize;
+  }
+
+  getCellSize(): number {
+    return this.cellSize;
+  }
+
+  private toCell(value: number): number {
+    return Math.floor(value / this.cellSize);
+  }
+
+  private getKey(cellX: number, cellY: number): number {
+    return (cellX + SpatialGrid.KEY_OFFSET) * 65536 + (cellY + SpatialGrid.KEY_OFFSET);
+  }
+}
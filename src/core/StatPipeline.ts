@@ -0,0 +1,147 @@
+// Stat pipeline that resolves gameplay stats from upgrade modifiers
+import { ZombieTypeId, ZombieModifiers } from '../entities/ZombieTypes.ts';
+import { WalkerModifiers } from '../entities/WalkerArchetypes.ts';
+import { BigNum } from './BigNum.ts';
+
+export type StatId =
+  | 'zombie-speed' // Multiplier on zombie movement speed
+  | 'zombie-damage' // Multiplier on zombie attack damage
+  | 'zombie-max-health' // Multiplier on zombie max health
+  | 'zombie-health-regen' // Health regenerated per second
+  | 'max-zombies'
+  | 'max-walkers' // Walkers the sandbox mode keeps on the field
+  | 'infection-chance' // Chance any defeated walker rises as a zombie
+  | 'walker-speed' // Multiplier on walker movement speed
+  | 'walker-health' // Multiplier on walker health
+  | 'soul-gain' // Multiplier on souls from every kill
+  | 'starting-souls' // Souls at the start of each run
+  | 'auto-buy-rate'; // Auto-buyer rule checks per second (0 keeps it locked)
+
+// add: adds value per level to the stat
+// percent: multiplies the stat by (1 + value per level), stacking multiplicatively across upgrades
+export type StatModifierType = 'add' | 'percent';
+
+export interface StatModifier {
+  stat: StatId;
+  type: StatModifierType;
+  value: number; // Per upgrade level
+  zombieType?: ZombieTypeId; // Only applies to zombies of this type
+}
+
+export interface StatDefinition {
+  base: number;
+  min?: number;
+  max?: number;
+}
+
+export const STAT_DEFINITIONS: Record<StatId, StatDefinition> = {
+  'zombie-speed': { base: 1 },
+  'zombie-damage': { base: 1 },
+  'zombie-max-health': { base: 1 },
+  'zombie-health-regen': { base: 0 },
+  'max-zombies': { base: 10 },
+  'max-walkers': { base: 100, min: 1 },
+  'infection-chance': { base: 0, max: 0.5 },
+  'walker-speed': { base: 1, min: 0.25 },
+  'walker-health': { base: 1, min: 0.25 },
+  'soul-gain': { base: 1 },
+  'starting-souls': { base: 0 },
+  'auto-buy-rate': { base: 0 }
+};
+
+// Stats that change existing zombies when modified
+const ZOMBIE_STATS: ReadonlySet<StatId> = new Set<StatId>([
+  'zombie-speed',
+  'zombie-damage',
+  'zombie-max-health',
+  'zombie-health-regen'
+]);
+
+// A modifier together with the number of levels it applies
+export interface ActiveStatModifier {
+  modifier: StatModifier;
+  level: number;
+}
+
+// Anything that contributes modifiers (run upgrades, prestige upgrades)
+export interface StatModifierSource {
+  getStatModifiers(): ActiveStatModifier[];
+}
+
+export class StatPipeline {
+  private sources: StatModifierSource[] = [];
+
+  addSource(source: StatModifierSource): void {
+    if (!this.sources.includes(source)) {
+      this.sources.push(source);
+    }
+  }
+
+  // Resolve a stat: (base + additions) x percent multipliers, clamped to the stat's range
+  resolve(stat: StatId, zombieType?: ZombieTypeId): number {
+    const definition = STAT_DEFINITIONS[stat];
+    const { added, factors } = this.collectModifiers(stat, zombieType);
+    const multiplier = factors.reduce((product, factor) => product * factor, 1);
+
+    let value = (definition.base + added) * multiplier;
+    if (definition.min !== undefined) value = Math.max(definition.min, value);
+    if (definition.max !== undefined) value = Math.min(definition.max, value);
+    return value;
+  }
+
+  // Resolve a stat as a big number (for multipliers that can outgrow a double, like soul gain)
+  resolveBig(stat: StatId, zombieType?: ZombieTypeId): BigNum {
+    const definition = STAT_DEFINITIONS[stat];
+    const { added, factors } = this.collectModifiers(stat, zombieType);
+    const multiplier = factors.reduce((product, factor) => product.mul(factor), BigNum.ONE);
+
+    let value = multiplier.mul(definition.base + added);
+    if (definition.min !== undefined) value = BigNum.max(definition.min, value);
+    if (definition.max !== undefined) value = BigNum.min(definition.max, value);
+    return value;
+  }
+
+  // Sum the additions and list the percent factors that apply to a stat
+  private collectModifiers(stat: StatId, zombieType?: ZombieTypeId): { added: number; factors: number[] } {
+    let added = 0;
+    const factors: number[] = [];
+
+    for (const source of this.sources) {
+      for (const { modifier, level } of source.getStatModifiers()) {
+        if (modifier.stat !== stat || level <= 0) continue;
+        if (modifier.zombieType && modifier.zombieType !== zombieType) continue;
+
+        if (modifier.type === 'add') {
+          added += modifier.value * level;
+        } else {
+          factors.push(1 + modifier.value * level);
+        }
+      }
+    }
+
+    return { added, factors };
+  }
+
+  // Get all upgrade modifiers for a zombie type
+  getZombieModifiers(typeId: ZombieTypeId): ZombieModifiers {
+    return {
+      speedMultiplier: this.resolve('zombie-speed', typeId),
+      damageMultiplier: this.resolve('zombie-damage', typeId),
+      healthMultiplier: this.resolve('zombie-max-health', typeId),
+      healthRegen: this.resolve('zombie-health-regen', typeId)
+    };
+  }
+
+  // Get modifiers applied to newly spawned walkers
+  getWalkerModifiers(): WalkerModifiers {
+    return {
+      speedMultiplier: this.resolve('walker-speed'),
+      healthMultiplier: this.resolve('walker-health')
+    };
+  }
+
+  // Check if any of the modifiers change existing zombies
+  static affectsZombies(modifiers: StatModifier[]): boolean {
+    return modifiers.some(modifier => ZOMBIE_STATS.has(modifier.stat));
+  }
+}
@@ -0,0 +1,27 @@
+// Type guards for narrowing untrusted data (saves, replays, JSON content)
+
+export const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+export const isNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+export const isString = (value: unknown): value is string => typeof value === 'string';
+
+export const isStringList = (value: unknown): value is string[] => Array.isArray(value) && value.every(isString);
+
+// Non-empty string, and a non-empty list of them (names, colors, sprite ids)
+export const isText = (value: unknown): value is string => isString(value) && value.length > 0;
+
+export const isTextList = (value: unknown): value is string[] => Array.isArray(value) && value.length > 0 && value.every(isText);
+
+// Keep the entries of an object whose values pass the guard (empty when it isn't an object)
+export function filterRecord<T>(value: unknown, guard: (entry: unknown) => entry is T): { [key: string]: T } {
+  const result: { [key: string]: T } = {};
+  if (!isRecord(value)) return result;
+  for (const [key, entry] of Object.entries(value)) {
+    if (guard(entry)) {
+      result[key] = entry;
+    }
+  }
+  return result;
+}
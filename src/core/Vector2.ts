@@ -1,4 +1,6 @@
 // Vector2 class for 2D position and velocity management
+import { Random, defaultRandom } from './Random.ts';
+
 export class Vector2 {
   public x: number;
   public y: number;
@@ -76,10 +78,10 @@ export class Vector2 {
     return new Vector2(vector.x * scalar, vector.y * scalar);
   }
 
-  static random(minX: number, maxX: number, minY: number, maxY: number): Vector2 {
+  static random(minX: number, maxX: number, minY: number, maxY: number, random: Random = defaultRandom): Vector2 {
     return new Vector2(
-      Math.random() * (maxX - minX) + minX,
-      Math.random() * (maxY - minY) + minY
+      random.range(minX, maxX),
+      random.range(minY, maxY)
     );
   }
 }
\ No newline at end of file
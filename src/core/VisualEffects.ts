@@ -1,9 +1,12 @@
 // Visual effects system for enhanced area feedback and animations
-import { AreaConfig } from '../managers/AreaManager.ts';
+import { AreaConfig } from '../managers/AreaDefinitions.ts';
 import { ObjectPool } from './ObjectPool.ts';
 import { EntityCuller } from './EntityCuller.ts';
 // import { BatchRenderer } from './BatchRenderer.ts';
 import { PerformanceMonitor } from './PerformanceMonitor.ts';
+import { Random, defaultRandom } from './Random.ts';
+import { Unsubscribe } from './EventBus.ts';
+import { GameEventBus } from './GameEvents.ts';
 
 export interface ParticleEffect {
   x: number;
@@ -20,6 +23,7 @@ export class VisualEffects {
   private particles: ParticleEffect[] = [];
   private canvasWidth: number;
   private canvasHeight: number;
+  private random: Random; // Cosmetic stream, never shared with gameplay
   
   // Performance optimization components
   private particlePool: ObjectPool<ParticleEffect>;
@@ -27,9 +31,10 @@ export class VisualEffects {
   // private batchRenderer: BatchRenderer;
   private performanceMonitor: PerformanceMonitor;
 
-  constructor(canvasWidth: number, canvasHeight: number) {
+  constructor(canvasWidth: number, canvasHeight: number, random: Random = defaultRandom) {
     this.canvasWidth = canvasWidth;
     this.canvasHeight = canvasHeight;
+    this.random = random;
     
     // Initialize performance optimization components
     this.entityCuller = EntityCuller.getInstance();
@@ -64,6 +69,28 @@ export class VisualEffects {
     );
   }
 
+  // Play effects for gameplay events (returns a function that stops listening)
+  subscribeTo(events: GameEventBus): Unsubscribe {
+    const subscriptions = [
+      events.on('walker-defeated', event => this.createDeathEffect(event.x, event.y, event.color)),
+      events.on('walker-escaped', event => this.createDeathEffect(event.x, event.y, '#BDC3C7')), // Dust left at the edge
+      events.on('zombie-defeated', event => this.createZombieDeathEffect(event.x, event.y)),
+      events.on('zombie-spawned', event => {
+        if (event.risen) this.createDeathEffect(event.x, event.y, '#556B2F');
+      }),
+      events.on('boss-attacked', event => {
+        if (event.pattern === 'slam') {
+          this.createShockwaveEffect(event.x, event.y, event.radius, '#F1C40F');
+        } else {
+          this.createDeathEffect(event.x, event.y, '#C2B280'); // Dust kicked up by the charge
+        }
+      }),
+      events.on('boss-defeated', event => this.createBossDeathEffect(event.x, event.y)),
+      events.on('area-changed', event => this.createAreaTransitionEffect(event.area))
+    ];
+    return () => subscriptions.forEach(unsubscribe => unsubscribe());
+  }
+
   // Update all visual effects
   update(deltaTime: number): void {
     // Cull particles based on performance
@@ -150,7 +177,7 @@ export class VisualEffects {
     
     for (let i = 0; i < particleCount; i++) {
       const angle = (i / particleCount) * Math.PI * 2;
-      const speed = 50 + Math.random() * 50;
+      const speed = 50 + this.random.next() * 50;
       
       const particle = this.particlePool.get();
       particle.x = x;
@@ -160,12 +187,69 @@ export class VisualEffects {
       particle.life = 1000;
       particle.maxLife = 1000;
       particle.color = color;
-      particle.size = 2 + Math.random() * 3;
+      particle.size = 2 + this.random.next() * 3;
       
       this.particles.push(particle);
     }
   }
 
+  // Create zombie death effect (dark blood burst with slower bone fragments)
+  createZombieDeathEffect(x: number, y: number): void {
+    this.createDeathEffect(x, y, '#4B0000');
+
+    // Skip the extra fragments when running in reduced quality
+    if (this.performanceMonitor.shouldUseReducedQuality()) {
+      return;
+    }
+
+    for (let i = 0; i < 4; i++) {
+      const angle = this.random.next() * Math.PI * 2;
+      const speed = 20 + this.random.next() * 30;
+
+      const particle = this.particlePool.get();
+      particle.x = x;
+      particle.y = y;
+      particle.vx = Math.cos(angle) * speed;
+      particle.vy = Math.sin(angle) * speed;
+      particle.life = 1500;
+      particle.maxLife = 1500;
+      particle.color = '#D8D0C0';
+      particle.size = 2 + this.random.next() * 2;
+
+      this.particles.push(particle);
+    }
+  }
+
+  // Create a ring of particles that expands out to the given radius
+  createShockwaveEffect(x: number, y: number, radius: number, color: string): void {
+    const particleCount = this.performanceMonitor.shouldUseReducedQuality() ? 8 : 16;
+    const duration = 400;
+
+    for (let i = 0; i < particleCount; i++) {
+      const angle = (i / particleCount) * Math.PI * 2;
+      const speed = radius / (duration / 1000);
+
+      const particle = this.particlePool.get();
+      particle.x = x;
+      particle.y = y;
+      particle.vx = Math.cos(angle) * speed;
+      particle.vy = Math.sin(angle) * speed;
+      particle.life = duration;
+      particle.maxLife = duration;
+      particle.color = color;
+      particle.size = 3;
+
+      this.particles.push(particle);
+    }
+  }
+
+  // Create boss death effect (golden bursts and a wide shockwave)
+  createBossDeathEffect(x: number, y: number): void {
+    this.createDeathEffect(x, y, '#F1C40F');
+    this.createDeathEffect(x, y, '#6C3483');
+    this.createShockwaveEffect(x, y, 120, '#F1C40F');
+  }
+
   // Create area transition effect
   createAreaTransitionEffect(area: AreaConfig): void {
     // Reduce particle count based on performance
@@ -178,14 +262,14 @@ export class VisualEffects {
     
     for (let i = 0; i < particleCount; i++) {
       const particle = this.particlePool.get();
-      particle.x = Math.random() * this.canvasWidth;
-      particle.y = Math.random() * this.canvasHeight;
-      particle.vx = (Math.random() - 0.5) * 100;
-      particle.vy = (Math.random() - 0.5) * 100;
+      particle.x = this.random.next() * this.canvasWidth;
+      particle.y = this.random.next() * this.canvasHeight;
+      particle.vx = (this.random.next() - 0.5) * 100;
+      particle.vy = (this.random.next() - 0.5) * 100;
       particle.life = 2000;
       particle.maxLife = 2000;
-      particle.color = area.walkerColors[Math.floor(Math.random() * area.walkerColors.length)];
-      particle.size = 3 + Math.random() * 5;
+      particle.color = area.walkerColors[this.random.int(area.walkerColors.length)];
+      particle.size = 3 + this.random.next() * 5;
       
       this.particles.push(particle);
     }
@@ -207,61 +291,61 @@ export class VisualEffects {
     }
     
     // Only create ambient particles occasionally
-    if (Math.random() > spawnChance) return;
+    if (this.random.next() > spawnChance) return;
     
-    const edgeSpawn = Math.random() < 0.5;
+    const edgeSpawn = this.random.next() < 0.5;
     let x, y, vx, vy;
     
     if (edgeSpawn) {
       // Spawn from edges
-      const edge = Math.floor(Math.random() * 4);
+      const edge = this.random.int(4);
       switch (edge) {
         case 0: // Top
-          x = Math.random() * this.canvasWidth;
+          x = this.random.next() * this.canvasWidth;
           y = -10;
-          vx = (Math.random() - 0.5) * 20;
-          vy = 10 + Math.random() * 20;
+          vx = (this.random.next() - 0.5) * 20;
+          vy = 10 + this.random.next() * 20;
           break;
         case 1: // Right
           x = this.canvasWidth + 10;
-          y = Math.random() * this.canvasHeight;
-          vx = -10 - Math.random() * 20;
-          vy = (Math.random() - 0.5) * 20;
+          y = this.random.next() * this.canvasHeight;
+          vx = -10 - this.random.next() * 20;
+          vy = (this.random.next() - 0.5) * 20;
           break;
         case 2: // Bottom
-          x = Math.random() * this.canvasWidth;
+          x = this.random.next() * this.canvasWidth;
           y = this.canvasHeight + 10;
-          vx = (Math.random() - 0.5) * 20;
-          vy = -10 - Math.random() * 20;
+          vx = (this.random.next() - 0.5) * 20;
+          vy = -10 - this.random.next() * 20;
           break;
         default: // Left
           x = -10;
-          y = Math.random() * this.canvasHeight;
-          vx = 10 + Math.random() * 20;
-          vy = (Math.random() - 0.5) * 20;
+          y = this.random.next() * this.canvasHeight;
+          vx = 10 + this.random.next() * 20;
+          vy = (this.random.next() - 0.5) * 20;
           break;
       }
     } else {
       // Spawn randomly in canvas
-      x = Math.random() * this.canvasWidth;
-      y = Math.random() * this.canvasHeight;
-      vx = (Math.random() - 0.5) * 30;
-      vy = (Math.random() - 0.5) * 30;
+      x = this.random.next() * this.canvasWidth;
+      y = this.random.next() * this.canvasHeight;
+      vx = (this.random.next() - 0.5) * 30;
+      vy = (this.random.next() - 0.5) * 30;
     }
 
     // Choose color based on area
     const colors = [...area.walkerColors, area.backgroundColor];
-    const color = colors[Math.floor(Math.random() * colors.length)];
+    const color = this.random.pick(colors);
 
     const particle = this.particlePool.get();
     particle.x = x;
     particle.y = y;
     particle.vx = vx;
     particle.vy = vy;
-    particle.life = 3000 + Math.random() * 2000;
+    particle.life = 3000 + this.random.next() * 2000;
     particle.maxLife = 5000;
     particle.color = color;
-    particle.size = 1 + Math.random() * 2;
+    particle.size = 1 + this.random.next() * 2;
     
     this.particles.push(particle);
   }
@@ -276,33 +360,9 @@ export class VisualEffects {
       this.canvasWidth / 2, this.canvasHeight / 2, Math.max(this.canvasWidth, this.canvasHeight) / 2
     );
     
-    // Area-specific gradient effects
-    switch (area.id) {
-      case 0: // Peaceful Village - soft blue
-        gradient.addColorStop(0, 'rgba(135, 206, 235, 0.1)');
-        gradient.addColorStop(1, 'rgba(135, 206, 235, 0.05)');
-        break;
-      case 1: // Busy Town - purple tint
-        gradient.addColorStop(0, 'rgba(221, 160, 221, 0.1)');
-        gradient.addColorStop(1, 'rgba(221, 160, 221, 0.05)');
-        break;
-      case 2: // Fortified City - golden tint
-        gradient.addColorStop(0, 'rgba(240, 230, 140, 0.1)');
-        gradient.addColorStop(1, 'rgba(240, 230, 140, 0.05)');
-        break;
-      case 3: // Military Base - brown/tan
-        gradient.addColorStop(0, 'rgba(205, 133, 63, 0.1)');
-        gradient.addColorStop(1, 'rgba(205, 133, 63, 0.05)');
-        break;
-      case 4: // Fortress Capital - dark brown
-        gradient.addColorStop(0, 'rgba(139, 69, 19, 0.15)');
-        gradient.addColorStop(1, 'rgba(139, 69, 19, 0.08)');
-        break;
-      default:
-        gradient.addColorStop(0, 'rgba(255, 255, 255, 0.05)');
-        gradient.addColorStop(1, 'rgba(255, 255, 255, 0.02)');
-        break;
-    }
+    // Colors come from the area's definition
+    gradient.addColorStop(0, area.gradient.inner);
+    gradient.addColorStop(1, area.gradient.outer);
     
     ctx.fillStyle = gradient;
     ctx.fillRect(0, 0, this.canvasWidth, this.canvasHeight);
@@ -1,11 +1,31 @@
-// Walker entity that moves randomly across the screen
+// Walker entity that moves across the screen according to its archetype
 import { Entity } from '../core/Entity.ts';
 import { Vector2 } from '../core/Vector2.ts';
-import { AreaConfig } from '../managers/AreaManager.ts';
+import { AreaBoss, AreaConfig, BossAttackPattern } from '../managers/AreaDefinitions.ts';
 import { Animation } from '../core/Animation.ts';
 import { CollisionEntity } from '../core/CollisionSystem.ts';
+import { AttackConfig, Attacker, AttackSystem } from '../core/AttackSystem.ts';
+import { SpatialGrid } from '../core/SpatialGrid.ts';
+import { Random, defaultRandom } from '../core/Random.ts';
+import { WalkerArchetype, WalkerModifiers, WALKER_ARCHETYPES } from './WalkerArchetypes.ts';
+import { Zombie } from './Zombie.ts';
+import { SafeZone, alignment, cohesion, findRefuge, flee, isInSafeZone, seek, separation } from './WalkerSteering.ts';
 
-export class Walker extends Entity implements CollisionEntity {
+// Everything a walker reacts to each step
+export interface WalkerSurroundings {
+  zombies: SpatialGrid<Zombie>;
+  walkers: SpatialGrid<Walker>;
+  safeZones: SafeZone[];
+}
+
+// A boss attack that went off this step
+export interface BossAttackResult {
+  pattern: BossAttackPattern;
+  radius: number; // Reach of the attack around the boss
+  zombiesHit: number;
+}
+
+export class Walker extends Entity implements CollisionEntity, Attacker {
   private speed: number;
   private baseSpeed: number;
   private targetPosition: Vector2;
@@ -14,27 +34,69 @@ export class Walker extends Entity implements CollisionEntity {
   private canvasHeight: number;
   private retargetTimer: number;
   private retargetInterval: number;
+  private random: Random;
   
   // Area-based properties
   private _health: number;
   private _maxHealth: number;
   private _soulValue: number;
   private areaLevel: number;
+  private areaSprite: string;
+  private _archetype: WalkerArchetype;
+  
+  // Combat properties (armed archetypes only)
+  public lastAttackTime?: number;
+  private attackSystem: AttackSystem;
+  private threat: Zombie | null = null;
+
+  // Steering state
+  private _panic: number = 0; // 0 (calm) to 1 (just saw a zombie)
+  private sheltered: boolean = false; // Inside a safe zone
+  private seekingExit: boolean = false; // Panicked and heading off the map
+  private fieldTime: number = 0; // ms since (re)spawning
+  private readonly NEIGHBOR_RADIUS = 60; // Walkers within this range flock together and pass on panic
+  private readonly SEPARATION_RADIUS = 20;
+  private readonly PANIC_THRESHOLD = 0.3; // Panic level at which a walker runs
+  private readonly PANIC_SPREAD = 0.7; // Fraction of a neighbor's panic passed on
+  private readonly PANIC_DECAY = 0.25; // Panic lost per second without a zombie in sight
+  private readonly SHELTER_CALM_MULTIPLIER = 4; // Panic fades faster inside a safe zone
+  private readonly SHELTER_DAMAGE_MULTIPLIER = 0.5; // Damage taken inside a safe zone
+  private readonly PANIC_SPEED_BOOST = 0.3; // Extra speed at full panic
+  private readonly TURN_RATE = 6; // How quickly velocity follows the steering direction (per second)
+  private readonly ESCAPE_GRACE = 2000; // ms on the field before a walker can escape (new arrivals start at the edge)
+  private readonly FLEE_WEIGHT = 1.5;
+  private readonly REFUGE_WEIGHT = 1;
+  private readonly SEPARATION_WEIGHT = 0.8;
+  private readonly COHESION_WEIGHT = 0.3;
+  private readonly ALIGNMENT_WEIGHT = 0.3;
+
+  // Boss properties (null for ordinary walkers)
+  private _boss: AreaBoss | null = null;
+  private chargeTimeLeft: number = 0;
+  private chargeDirection: Vector2 = new Vector2(1, 0);
+  private chargeHits: Set<Zombie> = new Set();
+  private readonly CHARGE_DURATION = 700; // ms a charge lasts
+  private readonly CHARGE_SPEED_MULTIPLIER = 5;
+  private readonly CHARGE_HIT_RANGE = 2; // Extra reach past touching while charging
   
   // Animation properties
   private walkAnimation: Animation;
   private isMoving: boolean = false;
 
-  constructor(x: number, y: number, canvasWidth: number, canvasHeight: number, areaConfig?: AreaConfig) {
-    super(x, y);
+  constructor(x: number, y: number, canvasWidth: number, canvasHeight: number, areaConfig?: AreaConfig, random: Random = defaultRandom, archetype: WalkerArchetype = WALKER_ARCHETYPES.civilian) {
+    super(x, y, random);
+    this.random = random;
+    this._archetype = archetype;
+    this.attackSystem = AttackSystem.getInstance();
     
-    // Set area-based properties
+    // Set area-based properties scaled by the archetype
     if (areaConfig) {
-      this.baseSpeed = areaConfig.walkerSpeed;
-      this._health = areaConfig.walkerHealth;
-      this._maxHealth = areaConfig.walkerHealth;
-      this._soulValue = areaConfig.soulMultiplier;
+      this.baseSpeed = areaConfig.walkerSpeed * archetype.speedMultiplier;
+      this._health = areaConfig.walkerHealth * archetype.healthMultiplier;
+      this._maxHealth = this._health;
+      this._soulValue = areaConfig.soulMultiplier * archetype.soulYield;
       this.areaLevel = areaConfig.id;
+      this.areaSprite = areaConfig.walkerSprite;
       
       // Area-specific colors are now handled by sprites
     } else {
@@ -44,26 +106,30 @@ export class Walker extends Entity implements CollisionEntity {
       this._maxHealth = 1;
       this._soulValue = 1;
       this.areaLevel = 0;
+      this.areaSprite = 'walker_area_1';
       
       // Default colors are now handled by sprites
     }
     
     // Add some random variation to speed (±20%)
-    this.speed = this.baseSpeed + (Math.random() - 0.5) * this.baseSpeed * 0.4;
+    this.speed = this.baseSpeed + (this.random.next() - 0.5) * this.baseSpeed * 0.4;
     
     this.targetPosition = new Vector2(x, y);
-    this.size = 8 + Math.random() * 8; // Random size between 8-16 pixels
+    this.size = this.random.range(archetype.minSize, archetype.maxSize);
     this.canvasWidth = canvasWidth;
     this.canvasHeight = canvasHeight;
     this.retargetTimer = 0;
-    this.retargetInterval = 2000 + Math.random() * 3000; // Retarget every 2-5 seconds
+    this.retargetInterval = this.random.range(2000, 5000); // Retarget every 2-5 seconds
     
     // Set initial random target
     this.setRandomTarget();
     
-    // Initialize animation based on area
-    const spriteName = `walker_area_${this.areaLevel + 1}`;
-    this.walkAnimation = Animation.createWalkAnimation(spriteName);
+    // Initialize animation based on archetype and area
+    this.walkAnimation = Animation.createWalkAnimation(this.getSpriteName());
+  }
+
+  private getSpriteName(): string {
+    return this._archetype.sprite ?? this.areaSprite;
   }
 
   private setRandomTarget(): void {
@@ -72,13 +138,68 @@ export class Walker extends Entity implements CollisionEntity {
       this.size, 
       this.canvasWidth - this.size,
       this.size, 
-      this.canvasHeight - this.size
+      this.canvasHeight - this.size,
+      this.random
     );
   }
 
-  update(deltaTime: number): void {
+  // Walker update driven by the steering layer: notice zombies, catch panic from neighbors, then flee, flock or fight
+  updateAI(deltaTime: number, surroundings: WalkerSurroundings): void {
     if (!this.active) return;
+    this.fieldTime += deltaTime;
+
+    // Look for nearby zombies if this archetype can see them
+    this.threat = this._archetype.perceptionRange > 0
+      ? surroundings.zombies.findNearest(this.position, this._archetype.perceptionRange)
+      : null;
+
+    const neighbors = surroundings.walkers.queryRadius(this.position, this.NEIGHBOR_RADIUS).filter(walker => walker !== this && walker.active);
+    this.sheltered = isInSafeZone(this.position, surroundings.safeZones);
+    if (this._archetype.behavior !== 'guard') {
+      this.updatePanic(deltaTime, neighbors);
+    }
+
+    this.seekingExit = false;
+    if (this.chargeTimeLeft > 0) {
+      this.charge(deltaTime);
+    } else if (this.threat && this._archetype.behavior === 'guard') {
+      this.engage(this.threat);
+    } else if (this.isPanicked) {
+      this.runForRefuge(deltaTime, neighbors, surroundings.safeZones);
+    } else {
+      this.wander(deltaTime, neighbors);
+    }
+
+    // Update position
+    super.update(deltaTime);
+
+    // Update animation
+    if (this.isMoving) {
+      this.walkAnimation.play();
+    } else {
+      this.walkAnimation.pause();
+    }
+    this.walkAnimation.update(deltaTime);
+  }
 
+  // Seeing a zombie causes full panic, which spreads (weakened) to nearby walkers and fades once out of sight
+  private updatePanic(deltaTime: number, neighbors: Walker[]): void {
+    if (this.threat) {
+      this._panic = 1;
+    } else {
+      const decay = this.PANIC_DECAY * (this.sheltered ? this.SHELTER_CALM_MULTIPLIER : 1);
+      this._panic = Math.max(0, this._panic - decay * deltaTime / 1000);
+    }
+
+    for (const neighbor of neighbors) {
+      if (neighbor.isPanicked) {
+        this._panic = Math.max(this._panic, neighbor.panic * this.PANIC_SPREAD);
+      }
+    }
+  }
+
+  // Wander towards a random target, flocking loosely with nearby walkers
+  private wander(deltaTime: number, neighbors: Walker[]): void {
     // Update retarget timer
     this.retargetTimer += deltaTime;
     
@@ -87,37 +208,136 @@ export class Walker extends Entity implements CollisionEntity {
         this.position.distanceTo(this.targetPosition) < 10) {
       this.setRandomTarget();
       this.retargetTimer = 0;
-      this.retargetInterval = 2000 + Math.random() * 3000; // New random interval
+      this.retargetInterval = this.random.range(2000, 5000); // New random interval
     }
 
-    // Calculate direction to target
-    const direction = Vector2.subtract(this.targetPosition, this.position);
-    const distance = direction.length();
-    
-    if (distance > 1) {
-      // Normalize direction and apply speed
-      direction.normalize().multiply(this.speed);
-      this.velocity = direction;
+    // Head for the target, stopping when very close to it
+    const direction = this.position.distanceTo(this.targetPosition) > 1 ? seek(this.position, this.targetPosition) : new Vector2();
+
+    // Guards and bosses keep to themselves
+    if (this._archetype.behavior !== 'guard' && neighbors.length > 0) {
+      direction.add(cohesion(this.position, neighbors).multiply(this.COHESION_WEIGHT));
+      direction.add(alignment(neighbors).multiply(this.ALIGNMENT_WEIGHT));
+      direction.add(separation(this.position, neighbors, this.SEPARATION_RADIUS).multiply(this.SEPARATION_WEIGHT));
+    }
+
+    this.steer(direction, this.speed, deltaTime);
+  }
+
+  // Run from the threat towards a safe zone or exit (runners always make for the edge)
+  private runForRefuge(deltaTime: number, neighbors: Walker[], safeZones: SafeZone[]): void {
+    const direction = new Vector2();
+    if (this.threat) {
+      direction.add(flee(this.position, this.threat.position).multiply(this.FLEE_WEIGHT));
+    }
+
+    const refuge = findRefuge(
+      this.position,
+      this.threat?.position ?? null,
+      safeZones,
+      this.canvasWidth,
+      this.canvasHeight,
+      this._archetype.behavior === 'flee'
+    );
+    this.seekingExit = refuge.exit;
+
+    // Walkers already sheltering stay in their safe zone
+    if (refuge.exit || !this.sheltered) {
+      direction.add(seek(this.position, refuge.target).multiply(this.REFUGE_WEIGHT));
+    }
+    direction.add(separation(this.position, neighbors, this.SEPARATION_RADIUS).multiply(this.SEPARATION_WEIGHT));
+
+    this.steer(direction, this.speed * (1 + this.PANIC_SPEED_BOOST * this._panic), deltaTime);
+  }
+
+  // Turn the velocity smoothly towards the steering direction (a zero direction slows the walker to a stop)
+  private steer(direction: Vector2, speed: number, deltaTime: number): void {
+    const desired = direction.length() > 0.001 ? direction.normalize().multiply(speed) : direction.set(0, 0);
+    const blend = Math.min(1, this.TURN_RATE * deltaTime / 1000);
+    this.velocity.add(desired.subtract(this.velocity).multiply(blend));
+    this.isMoving = this.velocity.length() > 1;
+  }
+
+  // A charging boss keeps running in a straight line until the charge ends
+  private charge(deltaTime: number): void {
+    this.chargeTimeLeft -= deltaTime;
+    const chargeSpeed = this.speed * this.CHARGE_SPEED_MULTIPLIER;
+    this.velocity.set(this.chargeDirection.x * chargeSpeed, this.chargeDirection.y * chargeSpeed);
+    this.isMoving = true;
+  }
+
+  // Close in on a zombie until within attack range
+  private engage(zombie: Zombie): void {
+    const attack = this.getAttack();
+    if (attack && this.attackSystem.isInRange(this, zombie, attack)) {
+      this.velocity.set(0, 0);
+      this.isMoving = false;
+      return;
+    }
+
+    const direction = Vector2.subtract(zombie.position, this.position);
+    if (direction.length() > 1) {
+      this.velocity = direction.normalize().multiply(this.speed);
       this.isMoving = true;
     } else {
-      // Stop if very close to target
       this.velocity.set(0, 0);
       this.isMoving = false;
     }
+  }
 
-    // Update position
-    super.update(deltaTime);
+  // Bosses use their area's attack instead of the archetype's
+  private getAttack(): AttackConfig | undefined {
+    return this._boss?.attack ?? this._archetype.attack;
+  }
 
-    // Update animation
-    if (this.isMoving) {
-      this.walkAnimation.play();
-    } else {
-      this.walkAnimation.pause();
-    }
-    this.walkAnimation.update(deltaTime);
+  // Attack the current threat if armed and off cooldown (returns true if attack landed)
+  performAttack(currentTime: number): boolean {
+    const attack = this._archetype.attack;
+    if (this._boss || !attack || !this.threat || !this.threat.active) return false;
+    return this.attackSystem.performAttack(this, this.threat, attack, currentTime);
   }
 
+  // Run the boss's attack pattern against nearby zombies (returns what it hit, or null if nothing went off)
+  performBossAttack(currentTime: number, zombieGrid: SpatialGrid<Zombie>): BossAttackResult | null {
+    const boss = this._boss;
+    if (!boss || !this.active) return null;
+    const attack = boss.attack;
+
+    // Trample every zombie the charge runs into, each once per charge
+    if (this.chargeTimeLeft > 0) {
+      const trampled = this.attackSystem
+        .getTargetsInRange(this, zombieGrid, { ...attack, range: this.CHARGE_HIT_RANGE })
+        .filter(zombie => !this.chargeHits.has(zombie));
+      for (const zombie of trampled) {
+        this.chargeHits.add(zombie);
+        zombie.takeDamage(attack.damage);
+      }
+      return trampled.length > 0 ? { pattern: 'charge', radius: this.size / 2, zombiesHit: trampled.length } : null;
+    }
+
+    if (!this.threat || !this.attackSystem.canAttack(this, this.threat, attack, currentTime)) return null;
+    this.lastAttackTime = currentTime;
+
+    if (attack.pattern === 'charge') {
+      // Lock onto the threat's current position and start the dash
+      const direction = Vector2.subtract(this.threat.position, this.position);
+      if (direction.length() < 0.001) {
+        direction.set(1, 0);
+      }
+      direction.normalize();
+      this.chargeDirection.set(direction.x, direction.y);
+      this.chargeTimeLeft = this.CHARGE_DURATION;
+      this.chargeHits.clear();
+      return null;
+    }
 
+    // Slam: damage everything in range at once
+    const targets = this.attackSystem.getTargetsInRange(this, zombieGrid, attack);
+    for (const zombie of targets) {
+      zombie.takeDamage(attack.damage);
+    }
+    return { pattern: 'slam', radius: attack.range + this.size / 2, zombiesHit: targets.length };
+  }
 
   render(ctx: CanvasRenderingContext2D): void {
     if (!this.active) return;
@@ -126,9 +346,26 @@ export class Walker extends Entity implements CollisionEntity {
     
     // Render animated sprite
     this.walkAnimation.render(ctx, this.position.x, this.position.y, this.size, this.size);
+
+    // Bosses get a ring instead of a health bar (the HUD shows theirs), orange while charging
+    if (this._boss) {
+      ctx.strokeStyle = this.chargeTimeLeft > 0 ? '#FF8C00' : '#F1C40F';
+      ctx.lineWidth = 2;
+      ctx.beginPath();
+      ctx.arc(this.position.x, this.position.y, this.size / 2 + 4, 0, Math.PI * 2);
+      ctx.stroke();
+    }
+
+    // Mark panicked walkers so the spread of panic is visible
+    if (this.isPanicked) {
+      ctx.fillStyle = '#E74C3C';
+      ctx.font = 'bold 10px Arial';
+      ctx.textAlign = 'center';
+      ctx.fillText('!', this.position.x, this.position.y - this.size / 2 - (this._maxHealth > 1 ? 9 : 3));
+    }
     
     // Draw health bar for walkers with more than 1 max health
-    if (this._maxHealth > 1) {
+    if (!this._boss && this._maxHealth > 1) {
       const healthBarWidth = this.size;
       const healthBarHeight = 3;
       const healthBarY = this.position.y - this.size / 2 - 6;
@@ -195,9 +432,39 @@ export class Walker extends Entity implements CollisionEntity {
     return this.areaLevel;
   }
 
-  // Take damage and return true if walker is defeated
+  get archetype(): WalkerArchetype {
+    return this._archetype;
+  }
+
+  get boss(): AreaBoss | null {
+    return this._boss;
+  }
+
+  get isBoss(): boolean {
+    return this._boss !== null;
+  }
+
+  get panic(): number {
+    return this._panic;
+  }
+
+  get isPanicked(): boolean {
+    return this._panic >= this.PANIC_THRESHOLD;
+  }
+
+  get isSheltered(): boolean {
+    return this.sheltered;
+  }
+
+  // Panicked walkers heading for an exit leave the map once they reach the edge
+  canEscape(): boolean {
+    return this.seekingExit && this.fieldTime >= this.ESCAPE_GRACE;
+  }
+
+  // Take damage (reduced by armor and shelter) and return true if walker is defeated
   takeDamage(damage: number = 1): boolean {
-    this._health -= damage;
+    const shelter = this.sheltered ? this.SHELTER_DAMAGE_MULTIPLIER : 1;
+    this._health -= damage * (1 - this._archetype.damageReduction) * shelter;
     if (this._health <= 0) {
       this.destroy();
       return true;
@@ -215,10 +482,49 @@ export class Walker extends Entity implements CollisionEntity {
     return this._health / this._maxHealth;
   }
 
+  // Reset walker for reuse from the object pool, re-rolling its random traits
+  respawn(x: number, y: number, areaConfig: AreaConfig, archetype: WalkerArchetype, modifiers: WalkerModifiers = { speedMultiplier: 1, healthMultiplier: 1 }): void {
+    this.active = true;
+    this.position.set(x, y);
+    this.velocity.set(0, 0);
+    this._archetype = archetype;
+    this.lastAttackTime = undefined;
+    this.threat = null;
+    this._boss = null;
+    this.chargeTimeLeft = 0;
+    this.chargeHits.clear();
+    this._panic = 0;
+    this.sheltered = false;
+    this.seekingExit = false;
+    this.fieldTime = 0;
+
+    this.baseSpeed = areaConfig.walkerSpeed * archetype.speedMultiplier * modifiers.speedMultiplier;
+    this._health = areaConfig.walkerHealth * archetype.healthMultiplier * modifiers.healthMultiplier;
+    this._maxHealth = this._health;
+    this._soulValue = areaConfig.soulMultiplier * archetype.soulYield;
+
+    this.speed = this.baseSpeed + (this.random.next() - 0.5) * this.baseSpeed * 0.4;
+    this.size = this.random.range(archetype.minSize, archetype.maxSize);
+    this.retargetTimer = 0;
+    this.retargetInterval = this.random.range(2000, 5000);
+    this.setRandomTarget();
+
+    this.updateAreaSprite(areaConfig);
+  }
+
+  // Reset walker from the pool as the area's boss (health and souls come from the boss definition)
+  respawnAsBoss(x: number, y: number, areaConfig: AreaConfig, modifiers: WalkerModifiers = { speedMultiplier: 1, healthMultiplier: 1 }): void {
+    this.respawn(x, y, areaConfig, WALKER_ARCHETYPES.boss, modifiers);
+    this._boss = areaConfig.boss;
+    this._health = areaConfig.walkerHealth * areaConfig.boss.healthMultiplier * modifiers.healthMultiplier;
+    this._maxHealth = this._health;
+    this._soulValue = areaConfig.soulMultiplier * areaConfig.boss.soulReward;
+  }
+
   // Update walker sprite when area changes
-  updateAreaSprite(areaId: number): void {
-    this.areaLevel = areaId;
-    const spriteName = `walker_area_${areaId + 1}`;
-    this.walkAnimation.setSprite(spriteName);
+  updateAreaSprite(areaConfig: AreaConfig): void {
+    this.areaLevel = areaConfig.id;
+    this.areaSprite = areaConfig.walkerSprite;
+    this.walkAnimation.setSprite(this.getSpriteName());
   }
 }
\ No newline at end of file
@@ -0,0 +1,151 @@
+// Walker archetype definitions and weighted spawn table selection
+import { AttackConfig } from '../core/AttackSystem.ts';
+import { Random } from '../core/Random.ts';
+import { CurrencyId } from '../managers/CurrencyDefinitions.ts';
+
+export type WalkerArchetypeId = 'civilian' | 'runner' | 'armored' | 'guard' | 'boss';
+
+// wander: roam between random targets with nearby walkers, panicking towards a safe zone or exit when a zombie is seen
+// flee: as wander, but panicked walkers always make for the nearest exit
+// guard: close in on zombies within perception range and attack them (never panics)
+export type WalkerBehavior = 'wander' | 'flee' | 'guard';
+
+// Secondary currency a walker may drop when defeated
+export interface CurrencyDrop {
+  currency: CurrencyId;
+  amount: number;
+  chance: number; // 0.0 to 1.0
+}
+
+export interface WalkerArchetype {
+  id: WalkerArchetypeId;
+  name: string;
+  sprite: string | null; // null uses the current area's walker sprite
+  behavior: WalkerBehavior;
+  healthMultiplier: number; // Applied to the area's walker health
+  speedMultiplier: number; // Applied to the area's walker speed
+  minSize: number;
+  maxSize: number;
+  soulYield: number; // Applied to the area's soul multiplier
+  damageReduction: number; // Fraction of incoming damage ignored (0.0 to 1.0)
+  perceptionRange: number; // Range to notice zombies (0 only panics when nearby walkers do)
+  attack?: AttackConfig; // Only armed archetypes fight back
+  drops?: CurrencyDrop[]; // Rolled on defeat (not scaled by soul gain)
+}
+
+// Upgrade-derived modifiers applied to every spawned walker
+export interface WalkerModifiers {
+  speedMultiplier: number;
+  healthMultiplier: number;
+}
+
+export interface SpawnTableEntry {
+  archetype: WalkerArchetypeId;
+  weight: number;
+}
+
+export const WALKER_ARCHETYPES: Record<WalkerArchetypeId, WalkerArchetype> = {
+  civilian: {
+    id: 'civilian',
+    name: 'Civilian',
+    sprite: null,
+    behavior: 'wander',
+    healthMultiplier: 1,
+    speedMultiplier: 1,
+    minSize: 8,
+    maxSize: 16,
+    soulYield: 1,
+    damageReduction: 0,
+    perceptionRange: 50
+  },
+  runner: {
+    id: 'runner',
+    name: 'Runner',
+    sprite: 'walker_runner',
+    behavior: 'flee',
+    healthMultiplier: 1,
+    speedMultiplier: 1.25, // Outpaces unupgraded zombies, so they must be cornered
+    minSize: 8,
+    maxSize: 11,
+    soulYield: 2,
+    damageReduction: 0,
+    perceptionRange: 70
+  },
+  armored: {
+    id: 'armored',
+    name: 'Armored',
+    sprite: 'walker_armored',
+    behavior: 'wander',
+    healthMultiplier: 2,
+    speedMultiplier: 0.7,
+    minSize: 13,
+    maxSize: 17,
+    soulYield: 2,
+    damageReduction: 0.5,
+    perceptionRange: 0,
+    drops: [{ currency: 'bones', amount: 1, chance: 0.5 }]
+  },
+  guard: {
+    id: 'guard',
+    name: 'Guard',
+    sprite: 'walker_guard',
+    behavior: 'guard',
+    healthMultiplier: 3,
+    speedMultiplier: 0.9,
+    minSize: 12,
+    maxSize: 15,
+    soulYield: 3,
+    damageReduction: 0.25,
+    perceptionRange: 80,
+    attack: {
+      damage: 1,
+      range: 6,
+      cooldown: 2000
+    },
+    drops: [
+      { currency: 'bones', amount: 1, chance: 0.25 },
+      { currency: 'brains', amount: 1, chance: 0.35 }
+    ]
+  },
+  // Never in spawn tables: each area summons its boss once enough walkers fall
+  boss: {
+    id: 'boss',
+    name: 'Boss',
+    sprite: 'walker_boss',
+    behavior: 'guard',
+    healthMultiplier: 1, // Health and souls come from the area's boss definition
+    speedMultiplier: 0.6,
+    minSize: 32,
+    maxSize: 36,
+    soulYield: 1,
+    damageReduction: 0.2,
+    perceptionRange: 250,
+    drops: [
+      { currency: 'bones', amount: 5, chance: 1 },
+      { currency: 'brains', amount: 3, chance: 1 }
+    ]
+  }
+};
+
+// Get archetype definition by ID (falls back to civilian)
+export function getWalkerArchetype(id: WalkerArchetypeId): WalkerArchetype {
+  return WALKER_ARCHETYPES[id] ?? WALKER_ARCHETYPES.civilian;
+}
+
+// Pick an archetype from a weighted spawn table
+export function pickWalkerArchetype(spawnTable: SpawnTableEntry[], random: Random): WalkerArchetype {
+  const totalWeight = spawnTable.reduce((sum, entry) => sum + Math.max(0, entry.weight), 0);
+  if (totalWeight <= 0) {
+    return WALKER_ARCHETYPES.civilian;
+  }
+
+  let roll = random.next() * totalWeight;
+  for (const entry of spawnTable) {
+    roll -= Math.max(0, entry.weight);
+    if (roll < 0) {
+      return getWalkerArchetype(entry.archetype);
+    }
+  }
+
+  return getWalkerArchetype(spawnTable[spawnTable.length - 1].archetype);
+}
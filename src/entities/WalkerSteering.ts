@@ -0,0 +1,119 @@
+// Steering behaviors for walkers: each returns a desired direction that the walker blends with the others by weight
+import { Vector2 } from '../core/Vector2.ts';
+
+// Circular shelter that panicked walkers run to
+export interface SafeZone {
+  x: number;
+  y: number;
+  radius: number;
+}
+
+// Where a panicked walker is heading
+export interface Refuge {
+  target: Vector2;
+  exit: boolean; // Leaving the map rather than sheltering in a safe zone
+}
+
+// Anything a walker flocks with
+export interface SteeringNeighbor {
+  position: Vector2;
+  velocity: Vector2;
+}
+
+const EXIT_OVERSHOOT = 30; // Exit targets sit past the edge so walkers keep pushing outward
+const TOWARD_THREAT_PENALTY = 300; // Extra distance counted for refuges that lie past the threat
+const EXIT_RELUCTANCE = 250; // Extra distance counted for exits by walkers that would rather shelter
+
+// Unit direction towards a target
+export function seek(position: Vector2, target: Vector2): Vector2 {
+  return Vector2.subtract(target, position).normalize();
+}
+
+// Unit direction away from a threat
+export function flee(position: Vector2, threat: Vector2): Vector2 {
+  const away = Vector2.subtract(position, threat);
+  if (away.length() < 0.001) {
+    away.set(1, 0);
+  }
+  return away.normalize();
+}
+
+// Push away from neighbors, harder the closer they are
+export function separation(position: Vector2, neighbors: SteeringNeighbor[], radius: number): Vector2 {
+  const push = new Vector2();
+  for (const neighbor of neighbors) {
+    const away = Vector2.subtract(position, neighbor.position);
+    const distance = away.length();
+    if (distance > 0.001 && distance < radius) {
+      push.add(away.multiply((radius - distance) / (radius * distance)));
+    }
+  }
+  return push;
+}
+
+// Match the average heading of neighbors
+export function alignment(neighbors: SteeringNeighbor[]): Vector2 {
+  const heading = new Vector2();
+  for (const neighbor of neighbors) {
+    heading.add(neighbor.velocity.clone().normalize());
+  }
+  return heading.normalize();
+}
+
+// Move towards the center of neighbors
+export function cohesion(position: Vector2, neighbors: SteeringNeighbor[]): Vector2 {
+  if (neighbors.length === 0) return new Vector2();
+
+  const center = new Vector2();
+  for (const neighbor of neighbors) {
+    center.add(neighbor.position);
+  }
+  return seek(position, center.multiply(1 / neighbors.length));
+}
+
+// Check if a point is inside any safe zone
+export function isInSafeZone(position: Vector2, safeZones: SafeZone[]): boolean {
+  return safeZones.some(zone => Math.hypot(position.x - zone.x, position.y - zone.y) <= zone.radius);
+}
+
+// Pick the closest refuge that doesn't mean running past the threat
+// (walkers that prefer exits ignore safe zones, the rest only leave when no safe zone is reasonably close)
+export function findRefuge(
+  position: Vector2,
+  threat: Vector2 | null,
+  safeZones: SafeZone[],
+  width: number,
+  height: number,
+  preferExit: boolean
+): Refuge {
+  const candidates: Refuge[] = [
+    { target: new Vector2(-EXIT_OVERSHOOT, position.y), exit: true },
+    { target: new Vector2(width + EXIT_OVERSHOOT, position.y), exit: true },
+    { target: new Vector2(position.x, -EXIT_OVERSHOOT), exit: true },
+    { target: new Vector2(position.x, height + EXIT_OVERSHOOT), exit: true }
+  ];
+  if (!preferExit) {
+    candidates.push(...safeZones.map(zone => ({ target: new Vector2(zone.x, zone.y), exit: false })));
+  }
+
+  const towardThreat = threat ? seek(position, threat) : null;
+  let best = candidates[0];
+  let bestScore = Infinity;
+  for (const candidate of candidates) {
+    let score = position.distanceTo(candidate.target);
+    if (candidate.exit && !preferExit) {
+      score += EXIT_RELUCTANCE;
+    }
+    if (towardThreat) {
+      const direction = seek(position, candidate.target);
+      if (direction.x * towardThreat.x + direction.y * towardThreat.y > 0.5) {
+        score += TOWARD_THREAT_PENALTY;
+      }
+    }
+    if (score < bestScore) {
+      best = candidate;
+      bestScore = score;
+    }
+  }
+  return best;
+}
@@ -4,9 +4,13 @@ import { Vector2 } from '../core/Vector2.ts';
 import { Walker } from './Walker.ts';
 import { Animation } from '../core/Animation.ts';
 import { CollisionEntity } from '../core/CollisionSystem.ts';
-import { Attacker, AttackConfig, AttackSystem } from '../core/AttackSystem.ts';
+import { Attacker, AttackConfig, AttackSystem, Target } from '../core/AttackSystem.ts';
+import { SpatialGrid } from '../core/SpatialGrid.ts';
+import { Random, defaultRandom } from '../core/Random.ts';
+import { ZombieTypeDefinition, ZombieModifiers, ZOMBIE_TYPES } from './ZombieTypes.ts';
 
-export class Zombie extends Entity implements CollisionEntity, Attacker {
+export class Zombie extends Entity implements CollisionEntity, Attacker, Target {
+  private _type: ZombieTypeDefinition;
   private baseSpeed: number;
   private speed: number;
   private target: Walker | null = null;
@@ -14,6 +18,11 @@ export class Zombie extends Entity implements CollisionEntity, Attacker {
 
   private seekRange: number;
   
+  // Health properties
+  private _health: number;
+  private _maxHealth: number;
+  private healthRegen: number = 0; // Health per second
+  
   // Attack properties
   public lastAttackTime?: number;
   private attackConfig: AttackConfig;
@@ -22,25 +31,48 @@ export class Zombie extends Entity implements CollisionEntity, Attacker {
   // Animation properties
   private walkAnimation: Animation;
   private isMoving: boolean = false;
+  
+  // Ranged attack visual (spit trail towards the last target hit)
+  private spitTarget: Vector2 | null = null;
+  private spitTimer: number = 0;
+  private static readonly SPIT_EFFECT_DURATION = 150; // ms
 
-  constructor(x: number, y: number, _canvasWidth: number, _canvasHeight: number, speedMultiplier: number = 1) {
-    super(x, y);
+  constructor(x: number, y: number, _canvasWidth: number, _canvasHeight: number, speedMultiplier: number = 1, random: Random = defaultRandom, type: ZombieTypeDefinition = ZOMBIE_TYPES.shambler) {
+    super(x, y, random);
     
-    this.baseSpeed = 60; // Base speed - slightly faster than walkers to catch them
+    this._type = type;
+    this.baseSpeed = type.baseSpeed;
     this.speed = this.baseSpeed * speedMultiplier;
-    this.size = 10; // Slightly larger than walkers
-    this.seekRange = 200; // Range to detect walkers
+    this.size = type.size;
+    this.seekRange = type.seekRange;
+    this._maxHealth = type.maxHealth;
+    this._health = type.maxHealth;
     
     // Initialize attack system and configuration
     this.attackSystem = AttackSystem.getInstance();
-    this.attackConfig = {
-      damage: 1,
-      range: 5, // 5px attack range beyond collision
-      cooldown: 500 // 500ms cooldown between attacks
-    };
+    this.attackConfig = { ...type.attack };
     
     // Initialize zombie animation
-    this.walkAnimation = Animation.createWalkAnimation('zombie');
+    this.walkAnimation = Animation.createWalkAnimation(type.sprite);
+  }
+
+  // Reconfigure a pooled zombie as the given type at full health with its upgrade modifiers applied
+  setType(type: ZombieTypeDefinition, modifiers: ZombieModifiers): void {
+    this._type = type;
+    this.baseSpeed = type.baseSpeed;
+    this.size = type.size;
+    this.seekRange = type.seekRange;
+    this.target = null;
+    this.lastAttackTime = undefined;
+    this.spitTarget = null;
+    this.spitTimer = 0;
+    this.applyUpgrades(modifiers);
+    this._health = this._maxHealth;
+    this.walkAnimation.setSprite(type.sprite);
+  }
+
+  get type(): ZombieTypeDefinition {
+    return this._type;
   }
 
   update(deltaTime: number): void {
@@ -49,11 +81,11 @@ export class Zombie extends Entity implements CollisionEntity, Attacker {
   }
 
   // Separate method for zombie-specific update with walker targeting
-  updateWithWalkers(deltaTime: number, walkers: Walker[]): void {
+  updateWithWalkers(deltaTime: number, walkerGrid: SpatialGrid<Walker>): void {
     if (!this.active) return;
 
     // Find the nearest walker to target
-    this.findNearestWalker(walkers);
+    this.findNearestWalker(walkerGrid);
 
     // Move towards target if we have one
     if (this.target && this.target.active) {
@@ -68,6 +100,16 @@ export class Zombie extends Entity implements CollisionEntity, Attacker {
     // Update position using parent method
     this.update(deltaTime);
 
+    // Regenerate health over time
+    if (this.healthRegen > 0 && this._health < this._maxHealth) {
+      this._health = Math.min(this._maxHealth, this._health + this.healthRegen * deltaTime / 1000);
+    }
+
+    // Fade out spit trail
+    if (this.spitTimer > 0) {
+      this.spitTimer -= deltaTime;
+    }
+
     // Update animation
     if (this.isMoving) {
       this.walkAnimation.play();
@@ -77,23 +119,9 @@ export class Zombie extends Entity implements CollisionEntity, Attacker {
     this.walkAnimation.update(deltaTime);
   }
 
-  private findNearestWalker(walkers: Walker[]): void {
-    let nearestWalker: Walker | null = null;
-    let nearestDistance = Infinity;
-
-    for (const walker of walkers) {
-      if (!walker.active) continue;
-
-      const distance = this.position.distanceTo(walker.position);
-      
-      // Only consider walkers within seek range
-      if (distance <= this.seekRange && distance < nearestDistance) {
-        nearestDistance = distance;
-        nearestWalker = walker;
-      }
-    }
-
-    this.target = nearestWalker;
+  private findNearestWalker(walkerGrid: SpatialGrid<Walker>): void {
+    // Only consider walkers within seek range
+    this.target = walkerGrid.findNearest(this.position, this.seekRange);
   }
 
   private seekTarget(): void {
@@ -103,7 +131,10 @@ export class Zombie extends Entity implements CollisionEntity, Attacker {
     const direction = Vector2.subtract(this.target.position, this.position);
     const distance = direction.length();
 
-    if (distance > 1) {
+    if (this._type.ranged && this.isInAttackRange(this.target)) {
+      // Ranged zombies hold position once the target is within reach
+      this.velocity.set(0, 0);
+    } else if (distance > 1) {
       // Normalize direction and apply speed
       direction.normalize().multiply(this.speed);
       this.velocity = direction;
@@ -120,9 +151,36 @@ export class Zombie extends Entity implements CollisionEntity, Attacker {
 
     ctx.save();
     
+    // Render spit trail for ranged attacks
+    if (this.spitTarget && this.spitTimer > 0) {
+      ctx.globalAlpha = this.spitTimer / Zombie.SPIT_EFFECT_DURATION;
+      ctx.strokeStyle = '#7CFC00';
+      ctx.lineWidth = 2;
+      ctx.beginPath();
+      ctx.moveTo(this.position.x, this.position.y);
+      ctx.lineTo(this.spitTarget.x, this.spitTarget.y);
+      ctx.stroke();
+      ctx.globalAlpha = 1;
+    }
+    
     // Render animated sprite
     this.walkAnimation.render(ctx, this.position.x, this.position.y, this.size, this.size);
     
+    // Draw health bar once damaged
+    if (this._health < this._maxHealth) {
+      const healthBarWidth = this.size;
+      const healthBarHeight = 3;
+      const healthBarY = this.position.y - this.size / 2 - 6;
+      
+      // Background
+      ctx.fillStyle = '#333';
+      ctx.fillRect(this.position.x - healthBarWidth / 2, healthBarY, healthBarWidth, healthBarHeight);
+      
+      // Health bar (purple to tell it apart from walker health)
+      ctx.fillStyle = '#9C27B0';
+      ctx.fillRect(this.position.x - healthBarWidth / 2, healthBarY, healthBarWidth * this.getHealthPercentage(), healthBarHeight);
+    }
+    
     ctx.restore();
   }
 
@@ -137,15 +195,23 @@ export class Zombie extends Entity implements CollisionEntity, Attacker {
   }
 
   // Check if zombie is close enough to attack a walker
-  canAttack(walker: Walker): boolean {
-    const currentTime = performance.now();
+  canAttack(walker: Walker, currentTime: number): boolean {
     return this.attackSystem.canAttack(this, walker, this.attackConfig, currentTime);
   }
 
   // Perform attack on walker if possible
-  performAttack(walker: Walker): boolean {
-    const currentTime = performance.now();
-    return this.attackSystem.performAttack(this, walker, this.attackConfig, currentTime);
+  performAttack(walker: Walker, currentTime: number): boolean {
+    const attacked = this.attackSystem.performAttack(this, walker, this.attackConfig, currentTime);
+    if (attacked && this._type.ranged) {
+      this.spitTarget = walker.position.clone();
+      this.spitTimer = Zombie.SPIT_EFFECT_DURATION;
+    }
+    return attacked;
+  }
+
+  // Get walkers within attack range (regardless of cooldown)
+  getWalkersInAttackRange(walkerGrid: SpatialGrid<Walker>): Walker[] {
+    return this.attackSystem.getTargetsInRange(this, walkerGrid, this.attackConfig);
   }
 
   // Check if zombie is within attack range (regardless of cooldown)
@@ -153,8 +219,43 @@ export class Zombie extends Entity implements CollisionEntity, Attacker {
     return this.attackSystem.isInRange(this, walker, this.attackConfig);
   }
 
-  // Update zombie speed based on upgrades
-  updateSpeed(speedMultiplier: number): void {
-    this.speed = this.baseSpeed * speedMultiplier;
+  // Health management
+  get health(): number {
+    return this._health;
+  }
+
+  get maxHealth(): number {
+    return this._maxHealth;
+  }
+
+  // Get health percentage for visual effects
+  getHealthPercentage(): number {
+    return this._health / this._maxHealth;
+  }
+
+  // Take damage from an armed walker and return true if the zombie is destroyed
+  takeDamage(damage: number = 1): boolean {
+    this._health -= damage;
+    if (this._health <= 0) {
+      this._health = 0;
+      this.destroy();
+      return true;
+    }
+    return false;
+  }
+
+  // Update zombie speed, damage and health based on upgrades
+  applyUpgrades(modifiers: ZombieModifiers): void {
+    this.speed = this.baseSpeed * modifiers.speedMultiplier;
+    this.attackConfig = {
+      ...this._type.attack,
+      damage: this._type.attack.damage * modifiers.damageMultiplier
+    };
+    this.healthRegen = modifiers.healthRegen;
+
+    // Scale current health with max health so upgrades don't heal or hurt
+    const healthPercentage = this._maxHealth > 0 ? this._health / this._maxHealth : 1;
+    this._maxHealth = this._type.maxHealth * modifiers.healthMultiplier;
+    this._health = this._maxHealth * healthPercentage;
   }
 }
\ No newline at end of file
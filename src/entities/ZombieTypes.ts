@@ -0,0 +1,108 @@
+// Zombie type definitions the player picks between when spawning
+import { AttackConfig } from '../core/AttackSystem.ts';
+
+export type ZombieTypeId = 'shambler' | 'runner' | 'brute' | 'spitter' | 'infector';
+
+export interface ZombieTypeDefinition {
+  id: ZombieTypeId;
+  name: string;
+  description: string;
+  sprite: string;
+  baseSpeed: number;
+  size: number;
+  seekRange: number; // Range to detect walkers
+  maxHealth: number;
+  attack: AttackConfig;
+  ranged: boolean; // Ranged types hold position once the target is in attack range
+  infectionChance: number; // Chance a walker killed by this type rises as a new zombie (0.0 to 1.0)
+  upgradeBaseCost: number; // Base cost of this type's speed and damage upgrade tracks
+}
+
+export const ZOMBIE_TYPES: Record<ZombieTypeId, ZombieTypeDefinition> = {
+  shambler: {
+    id: 'shambler',
+    name: 'Shambler',
+    description: 'Balanced all-rounder',
+    sprite: 'zombie',
+    baseSpeed: 60, // Slightly faster than walkers to catch them
+    size: 10,
+    seekRange: 200,
+    maxHealth: 3,
+    attack: { damage: 1, range: 5, cooldown: 500 },
+    ranged: false,
+    infectionChance: 0,
+    upgradeBaseCost: 15
+  },
+  runner: {
+    id: 'runner',
+    name: 'Runner',
+    description: 'Fast and far-sighted, but frail bites',
+    sprite: 'zombie_runner',
+    baseSpeed: 95,
+    size: 8,
+    seekRange: 260,
+    maxHealth: 2,
+    attack: { damage: 1, range: 4, cooldown: 650 },
+    ranged: false,
+    infectionChance: 0,
+    upgradeBaseCost: 20
+  },
+  brute: {
+    id: 'brute',
+    name: 'Brute',
+    description: 'Slow, heavy hitter for armored walkers',
+    sprite: 'zombie_brute',
+    baseSpeed: 40,
+    size: 16,
+    seekRange: 160,
+    maxHealth: 8,
+    attack: { damage: 3, range: 6, cooldown: 1000 },
+    ranged: false,
+    infectionChance: 0,
+    upgradeBaseCost: 30
+  },
+  spitter: {
+    id: 'spitter',
+    name: 'Spitter',
+    description: 'Spits at walkers from a distance',
+    sprite: 'zombie_spitter',
+    baseSpeed: 50,
+    size: 10,
+    seekRange: 240,
+    maxHealth: 2,
+    attack: { damage: 1, range: 70, cooldown: 900 },
+    ranged: true,
+    infectionChance: 0,
+    upgradeBaseCost: 30
+  },
+  infector: {
+    id: 'infector',
+    name: 'Infector',
+    description: 'Walkers it kills may rise as zombies',
+    sprite: 'zombie_infector',
+    baseSpeed: 55,
+    size: 11,
+    seekRange: 200,
+    maxHealth: 3,
+    attack: { damage: 1, range: 5, cooldown: 700 },
+    ranged: false,
+    infectionChance: 0.35,
+    upgradeBaseCost: 40
+  }
+};
+
+// Upgrade-derived modifiers applied to a zombie of a given type
+export interface ZombieModifiers {
+  speedMultiplier: number;
+  damageMultiplier: number;
+  healthMultiplier: number;
+  healthRegen: number; // Health regenerated per second
+}
+
+// Zombie types in selection order (number keys 1-5)
+export const ZOMBIE_TYPE_ORDER: ZombieTypeId[] = ['shambler', 'runner', 'brute', 'spitter', 'infector'];
+
+// Get zombie type definition by ID (falls back to shambler)
+export function getZombieType(id: ZombieTypeId): ZombieTypeDefinition {
+  return ZOMBIE_TYPES[id] ?? ZOMBIE_TYPES.shambler;
+}
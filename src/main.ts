@@ -11,9 +11,22 @@ import { AssetManager } from './core/AssetManager.ts';
 import { Animation } from './core/Animation.ts';
 import { VisualEffects } from './core/VisualEffects.ts';
 import { HUD } from './ui/HUD.ts';
+import { PrestigePanel } from './ui/PrestigePanel.ts';
+import { StatsPanel } from './ui/StatsPanel.ts';
+import { AutomationPanel } from './ui/AutomationPanel.ts';
+import { AreaMapPanel } from './ui/AreaMapPanel.ts';
 import { MobileUI } from './ui/MobileUI.ts';
+import { formatNumber } from './ui/NumberFormat.ts';
 import { AccessibilityManager } from './managers/AccessibilityManager.ts';
 import { PerformanceMonitor, PerformanceLevel } from './core/PerformanceMonitor.ts';
+import { EntityCuller } from './core/EntityCuller.ts';
+import { Simulation } from './core/Simulation.ts';
+import { Unsubscribe } from './core/EventBus.ts';
+import { MIN_OFFLINE_MS } from './core/OfflineProgress.ts';
+import { ReplayRecorder, ReplayPlayer, ReplayCommandInput, ReplayData } from './systems/ReplaySystem.ts';
+import { GameMode } from './systems/WaveSystem.ts';
+import { ZombieTypeId, ZOMBIE_TYPE_ORDER, getZombieType } from './entities/ZombieTypes.ts';
+import { GameSaveData } from './managers/SaveManager.ts';
 
 class Game {
   private canvas: HTMLCanvasElement;
@@ -23,21 +36,32 @@ class Game {
   // Game loop properties
   private lastTime: number = 0;
   private accumulator: number = 0;
-  private readonly fixedTimeStep: number = 1000 / 60; // 60 FPS fixed timestep
+  private readonly fixedTimeStep: number = Simulation.FIXED_TIME_STEP; // 60 FPS fixed timestep
   private animationId: number = 0;
   
   // Game state
   private isPaused: boolean = false;
   private lastPauseKeyState: boolean = false;
   private lastUpgradeKeyState: boolean = false;
+  private lastPrestigeKeyState: boolean = false;
+  private lastStatsKeyState: boolean = false;
+  private lastAutomationKeyState: boolean = false;
+  private lastMapKeyState: boolean = false;
+  private lastGameModeKeyState: boolean = false;
+  private lastBuyModeKeyState: boolean = false;
+  private lastNotationKeyState: boolean = false;
   private lastMotionKeyState: boolean = false;
+  private lastExportKeyState: boolean = false;
+  private lastLoadKeyState: boolean = false;
+  private selectedZombieType: ZombieTypeId = 'shambler';
   
   // FPS tracking
   private fps: number = 0;
   private frameCount: number = 0;
   private fpsLastTime: number = 0;
   
-  // Game systems
+  // Game systems (gameplay systems and managers are owned by the simulation)
+  private simulation!: Simulation;
   private walkerSystem!: WalkerSystem;
   private zombieSystem!: ZombieSystem;
   private inputManager!: InputManager;
@@ -49,9 +73,22 @@ class Game {
   private assetManager!: AssetManager;
   private visualEffects!: VisualEffects;
   private hud!: HUD;
+  private prestigePanel!: PrestigePanel;
+  private statsPanel!: StatsPanel;
+  private automationPanel!: AutomationPanel;
+  private areaMapPanel!: AreaMapPanel;
   private mobileUI!: MobileUI;
   private accessibilityManager!: AccessibilityManager;
   private performanceMonitor!: PerformanceMonitor;
+  private entityCuller!: EntityCuller;
+  
+  // Replay recording and playback
+  private liveSimulation!: Simulation;
+  private replayRecorder!: ReplayRecorder;
+  private replayPlayer: ReplayPlayer | null = null;
+  
+  // Listeners attached to the bound simulation's event bus
+  private eventSubscriptions: Unsubscribe[] = [];
 
   constructor() {
     this.canvas = document.getElementById('gameCanvas') as HTMLCanvasElement;
@@ -192,8 +229,19 @@ class Game {
           this.togglePause();
           console.log('Auto-paused due to app backgrounding');
         }
+        
+        // Persist RNG state and horde size in case the page is discarded while hidden
+        this.liveSimulation?.saveSessionState();
+      } else {
+        // Reward the time spent in the background
+        this.resumeOfflineProgress();
       }
     });
+
+    // Persist RNG state and horde size so a reload continues where it left off
+    window.addEventListener('pagehide', () => {
+      this.liveSimulation?.saveSessionState();
+    });
   }
 
   private handleResize(): void {
@@ -215,11 +263,17 @@ class Game {
       console.log(`Canvas dimensions changed: ${prevWidth}x${prevHeight} -> ${newWidth}x${newHeight}`);
       
       // Update all systems with new canvas dimensions
-      if (this.walkerSystem && this.zombieSystem && this.visualEffects && this.hud && this.mobileUI) {
-        this.walkerSystem.updateCanvasDimensions(newWidth, newHeight);
-        this.zombieSystem.updateCanvasDimensions(newWidth, newHeight);
+      if (this.simulation && this.visualEffects && this.hud && this.mobileUI) {
+        // Replays carry their own recorded resizes
+        if (!this.replayPlayer) {
+          this.executeCommand({ tick: 0, type: 'resize', width: newWidth, height: newHeight });
+        }
         this.visualEffects.updateCanvasDimensions(newWidth, newHeight);
         this.hud.updateCanvasDimensions(newWidth, newHeight);
+        this.prestigePanel.updateCanvasDimensions(newWidth, newHeight);
+        this.statsPanel.updateCanvasDimensions(newWidth, newHeight);
+        this.automationPanel.updateCanvasDimensions(newWidth, newHeight);
+        this.areaMapPanel.updateCanvasDimensions(newWidth, newHeight);
         this.mobileUI.updateCanvasDimensions(newWidth, newHeight);
         
         // Optimize mobile UI for new dimensions
@@ -257,37 +311,24 @@ class Game {
     
     // Initialize performance monitor and accessibility manager first
     this.performanceMonitor = PerformanceMonitor.getInstance();
+    this.entityCuller = EntityCuller.getInstance();
     this.accessibilityManager = AccessibilityManager.getInstance();
     
-    // Set up performance level change callback
-    this.performanceMonitor.onPerformanceLevelChange((level: PerformanceLevel) => {
-      console.log(`Performance level changed to: ${level}`);
-      this.handlePerformanceLevelChange(level);
-    });
-    
-    // Initialize managers first
+    // Initialize the gameplay simulation backed by browser storage
+    // (the previous save is read first, before managers re-save and refresh lastSaved)
     this.saveManager = new SaveManager();
-    this.resourceManager = new ResourceManager(this.saveManager);
-    this.upgradeManager = new UpgradeManager(this.saveManager);
-    this.areaManager = new AreaManager();
+    const previousSave = this.saveManager.loadGameState();
+    this.liveSimulation = new Simulation({
+      width: canvasWidth,
+      height: canvasHeight,
+      saveManager: this.saveManager
+    });
     
-    // Initialize game systems
-    this.walkerSystem = new WalkerSystem(canvasWidth, canvasHeight, this.areaManager);
-    this.zombieSystem = new ZombieSystem(canvasWidth, canvasHeight, this.resourceManager, this.upgradeManager, this.areaManager);
+    // Initialize presentation systems
     this.inputManager = new InputManager(this.canvas);
-    this.visualEffects = new VisualEffects(canvasWidth, canvasHeight);
-    this.hud = new HUD(this.resourceManager, this.upgradeManager, this.areaManager, canvasWidth, canvasHeight);
+    this.visualEffects = new VisualEffects(canvasWidth, canvasHeight, this.liveSimulation.getContext().random.get('visuals'));
     this.mobileUI = new MobileUI(this.canvas, canvasWidth, canvasHeight);
-    
-    // Set up upgrade callback
-    this.hud.setOnUpgradePurchased((upgradeId: string) => {
-      this.handleUpgradePurchased(upgradeId);
-    });
-
-    // Set up visual effects callback for walker defeats
-    this.zombieSystem.setOnWalkerDefeated((x: number, y: number, color: string) => {
-      this.visualEffects.createDeathEffect(x, y, color);
-    });
+    this.bindSimulation(this.liveSimulation);
 
     // Initialize mobile-specific optimizations
     this.initializeMobileOptimizations();
@@ -295,18 +336,129 @@ class Game {
     // Load game state and sync managers
     this.loadGameState();
     
+    // Reward time since the last session (before recording, so replays start after it)
+    if (previousSave) {
+      this.applyOfflineProgress(Date.now() - previousSave.lastSaved, previousSave.zombieCount ?? 0, previousSave.killsPerMinute ?? null, false);
+    }
+    
+    // Start recording player input from the loaded state
+    this.replayRecorder = new ReplayRecorder(this.liveSimulation, canvasWidth, canvasHeight);
+    
+    // Apply the saved auto-advance and game mode preferences (recorded so replays follow them too)
+    this.executeCommand({ tick: 0, type: 'set-auto-advance', enabled: this.settingsManager.isAutoAdvanceEnabled() });
+    this.executeCommand({ tick: 0, type: 'set-game-mode', mode: this.settingsManager.getGameMode() });
+    
     // Announce game instructions for accessibility
     setTimeout(() => {
       this.accessibilityManager.announceGameInstructions();
     }, 2000);
   }
 
+  // Point game systems, HUD and callbacks at a simulation (live game or replay)
+  private bindSimulation(simulation: Simulation): void {
+    const canvasWidth = this.canvas.width / this.devicePixelRatio;
+    const canvasHeight = this.canvas.height / this.devicePixelRatio;
+    
+    this.simulation = simulation;
+    this.resourceManager = simulation.resourceManager;
+    this.upgradeManager = simulation.upgradeManager;
+    this.areaManager = simulation.areaManager;
+    this.walkerSystem = simulation.walkerSystem;
+    this.zombieSystem = simulation.zombieSystem;
+    
+    this.hud = new HUD(this.resourceManager, this.upgradeManager, this.areaManager, simulation.incomeTracker, simulation.walkerSystem, simulation.waveSystem, canvasWidth, canvasHeight);
+    this.hud.setSelectedZombieType(this.selectedZombieType);
+    
+    // Route upgrade purchases through the command path so they are recorded
+    this.hud.setUpgradePurchaseHandler((upgradeId: string, count: number) => {
+      if (this.replayPlayer) return false; // Replays only apply recorded purchases
+      return this.executeCommand({ tick: 0, type: 'purchase-upgrade', upgradeId, count });
+    });
+
+    // Prestige panel routes rebirths and essence purchases through the command path too
+    this.prestigePanel = new PrestigePanel(this.resourceManager, simulation.prestigeManager, canvasWidth, canvasHeight);
+    this.prestigePanel.setPrestigeHandler(() => {
+      if (this.replayPlayer) return false;
+      return this.executeCommand({ tick: 0, type: 'prestige' });
+    });
+    this.prestigePanel.setUpgradePurchaseHandler((upgradeId: string) => {
+      if (this.replayPlayer) return false;
+      return this.executeCommand({ tick: 0, type: 'purchase-prestige-upgrade', upgradeId });
+    });
+
+    this.statsPanel = new StatsPanel(simulation.statisticsManager, canvasWidth, canvasHeight);
+    this.statsPanel.setExportHandler(() => this.exportStatistics());
+
+    // Auto-buy settings are commands too, so replays make the same automatic purchases
+    this.automationPanel = new AutomationPanel(simulation.automationManager, this.upgradeManager, canvasWidth, canvasHeight);
+    this.automationPanel.setConfigureHandler((upgradeId, setting) => {
+      if (this.replayPlayer) return false;
+      return this.executeCommand({ tick: 0, type: 'configure-auto-buy', upgradeId, enabled: setting.enabled, rule: setting.rule });
+    });
+    this.automationPanel.setPriorityHandler((upgradeIds: string[]) => {
+      if (this.replayPlayer) return false;
+      return this.executeCommand({ tick: 0, type: 'set-auto-buy-priority', upgradeIds });
+    });
+
+    // Travel is a command; auto-advance is a saved preference that is also applied as a command
+    this.areaMapPanel = new AreaMapPanel(this.areaManager, this.resourceManager, canvasWidth, canvasHeight);
+    this.areaMapPanel.setTravelHandler((areaId: number) => {
+      if (this.replayPlayer) return false;
+      return this.executeCommand({ tick: 0, type: 'travel-to-area', areaId });
+    });
+    this.areaMapPanel.setAutoAdvanceHandler((enabled: boolean) => {
+      if (this.replayPlayer) return false;
+      this.settingsManager.setAutoAdvance(enabled);
+      return this.executeCommand({ tick: 0, type: 'set-auto-advance', enabled });
+    });
+    this.areaMapPanel.setGameModeHandler((mode: GameMode) => this.setGameMode(mode));
+
+    this.subscribeToEvents(simulation);
+  }
+
+  // Move effects, announcements and other listeners over to the bound simulation's events
+  private subscribeToEvents(simulation: Simulation): void {
+    this.eventSubscriptions.forEach(unsubscribe => unsubscribe());
+    
+    const events = simulation.events;
+    this.performanceMonitor.setEventBus(events);
+    this.assetManager.createAreaSprite(simulation.areaManager.getCurrentArea());
+    this.eventSubscriptions = [
+      this.visualEffects.subscribeTo(events),
+      this.accessibilityManager.subscribeTo(events),
+      this.hud.subscribeTo(events),
+      // Generated areas get their walker sprite when first reached
+      events.on('area-changed', event => this.assetManager.createAreaSprite(event.area)),
+      events.on('performance-level-changed', event => this.handlePerformanceLevelChange(event.level)),
+      // Close the prestige panel once a rebirth goes through
+      events.on('prestige', () => {
+        if (this.prestigePanel.isOpen()) this.prestigePanel.toggle();
+      })
+    ];
+  }
+
+  // Record a player command and apply it to the simulation (tick is filled in by the recorder)
+  private executeCommand(command: ReplayCommandInput): boolean {
+    if (!this.replayPlayer) {
+      this.replayRecorder?.record(command);
+    }
+    
+    if (command.type === 'toggle-pause') {
+      return true;
+    }
+    return this.simulation.applyInput(command);
+  }
+
   private togglePause(): void {
     this.isPaused = !this.isPaused;
     console.log(this.isPaused ? 'Game Paused' : 'Game Resumed');
     
-    // Announce state change for accessibility
-    this.accessibilityManager.announceGameState(this.isPaused ? 'paused' : 'resumed');
+    // Record pause toggles for replays (viewer pauses during playback are not recorded)
+    if (!this.replayPlayer) {
+      this.executeCommand({ tick: 0, type: 'toggle-pause', paused: this.isPaused });
+    }
+    
+    this.simulation.events.emit('game-paused', { paused: this.isPaused });
   }
 
   private toggleReducedMotion(): void {
@@ -319,6 +471,24 @@ class Game {
     console.log(`Reduced motion ${newSetting ? 'enabled' : 'disabled'}`);
   }
 
+  // Save the game mode preference and switch the simulation to it
+  private setGameMode(mode: GameMode): boolean {
+    if (this.replayPlayer) return false;
+    this.settingsManager.setGameMode(mode);
+    return this.executeCommand({ tick: 0, type: 'set-game-mode', mode });
+  }
+
+  private toggleGameMode(): void {
+    this.setGameMode(this.simulation.getGameMode() === 'sandbox' ? 'waves' : 'sandbox');
+  }
+
+  private toggleNumberNotation(): void {
+    const notation = this.settingsManager.getNumberNotation() === 'suffix' ? 'scientific' : 'suffix';
+    this.settingsManager.setNumberNotation(notation);
+    this.accessibilityManager.announce(`Number notation: ${notation}`, 'polite');
+    console.log(`Number notation set to ${notation}`);
+  }
+
   private handleMobileButtonPress(buttonId: string): void {
     this.accessibilityManager.announceMobileAction('touch-button-pressed');
     
@@ -332,22 +502,240 @@ class Game {
           this.hud.isUpgradeMenuOpen() ? 'upgrade-menu-opened' : 'upgrade-menu-closed'
         );
         break;
+      case 'prestige':
+        this.togglePrestigePanel();
+        break;
+      case 'stats':
+        this.toggleStatsPanel();
+        break;
+      case 'automation':
+        this.toggleAutomationPanel();
+        break;
+      case 'map':
+        this.toggleAreaMapPanel();
+        break;
       case 'settings':
         this.toggleReducedMotion();
         break;
+      case 'zombie-type': {
+        // Cycle to the next zombie type
+        const index = ZOMBIE_TYPE_ORDER.indexOf(this.selectedZombieType);
+        this.selectZombieType(ZOMBIE_TYPE_ORDER[(index + 1) % ZOMBIE_TYPE_ORDER.length]);
+        break;
+      }
       default:
         console.log(`Unknown mobile button pressed: ${buttonId}`);
     }
   }
 
-  private handleUpgradePurchased(upgradeId: string): void {
-    console.log(`Applying upgrade: ${upgradeId}`);
+  // Close the upgrade menu and every panel except the given one so only one overlay shows
+  private closeOtherOverlays(keep: PrestigePanel | StatsPanel | AutomationPanel | AreaMapPanel): void {
+    if (this.hud.isUpgradeMenuOpen()) {
+      this.hud.toggleUpgradeMenu();
+    }
+    for (const panel of [this.prestigePanel, this.statsPanel, this.automationPanel, this.areaMapPanel]) {
+      if (panel !== keep && panel.isOpen()) {
+        panel.toggle();
+      }
+    }
+  }
+
+  // Open or close the prestige panel
+  private togglePrestigePanel(): void {
+    this.closeOtherOverlays(this.prestigePanel);
+    this.prestigePanel.toggle();
+    this.accessibilityManager.announce(
+      this.prestigePanel.isOpen() ? 'Prestige panel opened' : 'Prestige panel closed',
+      'polite'
+    );
+  }
+
+  // Open or close the statistics screen
+  private toggleStatsPanel(): void {
+    this.closeOtherOverlays(this.statsPanel);
+    this.statsPanel.toggle();
+    this.accessibilityManager.announce(
+      this.statsPanel.isOpen() ? 'Statistics opened' : 'Statistics closed',
+      'polite'
+    );
+  }
+
+  // Open or close the auto-buyer settings
+  private toggleAutomationPanel(): void {
+    this.closeOtherOverlays(this.automationPanel);
+    this.automationPanel.toggle();
+    this.accessibilityManager.announce(
+      this.automationPanel.isOpen() ? 'Automation opened' : 'Automation closed',
+      'polite'
+    );
+  }
+
+  // Open or close the area map
+  private toggleAreaMapPanel(): void {
+    this.closeOtherOverlays(this.areaMapPanel);
+    this.areaMapPanel.toggle();
+    this.accessibilityManager.announce(
+      this.areaMapPanel.isOpen() ? 'Area map opened' : 'Area map closed',
+      'polite'
+    );
+  }
+
+  // Choose which zombie type clicks will spawn
+  private selectZombieType(typeId: ZombieTypeId): void {
+    if (this.selectedZombieType === typeId) return;
+    
+    this.selectedZombieType = typeId;
+    this.hud.setSelectedZombieType(typeId);
+    
+    const zombieType = getZombieType(typeId);
+    console.log(`Selected zombie type: ${zombieType.name}`);
+    this.accessibilityManager.announce(`${zombieType.name} selected. ${zombieType.description}`, 'polite');
+  }
+
+  // Download the current recording as a JSON replay file
+  private exportReplay(): void {
+    if (this.replayPlayer) return;
+    
+    try {
+      const blob = new Blob([this.replayRecorder.export()], { type: 'application/json' });
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `endless-horde-replay-${Date.now()}.json`;
+      link.click();
+      URL.revokeObjectURL(url);
+      
+      console.log(`Exported replay with ${this.replayRecorder.getCommandCount()} commands`);
+      this.accessibilityManager.announce('Replay exported', 'polite');
+    } catch (error) {
+      console.warn('Failed to export replay:', error);
+    }
+  }
+
+  // Download run and lifetime statistics as a CSV file
+  private exportStatistics(): void {
+    try {
+      const blob = new Blob([this.simulation.statisticsManager.exportCSV()], { type: 'text/csv' });
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `endless-horde-stats-${Date.now()}.csv`;
+      link.click();
+      URL.revokeObjectURL(url);
+      
+      console.log('Exported statistics');
+      this.accessibilityManager.announce('Statistics exported', 'polite');
+    } catch (error) {
+      console.warn('Failed to export statistics:', error);
+    }
+  }
+
+  // Ask the player for a replay file and start playing it back
+  private promptLoadReplay(): void {
+    const fileInput = document.createElement('input');
+    fileInput.type = 'file';
+    fileInput.accept = 'application/json,.json';
+    fileInput.addEventListener('change', async () => {
+      const file = fileInput.files?.[0];
+      if (!file) return;
+      
+      const data = ReplayPlayer.parse(await file.text());
+      if (data) {
+        this.startReplay(data);
+      } else {
+        this.accessibilityManager.announce('Replay file could not be loaded', 'assertive');
+      }
+    });
+    fileInput.click();
+  }
+
+  // Swap in a fresh simulation rebuilt from the replay and play its commands back
+  private startReplay(data: ReplayData): void {
+    this.replayPlayer = new ReplayPlayer(data);
+    this.bindSimulation(ReplayPlayer.createSimulation(data));
+    this.visualEffects.clear();
+    this.accumulator = 0;
+    this.isPaused = false;
+    
+    console.log(`Playing replay with ${data.commands.length} commands over ${data.durationTicks} ticks`);
+    this.accessibilityManager.announce('Replay started', 'polite');
+  }
+
+  // Return to the live game
+  private stopReplay(message: string): void {
+    this.replayPlayer = null;
+    this.bindSimulation(this.liveSimulation);
+    this.visualEffects.clear();
+    this.accumulator = 0;
+    
+    console.log(message);
+    this.accessibilityManager.announce(message, 'polite');
+  }
+
+  // Apply recorded commands due this tick (returns false if playback paused)
+  private applyReplayCommands(): boolean {
+    if (!this.replayPlayer) return true;
     
-    // Apply upgrade effects immediately
-    if (upgradeId === 'zombie-speed') {
-      this.zombieSystem.applySpeedUpgrades();
+    const tick = this.simulation.getTick();
+    let command = this.replayPlayer.takeNextCommand(tick);
+    while (command) {
+      if (command.type === 'toggle-pause') {
+        // Recorded pauses hold the replay; the viewer resumes with P
+        if (command.paused) {
+          this.isPaused = true;
+          this.simulation.events.emit('game-paused', { paused: true });
+          return false;
+        }
+      } else {
+        this.simulation.applyInput(command);
+      }
+      command = this.replayPlayer.takeNextCommand(tick);
     }
-    // max-zombies upgrade is automatically handled by the upgrade manager
+    
+    return true;
+  }
+
+  // Reward the time since the last save when returning to a backgrounded tab
+  private resumeOfflineProgress(): void {
+    if (this.replayPlayer || !this.liveSimulation) return;
+    
+    const saveData: GameSaveData | null = this.saveManager.loadGameState();
+    if (saveData) {
+      this.applyOfflineProgress(
+        Date.now() - saveData.lastSaved,
+        this.zombieSystem.getZombieCount(),
+        this.liveSimulation.incomeTracker.getOfflineKillsPerMinute(),
+        true
+      );
+    }
+  }
+
+  // Estimate offline progress and show the "While you were away" summary
+  private applyOfflineProgress(elapsedMs: number, zombieCount: number, killsPerMinute: number | null, record: boolean): void {
+    if (elapsedMs < MIN_OFFLINE_MS) return;
+    
+    const input = {
+      tick: 0,
+      type: 'offline-progress' as const,
+      elapsedMs,
+      zombieCount,
+      killsPerMinute,
+      maxOfflineHours: this.settingsManager.getMaxOfflineHours()
+    };
+    if (record) {
+      this.executeCommand(input);
+    } else {
+      this.liveSimulation.applyInput(input);
+    }
+    
+    const summary = this.liveSimulation.getLastOfflineProgress();
+    if (!summary || summary.walkersDefeated <= 0) return;
+    
+    this.hud.showOfflineSummary(summary);
+    this.accessibilityManager.announce(
+      `While you were away, your horde defeated ${formatNumber(summary.walkersDefeated)} walkers and earned ${formatNumber(summary.souls)} souls`,
+      'polite'
+    );
   }
 
   private startGameLoop(): void {
@@ -375,7 +763,7 @@ class Game {
       // Fixed timestep update loop
       this.accumulator += deltaTime;
       
-      while (this.accumulator >= this.fixedTimeStep) {
+      while (this.accumulator >= this.fixedTimeStep && !this.isPaused) {
         this.update(this.fixedTimeStep);
         this.accumulator -= this.fixedTimeStep;
       }
@@ -408,15 +796,18 @@ class Game {
   }
 
   private update(deltaTime: number): void {
-    // Check for area progression
-    this.checkAreaProgression();
+    // Feed recorded input into the simulation during playback
+    if (!this.applyReplayCommands()) {
+      return;
+    }
     
-    // Update walker system
-    this.walkerSystem.update(deltaTime);
+    // Advance gameplay by one fixed step
+    this.simulation.step();
     
-    // Update zombie system with walker data for AI targeting
-    const activeWalkers = this.walkerSystem.getActiveWalkers();
-    this.zombieSystem.update(deltaTime, activeWalkers);
+    if (this.replayPlayer && this.replayPlayer.isFinished(this.simulation.getTick())) {
+      this.stopReplay('Replay finished');
+      return;
+    }
     
     // Update visual effects
     this.visualEffects.update(deltaTime);
@@ -425,8 +816,8 @@ class Game {
     const currentArea = this.areaManager.getCurrentArea();
     this.visualEffects.createAmbientParticles(currentArea);
     
-    // Update HUD
-    this.hud.update();
+    // Update prestige panel
+    this.prestigePanel.update();
   }
 
   private handleAllInput(): void {
@@ -437,6 +828,16 @@ class Game {
     }
     this.lastPauseKeyState = currentPauseKeyState;
 
+    // Pan and zoom the upgrade tree (wheel input is consumed every frame so it doesn't pile up)
+    const wheelDelta = this.inputManager.consumeWheelDelta();
+    if (this.hud.isUpgradeMenuOpen()) {
+      const pointerPos = this.inputManager.getMousePosition();
+      this.hud.handleDrag(pointerPos, this.inputManager.isMousePressed());
+      if (wheelDelta !== 0) {
+        this.hud.handleWheel(wheelDelta, pointerPos);
+      }
+    }
+
     // Handle mouse/touch input - always check for pause button first
     if (this.inputManager.wasMouseJustPressed()) {
       const mousePos = this.inputManager.getMousePosition();
@@ -448,6 +849,12 @@ class Game {
         return; // Don't process other input when pause is pressed
       }
       
+      // Any click dismisses the offline progress summary
+      if (this.hud.isOfflineSummaryOpen()) {
+        this.hud.dismissOfflineSummary();
+        return;
+      }
+      
       // Only handle other input when not paused
       if (!this.isPaused) {
         if (mobileButtonPressed && mobileButtonPressed !== 'pause') {
@@ -455,15 +862,29 @@ class Game {
           return; // Don't process other clicks
         }
         
-        // Check if click was on upgrade menu
-        if (this.hud.isUpgradeMenuOpen()) {
+        // Check if click was on an open panel
+        if (this.statsPanel.isOpen()) {
+          this.statsPanel.handleClick(mousePos);
+        } else if (this.automationPanel.isOpen()) {
+          this.automationPanel.handleClick(mousePos);
+        } else if (this.areaMapPanel.isOpen()) {
+          this.areaMapPanel.handleClick(mousePos);
+        } else if (this.prestigePanel.isOpen()) {
+          this.prestigePanel.handleClick(mousePos);
+        } else if (this.hud.isUpgradeMenuOpen()) {
           const upgradeClicked = this.hud.handleClick(mousePos);
           if (!upgradeClicked) {
             // Click wasn't on an upgrade button, could close menu or ignore
           }
-        } else {
+        } else if (!this.replayPlayer) {
           // Normal zombie spawning
-          const success = this.zombieSystem.spawnZombie(mousePos);
+          const success = this.executeCommand({
+            tick: 0,
+            type: 'spawn-zombie',
+            x: mousePos.x,
+            y: mousePos.y,
+            zombieType: this.selectedZombieType
+          });
           if (success) {
             this.accessibilityManager.announceMobileAction('zombie-spawned');
           } else {
@@ -483,12 +904,86 @@ class Game {
       }
       this.lastUpgradeKeyState = currentUpgradeKeyState;
 
+      // Handle prestige panel toggle
+      const currentPrestigeKeyState = this.inputManager.isKeyPressed('r');
+      if (currentPrestigeKeyState && !this.lastPrestigeKeyState) {
+        this.togglePrestigePanel();
+      }
+      this.lastPrestigeKeyState = currentPrestigeKeyState;
+
+      // Handle statistics screen toggle
+      const currentStatsKeyState = this.inputManager.isKeyPressed('s');
+      if (currentStatsKeyState && !this.lastStatsKeyState) {
+        this.toggleStatsPanel();
+      }
+      this.lastStatsKeyState = currentStatsKeyState;
+
+      // Handle automation panel toggle
+      const currentAutomationKeyState = this.inputManager.isKeyPressed('a');
+      if (currentAutomationKeyState && !this.lastAutomationKeyState) {
+        this.toggleAutomationPanel();
+      }
+      this.lastAutomationKeyState = currentAutomationKeyState;
+
+      // Handle area map toggle
+      const currentMapKeyState = this.inputManager.isKeyPressed('t');
+      if (currentMapKeyState && !this.lastMapKeyState) {
+        this.toggleAreaMapPanel();
+      }
+      this.lastMapKeyState = currentMapKeyState;
+
+      // Handle game mode toggle (sandbox or waves)
+      const currentGameModeKeyState = this.inputManager.isKeyPressed('g');
+      if (currentGameModeKeyState && !this.lastGameModeKeyState) {
+        this.toggleGameMode();
+      }
+      this.lastGameModeKeyState = currentGameModeKeyState;
+
+      // Handle bulk buy mode cycling (x1 / x10 / x100 / Max)
+      const currentBuyModeKeyState = this.inputManager.isKeyPressed('b');
+      if (currentBuyModeKeyState && !this.lastBuyModeKeyState) {
+        this.hud.cyclePurchaseMode();
+      }
+      this.lastBuyModeKeyState = currentBuyModeKeyState;
+
+      // Handle number notation toggle (suffixes or scientific)
+      const currentNotationKeyState = this.inputManager.isKeyPressed('n');
+      if (currentNotationKeyState && !this.lastNotationKeyState) {
+        this.toggleNumberNotation();
+      }
+      this.lastNotationKeyState = currentNotationKeyState;
+
       // Handle reduced motion toggle
       const currentMotionKeyState = this.inputManager.isKeyPressed('m');
       if (currentMotionKeyState && !this.lastMotionKeyState) {
         this.toggleReducedMotion();
       }
       this.lastMotionKeyState = currentMotionKeyState;
+
+      // Handle replay export
+      const currentExportKeyState = this.inputManager.isKeyPressed('e');
+      if (currentExportKeyState && !this.lastExportKeyState) {
+        this.exportReplay();
+      }
+      this.lastExportKeyState = currentExportKeyState;
+
+      // Handle replay load (or leave playback)
+      const currentLoadKeyState = this.inputManager.isKeyPressed('l');
+      if (currentLoadKeyState && !this.lastLoadKeyState) {
+        if (this.replayPlayer) {
+          this.stopReplay('Replay stopped');
+        } else {
+          this.promptLoadReplay();
+        }
+      }
+      this.lastLoadKeyState = currentLoadKeyState;
+
+      // Handle zombie type selection (number keys 1-5)
+      ZOMBIE_TYPE_ORDER.forEach((typeId, index) => {
+        if (this.inputManager.isKeyPressed(`${index + 1}`)) {
+          this.selectZombieType(typeId);
+        }
+      });
     }
   }
 
@@ -506,11 +1001,16 @@ class Game {
     // Render area-specific background effects
     this.visualEffects.renderBackgroundEffects(this.ctx, currentArea);
     
+    // Cull what gets drawn on slow devices (the simulation itself always updates every entity)
+    const visibleWalkers = this.entityCuller.cullEntities(this.walkerSystem.getActiveWalkers(), canvasWidth, canvasHeight);
+    const visibleZombies = this.entityCuller.cullEntities(this.zombieSystem.getActiveZombies(), canvasWidth, canvasHeight);
+
     // Render walker system
-    this.walkerSystem.render(this.ctx);
+    this.walkerSystem.render(this.ctx, visibleWalkers);
     
     // Render zombie system
-    this.zombieSystem.render(this.ctx);
+    this.zombieSystem.render(this.ctx, visibleZombies);
+    this.performanceMonitor.incrementRenderCalls(visibleWalkers.length + visibleZombies.length);
     
     // Render visual effects (particles, etc.)
     this.visualEffects.render(this.ctx);
@@ -549,6 +1049,10 @@ class Game {
     
     // Render HUD (souls counter, upgrade menu, etc.)
     this.hud.render(this.ctx);
+    this.prestigePanel.render(this.ctx);
+    this.statsPanel.render(this.ctx);
+    this.automationPanel.render(this.ctx);
+    this.areaMapPanel.render(this.ctx);
     
     // Render mobile UI (touch buttons, etc.)
     this.mobileUI.render(this.ctx);
@@ -600,7 +1104,17 @@ class Game {
     const maxZombies = this.zombieSystem.getMaxZombies();
     
     this.ctx.fillText(`Walkers: ${walkerCount}`, canvasWidth - 10, 10);
-    this.ctx.fillText(`Zombies: ${zombieCount}/${maxZombies}`, canvasWidth - 10, 30);
+    const risingCount = this.zombieSystem.getRisingCount();
+    const risingText = risingCount > 0 ? ` (+${risingCount} rising)` : '';
+    this.ctx.fillText(`Zombies: ${zombieCount}/${maxZombies}${risingText}`, canvasWidth - 10, 30);
+    
+    // Show replay progress during playback
+    if (this.replayPlayer) {
+      const progress = this.replayPlayer.getProgress(this.simulation.getTick());
+      this.ctx.fillStyle = '#ff6666';
+      this.ctx.fillText(`REPLAY ${Math.round(progress * 100)}%`, canvasWidth - 10, 50);
+      this.ctx.fillStyle = '#ffffff';
+    }
     
     // Draw basic controls info in bottom-left
     this.ctx.textAlign = 'left';
@@ -608,7 +1122,7 @@ class Game {
     this.ctx.font = '14px Arial';
     this.ctx.fillStyle = '#666';
     
-    this.ctx.fillText('Press P to pause/resume', 10, canvasHeight - 50);
+    this.ctx.fillText('Press P to pause/resume, E/L to export/load replay', 10, canvasHeight - 50);
     this.ctx.fillText('Press M to toggle reduced motion', 10, canvasHeight - 30);
     this.ctx.fillText('Click/tap to spawn zombies', 10, canvasHeight - 10);
     
@@ -636,8 +1150,7 @@ class Game {
     const saveData = this.saveManager.loadGameState();
     if (saveData) {
       // Load resource data
-      this.resourceManager.setSouls(saveData.souls);
-      this.resourceManager.setWalkersDefeated(saveData.walkersDefeated);
+      this.resourceManager.loadResourceData(saveData);
       
       // Load upgrade data
       if (saveData.upgrades) {
@@ -645,7 +1158,7 @@ class Game {
       }
       
       // Load area progression
-      this.areaManager.setCurrentArea(saveData.currentArea, saveData.walkersDefeated);
+      this.areaManager.setCurrentArea(saveData.currentArea);
       
       console.log('Game state loaded successfully');
     } else {
@@ -653,28 +1166,6 @@ class Game {
     }
   }
 
-  // Check for area progression and auto-advance if needed
-  private checkAreaProgression(): void {
-    const walkersDefeated = this.resourceManager.getWalkersDefeated();
-    const areaChanged = this.areaManager.autoAdvanceArea(walkersDefeated);
-    
-    if (areaChanged) {
-      const newArea = this.areaManager.getCurrentArea();
-      console.log(`Advanced to new area: ${newArea.name}`);
-      
-      // Update walker sprites for the new area
-      this.walkerSystem.updateWalkerSprites(this.areaManager.getCurrentAreaId());
-      
-      // Create area transition visual effect
-      this.visualEffects.createAreaTransitionEffect(newArea);
-      
-      // Save the area progression
-      this.saveManager.saveGameState({
-        currentArea: this.areaManager.getCurrentAreaId()
-      });
-    }
-  }
-
   // Initialize mobile-specific optimizations
   private initializeMobileOptimizations(): void {
     if (!this.mobileUI.isMobileDevice()) {
@@ -1,4 +1,8 @@
 // Accessibility manager for screen reader support and other accessibility features
+import { Unsubscribe } from '../core/EventBus.ts';
+import { GameEventBus } from '../core/GameEvents.ts';
+import { formatAmounts, formatNumber } from '../ui/NumberFormat.ts';
+
 export class AccessibilityManager {
   private static instance: AccessibilityManager;
   private announcementElement: HTMLElement | null = null;
@@ -64,6 +68,29 @@ export class AccessibilityManager {
     }, 5000);
   }
 
+  // Announce gameplay events as they happen (returns a function that stops listening)
+  public subscribeTo(events: GameEventBus): Unsubscribe {
+    const subscriptions = [
+      // Auto-buys are not announced (rules can buy every second)
+      events.on('upgrade-purchased', event => {
+        if (!event.automatic) this.announceUpgrade(event.label, event.level, formatAmounts(event.cost));
+      }),
+      events.on('boss-spawned', event => this.announce(`Boss ${event.name} has appeared in ${event.area.name}`, 'assertive')),
+      events.on('boss-defeated', event => this.announce(`Boss ${event.name} defeated! Earned ${formatNumber(event.souls)} souls`, 'assertive')),
+      events.on('area-changed', event => {
+        if (event.reason === 'advance') this.announceAreaChange(event.area.name, event.area.id + 1);
+        if (event.reason === 'travel') this.announce(`Travelled to ${event.area.name}, area ${event.area.id + 1}`, 'polite');
+      }),
+      events.on('wave-started', event => this.announce(`Wave ${event.wave}: ${event.walkerCount} walkers incoming`, 'polite')),
+      events.on('wave-cleared', event => this.announce(`Wave ${event.wave} cleared! Bonus ${formatNumber(event.bonus)} souls`, 'polite')),
+      events.on('game-mode-changed', event => this.announce(`Game mode: ${event.mode}`, 'polite')),
+      events.on('prestige', event => this.announce(`Rebirth complete. Earned ${event.essence} essence`, 'assertive')),
+      events.on('achievement-unlocked', event => this.announceAchievement(event.label, event.rewardDescription)),
+      events.on('game-paused', event => this.announceGameState(event.paused ? 'paused' : 'resumed'))
+    ];
+    return () => subscriptions.forEach(unsubscribe => unsubscribe());
+  }
+
   // Announce game state changes
   public announceGameState(state: string): void {
     switch (state) {
@@ -85,8 +112,14 @@ export class AccessibilityManager {
   }
 
   // Announce upgrade purchases
-  public announceUpgrade(upgradeName: string, level: number, cost: number): void {
-    this.announce(`Purchased ${upgradeName} level ${level} for ${cost} souls`, 'polite');
+  // Cost is preformatted with its currency (e.g. "1.50K souls")
+  public announceUpgrade(upgradeName: string, level: number, cost: string): void {
+    this.announce(`Purchased ${upgradeName} level ${level} for ${cost}`, 'polite');
+  }
+
+  // Announce achievement unlocks with their reward
+  public announceAchievement(achievementName: string, reward: string): void {
+    this.announce(`Achievement unlocked: ${achievementName}. Reward: ${reward}`, 'polite');
   }
 
   // Announce area progression
@@ -0,0 +1,103 @@
+// Declarative achievement definitions: a goal tracked from gameplay events and a permanent stat reward
+import { StatModifier } from '../core/StatPipeline.ts';
+
+// walkers-defeated: defeat walkers across all runs
+// reach-area: advance the horde to an area
+// horde-size: have this many zombies alive at once
+// kill-streak: defeat walkers within a short window of game time
+// rebirths: prestige this many times
+export type AchievementGoal =
+  | { type: 'walkers-defeated'; count: number }
+  | { type: 'reach-area'; areaId: number }
+  | { type: 'horde-size'; count: number }
+  | { type: 'kill-streak'; count: number; windowMs: number }
+  | { type: 'rebirths'; count: number };
+
+export interface AchievementDefinition {
+  id: string;
+  label: string;
+  description: string;
+  goal: AchievementGoal;
+  reward: StatModifier[]; // Applied once, permanently, when unlocked
+  rewardDescription: string;
+}
+
+export const ACHIEVEMENT_DEFINITIONS: AchievementDefinition[] = [
+  {
+    id: 'walkers-100',
+    label: 'Hungry Horde',
+    description: 'Defeat 100 walkers',
+    goal: { type: 'walkers-defeated', count: 100 },
+    reward: [{ stat: 'soul-gain', type: 'percent', value: 0.02 }],
+    rewardDescription: '+2% souls'
+  },
+  {
+    id: 'walkers-1000',
+    label: 'Thousand Fallen',
+    description: 'Defeat 1,000 walkers',
+    goal: { type: 'walkers-defeated', count: 1000 },
+    reward: [{ stat: 'soul-gain', type: 'percent', value: 0.05 }],
+    rewardDescription: '+5% souls'
+  },
+  {
+    id: 'walkers-10000',
+    label: 'Plague of Ages',
+    description: 'Defeat 10,000 walkers',
+    goal: { type: 'walkers-defeated', count: 10000 },
+    reward: [{ stat: 'soul-gain', type: 'percent', value: 0.1 }],
+    rewardDescription: '+10% souls'
+  },
+  {
+    id: 'reach-fortified-city',
+    label: 'Over the Walls',
+    description: 'Reach Fortified City',
+    goal: { type: 'reach-area', areaId: 2 },
+    reward: [{ stat: 'zombie-speed', type: 'percent', value: 0.03 }],
+    rewardDescription: '+3% zombie speed'
+  },
+  {
+    id: 'reach-fortress-capital',
+    label: 'Fall of the Capital',
+    description: 'Reach Fortress Capital',
+    goal: { type: 'reach-area', areaId: 4 },
+    reward: [{ stat: 'zombie-damage', type: 'percent', value: 0.05 }],
+    rewardDescription: '+5% zombie damage'
+  },
+  {
+    id: 'horde-25',
+    label: 'Growing Horde',
+    description: 'Have 25 zombies at once',
+    goal: { type: 'horde-size', count: 25 },
+    reward: [{ stat: 'max-zombies', type: 'add', value: 1 }],
+    rewardDescription: '+1 max zombies'
+  },
+  {
+    id: 'horde-50',
+    label: 'Endless Horde',
+    description: 'Have 50 zombies at once',
+    goal: { type: 'horde-size', count: 50 },
+    reward: [{ stat: 'max-zombies', type: 'add', value: 2 }],
+    rewardDescription: '+2 max zombies'
+  },
+  {
+    id: 'kill-streak-10',
+    label: 'Feeding Frenzy',
+    description: 'Defeat 10 walkers within 1 second',
+    goal: { type: 'kill-streak', count: 10, windowMs: 1000 },
+    reward: [{ stat: 'zombie-damage', type: 'percent', value: 0.03 }],
+    rewardDescription: '+3% zombie damage'
+  },
+  {
+    id: 'first-rebirth',
+    label: 'Born Again',
+    description: 'Rebirth for the first time',
+    goal: { type: 'rebirths', count: 1 },
+    reward: [{ stat: 'starting-souls', type: 'add', value: 25 }],
+    rewardDescription: '+25 starting souls'
+  }
+];
+
+// Progress value an achievement needs (areas are reached at their id)
+export function getGoalTarget(goal: AchievementGoal): number {
+  return goal.type === 'reach-area' ? goal.areaId : goal.count;
+}
@@ -0,0 +1,200 @@
+// Achievement manager: tracks goal progress from gameplay events and grants permanent rewards on unlock
+import { SaveManager } from './SaveManager.ts';
+import { AchievementDefinition, ACHIEVEMENT_DEFINITIONS, getGoalTarget } from './AchievementDefinitions.ts';
+import { ActiveStatModifier, StatModifierSource } from '../core/StatPipeline.ts';
+import { GameEventBus } from '../core/GameEvents.ts';
+import { Clock } from '../core/Clock.ts';
+
+// Progress is kept per achievement (capped at its target) so new definitions start from zero
+export interface AchievementSaveData {
+  progress: { [achievementId: string]: number };
+  unlocked: string[];
+}
+
+// Snapshot of one achievement for display
+export interface AchievementStatus {
+  definition: AchievementDefinition;
+  progress: number;
+  target: number;
+  unlocked: boolean;
+}
+
+export class AchievementManager implements StatModifierSource {
+  private progress: Map<string, number> = new Map();
+  private unlocked: Set<string> = new Set();
+  private recentKillTimes: number[] = []; // Game time of recent walker defeats (for kill streaks)
+  private unsavedProgress: boolean = false; // Progress is saved with the session or the next unlock, not on every kill
+  private saveManager: SaveManager;
+  private events: GameEventBus;
+  private clock: Clock;
+
+  constructor(saveManager: SaveManager, events: GameEventBus, clock: Clock) {
+    this.saveManager = saveManager;
+    this.events = events;
+    this.clock = clock;
+    this.loadFromStorage();
+    this.subscribe();
+  }
+
+  // Feed goal progress from gameplay events
+  private subscribe(): void {
+    this.events.on('walker-defeated', () => this.recordWalkerDefeated());
+    this.events.on('zombie-spawned', event => this.recordProgress('horde-size', () => event.zombieCount));
+    this.events.on('area-changed', event => this.recordArea(event.area.id));
+    this.events.on('prestige', event => this.recordProgress('rebirths', () => event.prestigeCount));
+  }
+
+  private recordWalkerDefeated(): void {
+    const now = this.clock.now();
+    this.recentKillTimes.push(now);
+
+    // Only the longest streak window needs to be remembered
+    const longestWindow = Math.max(0, ...ACHIEVEMENT_DEFINITIONS.map(definition =>
+      definition.goal.type === 'kill-streak' ? definition.goal.windowMs : 0
+    ));
+    while (this.recentKillTimes.length > 0 && this.recentKillTimes[0] < now - longestWindow) {
+      this.recentKillTimes.shift();
+    }
+
+    this.recordProgress('walkers-defeated', current => current + 1);
+    this.recordProgress('kill-streak', (_current, definition) => {
+      const windowMs = definition.goal.type === 'kill-streak' ? definition.goal.windowMs : 0;
+      return this.recentKillTimes.filter(time => time >= now - windowMs).length;
+    });
+  }
+
+  // Record the area the horde is in (also used to credit areas reached before achievements existed)
+  recordArea(areaId: number): void {
+    this.recordProgress('reach-area', () => areaId);
+  }
+
+  // Raise progress for every locked achievement with the given goal type, unlocking any that reach their target
+  private recordProgress(
+    goalType: AchievementDefinition['goal']['type'],
+    getValue: (current: number, definition: AchievementDefinition) => number
+  ): void {
+    let unlockedAny = false;
+
+    for (const definition of ACHIEVEMENT_DEFINITIONS) {
+      if (definition.goal.type !== goalType || this.unlocked.has(definition.id)) continue;
+
+      const current = this.getProgress(definition.id);
+      const target = getGoalTarget(definition.goal);
+      const value = Math.min(target, Math.max(current, getValue(current, definition)));
+      if (value === current) continue;
+
+      this.progress.set(definition.id, value);
+      this.unsavedProgress = true;
+      if (value >= target) {
+        this.unlock(definition);
+        unlockedAny = true;
+      }
+    }
+
+    if (unlockedAny) {
+      this.saveToStorage();
+    }
+  }
+
+  // Save progress not yet written (when the page is hidden or closed)
+  flush(): void {
+    if (this.unsavedProgress) {
+      this.saveToStorage();
+    }
+  }
+
+  private unlock(definition: AchievementDefinition): void {
+    this.unlocked.add(definition.id);
+    console.log(`Achievement unlocked: ${definition.label}`);
+
+    this.events.emit('achievement-unlocked', {
+      achievementId: definition.id,
+      label: definition.label,
+      description: definition.description,
+      rewardDescription: definition.rewardDescription,
+      reward: definition.reward
+    });
+  }
+
+  getProgress(achievementId: string): number {
+    return this.progress.get(achievementId) ?? 0;
+  }
+
+  isUnlocked(achievementId: string): boolean {
+    return this.unlocked.has(achievementId);
+  }
+
+  getUnlockedCount(): number {
+    return this.unlocked.size;
+  }
+
+  // Every achievement with its progress, in definition order
+  getAchievements(): AchievementStatus[] {
+    return ACHIEVEMENT_DEFINITIONS.map(definition => ({
+      definition,
+      progress: this.getProgress(definition.id),
+      target: getGoalTarget(definition.goal),
+      unlocked: this.isUnlocked(definition.id)
+    }));
+  }
+
+  // Rewards from every unlocked achievement (for the stat pipeline)
+  getStatModifiers(): ActiveStatModifier[] {
+    const active: ActiveStatModifier[] = [];
+    for (const definition of ACHIEVEMENT_DEFINITIONS) {
+      if (!this.unlocked.has(definition.id)) continue;
+      for (const modifier of definition.reward) {
+        active.push({ modifier, level: 1 });
+      }
+    }
+    return active;
+  }
+
+  // Get achievement data for saving
+  getAchievementData(): AchievementSaveData {
+    const progress: { [achievementId: string]: number } = {};
+    for (const [achievementId, value] of this.progress) {
+      progress[achievementId] = value;
+    }
+    return { progress, unlocked: [...this.unlocked] };
+  }
+
+  // Load achievement data from save (unknown ids from removed definitions are dropped)
+  loadAchievementData(data: AchievementSaveData): void {
+    this.progress.clear();
+    this.unlocked.clear();
+    for (const definition of ACHIEVEMENT_DEFINITIONS) {
+      const value = data.progress?.[definition.id];
+      if (typeof value === 'number') {
+        this.progress.set(definition.id, value);
+      }
+      if (data.unlocked?.includes(definition.id)) {
+        this.unlocked.add(definition.id);
+      }
+    }
+  }
+
+  // Save to localStorage using SaveManager
+  private saveToStorage(): void {
+    this.saveManager.saveGameState({
+      achievements: this.getAchievementData()
+    });
+    this.unsavedProgress = false;
+  }
+
+  // Load from localStorage using SaveManager
+  private loadFromStorage(): void {
+    const saveData = this.saveManager.loadGameState();
+    if (saveData && saveData.achievements) {
+      this.loadAchievementData(saveData.achievements);
+    }
+  }
+
+  // Reset all achievements (for testing)
+  reset(): void {
+    this.progress.clear();
+    this.unlocked.clear();
+    this.recentKillTimes = [];
+    this.saveToStorage();
+  }
+}
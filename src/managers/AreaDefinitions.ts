@@ -0,0 +1,317 @@
+// Area definitions: hand-authored areas validated from areas.json, then procedurally generated areas past them
+import areaData from '../data/areas.json';
+import { StatId, StatModifier, StatModifierType, STAT_DEFINITIONS } from '../core/StatPipeline.ts';
+import { AttackConfig } from '../core/AttackSystem.ts';
+import { Random } from '../core/Random.ts';
+import { isNumber, isRecord, isString, isText, isTextList } from '../core/TypeGuards.ts';
+import { SpawnTableEntry, WalkerArchetypeId, WALKER_ARCHETYPES } from '../entities/WalkerArchetypes.ts';
+import { ZombieTypeId, ZOMBIE_TYPES } from '../entities/ZombieTypes.ts';
+
+// Radial overlay drawn over the area background
+export interface AreaGradient {
+  inner: string;
+  outer: string;
+}
+
+// slam: hits every zombie within range of the boss at once
+// charge: dashes at the nearest zombie, trampling each zombie in its path
+export type BossAttackPattern = 'slam' | 'charge';
+
+export interface BossAttack extends AttackConfig {
+  pattern: BossAttackPattern;
+}
+
+// The walker guarding each area (defeating it unlocks the next area)
+export interface AreaBoss {
+  name: string;
+  healthMultiplier: number; // Applied to the area's walker health
+  soulReward: number; // Applied to the area's soul multiplier (guaranteed on defeat)
+  attack: BossAttack;
+}
+
+export interface AreaConfig {
+  id: number;
+  name: string;
+  walkerHealth: number;
+  walkerSpeed: number;
+  soulMultiplier: number;
+  unlockRequirement: number; // Walkers defeated before the previous area's boss appears
+  backgroundColor: string;
+  walkerColors: string[]; // Particle and effect colors
+  gradient: AreaGradient;
+  spawnTable: SpawnTableEntry[]; // Weighted walker archetypes for this area
+  walkerSprite: string; // Sprite for civilians (other archetypes bring their own)
+  walkerSpriteColors: string[]; // Frame colors for the placeholder walker sprite
+  music: string | null; // Track id for this area
+  modifiers: StatModifier[]; // Applied while this is the current area
+  boss: AreaBoss;
+  generated: boolean; // Created procedurally past the authored areas
+}
+
+// Highest number of areas, authored and generated together
+export const MAX_AREAS = 500;
+
+const BOSS_ATTACK_PATTERNS: BossAttackPattern[] = ['slam', 'charge'];
+
+const hasKey = (record: object, key: string): boolean => Object.prototype.hasOwnProperty.call(record, key);
+const isWalkerArchetypeId = (value: unknown): value is WalkerArchetypeId => isString(value) && hasKey(WALKER_ARCHETYPES, value);
+const isZombieTypeId = (value: unknown): value is ZombieTypeId => isString(value) && hasKey(ZOMBIE_TYPES, value);
+const isStatId = (value: unknown): value is StatId => isString(value) && hasKey(STAT_DEFINITIONS, value);
+const isStatModifierType = (value: unknown): value is StatModifierType => value === 'add' || value === 'percent';
+const isBossAttackPattern = (value: unknown): value is BossAttackPattern => BOSS_ATTACK_PATTERNS.some(pattern => pattern === value);
+
+// Read a positive number from an entry, recording an error (and returning 0) when it isn't one
+function readPositive(source: Record<string, unknown>, field: string, path: string, errors: string[]): number {
+  const value = source[field];
+  if (isNumber(value) && value > 0) return value;
+  errors.push(`${path}.${field} must be a positive number`);
+  return 0;
+}
+
+// Check one entry of areas.json and build the flat config the game uses (area is null when there are errors)
+function parseAreaDefinition(raw: unknown, expectedId: number, previous: AreaConfig | null): { area: AreaConfig | null; errors: string[] } {
+  if (!isRecord(raw)) return { area: null, errors: ['entry is not an object'] };
+
+  const errors: string[] = [];
+  if (raw.id !== expectedId) errors.push(`id must be ${expectedId} (areas are numbered in order)`);
+  const name = isText(raw.name) ? raw.name : '';
+  if (!name) errors.push('name is missing');
+
+  const stats = isRecord(raw.stats) ? raw.stats : {};
+  const walkerHealth = readPositive(stats, 'walkerHealth', 'stats', errors);
+  const walkerSpeed = readPositive(stats, 'walkerSpeed', 'stats', errors);
+  const soulMultiplier = readPositive(stats, 'soulMultiplier', 'stats', errors);
+  const unlockRequirement = isNumber(stats.unlockRequirement) ? stats.unlockRequirement : -1;
+  if (unlockRequirement < 0) {
+    errors.push('stats.unlockRequirement must be zero or more');
+  } else if (previous ? unlockRequirement < previous.unlockRequirement : unlockRequirement !== 0) {
+    errors.push(previous ? 'stats.unlockRequirement must not be lower than the previous area' : 'the first area must unlock at 0');
+  }
+
+  const palette = isRecord(raw.palette) ? raw.palette : {};
+  const backgroundColor = isText(palette.background) ? palette.background : '';
+  if (!backgroundColor) errors.push('palette.background is missing');
+  const walkerColors = isTextList(palette.walkers) ? [...palette.walkers] : [];
+  if (walkerColors.length === 0) errors.push('palette.walkers must list at least one color');
+
+  const gradient = isRecord(raw.gradient) ? raw.gradient : {};
+  const inner = isText(gradient.inner) ? gradient.inner : '';
+  const outer = isText(gradient.outer) ? gradient.outer : '';
+  if (!inner || !outer) errors.push('gradient needs inner and outer colors');
+
+  const spawnTable: SpawnTableEntry[] = [];
+  if (!Array.isArray(raw.spawnTable) || raw.spawnTable.length === 0) {
+    errors.push('spawnTable must list at least one archetype');
+  } else {
+    for (const entry of raw.spawnTable) {
+      const archetype = isRecord(entry) ? entry.archetype : undefined;
+      const weight = isRecord(entry) ? entry.weight : undefined;
+      if (!isWalkerArchetypeId(archetype)) errors.push(`unknown walker archetype "${String(archetype)}"`);
+      else if (archetype === 'boss') errors.push('bosses cannot appear in spawnTable');
+      if (!isNumber(weight) || weight < 0) errors.push('spawnTable weights must be zero or more');
+      if (isWalkerArchetypeId(archetype) && isNumber(weight)) spawnTable.push({ archetype, weight });
+    }
+    if (!spawnTable.some(entry => entry.weight > 0)) {
+      errors.push('spawnTable needs a positive weight');
+    }
+  }
+
+  const sprites = isRecord(raw.sprites) ? raw.sprites : {};
+  const walkerSprite = isText(sprites.walker) ? sprites.walker : '';
+  if (!walkerSprite) errors.push('sprites.walker is missing');
+  const walkerSpriteColors = isTextList(sprites.walkerColors) ? [...sprites.walkerColors] : [];
+  if (walkerSpriteColors.length === 0) errors.push('sprites.walkerColors must list at least one color');
+  const music = isText(raw.music) ? raw.music : null;
+  if (raw.music !== undefined && raw.music !== null && !isText(raw.music)) errors.push('music must be a track id or null');
+
+  const modifiers: StatModifier[] = [];
+  if (raw.modifiers !== undefined && !Array.isArray(raw.modifiers)) {
+    errors.push('modifiers must be a list');
+  } else {
+    for (const modifier of raw.modifiers ?? []) {
+      const entry = isRecord(modifier) ? modifier : {};
+      if (!isStatId(entry.stat)) errors.push(`unknown stat "${String(entry.stat)}"`);
+      if (!isStatModifierType(entry.type)) errors.push('modifier type must be add or percent');
+      if (!isNumber(entry.value)) errors.push('modifier value must be a number');
+      if (entry.zombieType !== undefined && !isZombieTypeId(entry.zombieType)) {
+        errors.push(`unknown zombie type "${String(entry.zombieType)}"`);
+      }
+      if (isStatId(entry.stat) && isStatModifierType(entry.type) && isNumber(entry.value)) {
+        modifiers.push({
+          stat: entry.stat,
+          type: entry.type,
+          value: entry.value,
+          zombieType: isZombieTypeId(entry.zombieType) ? entry.zombieType : undefined
+        });
+      }
+    }
+  }
+
+  const boss = isRecord(raw.boss) ? raw.boss : {};
+  const bossName = isText(boss.name) ? boss.name : '';
+  if (!bossName) errors.push('boss.name is missing');
+  const healthMultiplier = readPositive(boss, 'healthMultiplier', 'boss', errors);
+  const soulReward = readPositive(boss, 'soulReward', 'boss', errors);
+  const attack = isRecord(boss.attack) ? boss.attack : {};
+  const pattern = isBossAttackPattern(attack.pattern) ? attack.pattern : null;
+  if (!pattern) errors.push(`boss.attack.pattern must be ${BOSS_ATTACK_PATTERNS.join(' or ')}`);
+  const damage = readPositive(attack, 'damage', 'boss.attack', errors);
+  const range = readPositive(attack, 'range', 'boss.attack', errors);
+  const cooldown = readPositive(attack, 'cooldown', 'boss.attack', errors);
+
+  if (errors.length > 0 || !pattern) return { area: null, errors };
+  return {
+    area: {
+      id: expectedId,
+      name,
+      walkerHealth,
+      walkerSpeed,
+      soulMultiplier,
+      unlockRequirement,
+      backgroundColor,
+      walkerColors,
+      gradient: { inner, outer },
+      spawnTable,
+      walkerSprite,
+      walkerSpriteColors,
+      music,
+      modifiers,
+      boss: {
+        name: bossName,
+        healthMultiplier,
+        soulReward,
+        attack: { pattern, damage, range, cooldown }
+      },
+      generated: false
+    },
+    errors
+  };
+}
+
+// Load authored areas in order, stopping at the first invalid entry (areas past it are generated instead)
+export function loadAreaDefinitions(data: unknown): AreaConfig[] {
+  if (!Array.isArray(data)) {
+    console.warn('Area definitions must be a list; generating every area');
+    return [];
+  }
+
+  const areas: AreaConfig[] = [];
+  for (const raw of data.slice(0, MAX_AREAS)) {
+    const { area, errors } = parseAreaDefinition(raw, areas.length, areas[areas.length - 1] ?? null);
+    if (!area) {
+      console.warn(`Invalid area definition ${areas.length} (generating from here on):`, errors.join('; '));
+      break;
+    }
+    areas.push(area);
+  }
+  return areas;
+}
+
+export const AUTHORED_AREAS: AreaConfig[] = loadAreaDefinitions(areaData);
+
+// Generated areas take a name part and an optional twist from these lists
+const GENERATED_TRAITS: { adjective: string; modifiers: StatModifier[] }[] = [
+  { adjective: 'Ashen', modifiers: [] },
+  { adjective: 'Silent', modifiers: [] },
+  { adjective: 'Gilded', modifiers: [] },
+  { adjective: 'Restless', modifiers: [{ stat: 'walker-speed', type: 'percent', value: 0.1 }] },
+  { adjective: 'Hardened', modifiers: [{ stat: 'walker-health', type: 'percent', value: 0.15 }] },
+  { adjective: 'Haunted', modifiers: [{ stat: 'soul-gain', type: 'percent', value: 0.1 }] },
+  { adjective: 'Frozen', modifiers: [{ stat: 'zombie-speed', type: 'percent', value: -0.1 }] },
+  { adjective: 'Plagued', modifiers: [{ stat: 'infection-chance', type: 'add', value: 0.05 }] }
+];
+
+const GENERATED_PLACES = [
+  'Harbor', 'Citadel', 'Marsh', 'Outpost', 'Metropolis', 'Quarry',
+  'Monastery', 'Bastion', 'Vale', 'Spire', 'Crossing', 'Stronghold'
+];
+
+const GENERATED_BOSS_TITLES = ['Warlord', 'Overseer', 'Champion', 'Tyrant', 'Colossus'];
+
+const GENERATION_SEED = 0x5eed4a7e;
+const MAX_GENERATED_SPEED = 250;
+const MAX_BOSS_HEALTH_MULTIPLIER = 60;
+
+// Build the next area after `previous` (the same id always produces the same area)
+export function generateArea(id: number, previous: AreaConfig | null): AreaConfig {
+  const random = new Random(Math.imul(id + 1, 0x9E3779B1) ^ GENERATION_SEED);
+  const depth = id - AUTHORED_AREAS.length + 1; // 1 for the first generated area
+
+  const trait = random.pick(GENERATED_TRAITS);
+  const place = random.pick(GENERATED_PLACES);
+
+  // Stats keep doubling like the authored areas, with unlocks spaced further apart
+  const unlockRequirement = previous
+    ? Math.max(previous.unlockRequirement + 25, Math.round(previous.unlockRequirement * 1.6 / 25) * 25)
+    : 0;
+
+  // One base hue for the background, with walker colors spread around the wheel
+  const hue = random.range(0, 360);
+  const background = hslToRgb(hue, 0.45, 0.5);
+  const walkerColors = [0, 1, 2].map(() => toHex(hslToRgb(hue + random.range(90, 270), 0.65, 0.6)));
+  const spriteHue = hue + 180;
+  const tracks = AUTHORED_AREAS.map(area => area.music).filter((track): track is string => track !== null);
+  const music = tracks.length > 0 ? random.pick(tracks) : null;
+
+  // Bosses grow a little tougher and hit a little harder each area
+  const pattern = random.pick(BOSS_ATTACK_PATTERNS);
+  const boss: AreaBoss = {
+    name: `${place} ${random.pick(GENERATED_BOSS_TITLES)}`,
+    healthMultiplier: Math.min(MAX_BOSS_HEALTH_MULTIPLIER, (previous?.boss.healthMultiplier ?? 40) + 1),
+    soulReward: 50,
+    attack: {
+      pattern,
+      damage: Math.ceil((previous?.boss.attack.damage ?? 1) * 1.25),
+      range: pattern === 'slam' ? random.range(40, 55) : random.range(100, 130),
+      cooldown: pattern === 'slam' ? random.range(2000, 2800) : random.range(3000, 4000)
+    }
+  };
+
+  return {
+    id,
+    name: `${trait.adjective} ${place}`,
+    walkerHealth: previous ? previous.walkerHealth * 2 : 1,
+    walkerSpeed: previous ? Math.min(MAX_GENERATED_SPEED, previous.walkerSpeed + 25) : 50,
+    soulMultiplier: previous ? previous.soulMultiplier * 2 : 1,
+    unlockRequirement,
+    backgroundColor: toHex(background),
+    walkerColors,
+    gradient: {
+      inner: `rgba(${background.join(', ')}, 0.15)`,
+      outer: `rgba(${background.join(', ')}, 0.08)`
+    },
+    // Deeper areas field more armored walkers and guards
+    spawnTable: [
+      { archetype: 'civilian', weight: Math.max(10, 25 - 2 * depth) },
+      { archetype: 'runner', weight: 20 },
+      { archetype: 'armored', weight: Math.min(50, 35 + depth) },
+      { archetype: 'guard', weight: Math.min(45, 20 + 2 * depth) }
+    ],
+    walkerSprite: `walker_area_${id + 1}`,
+    walkerSpriteColors: [0.55, 0.65, 0.75, 0.85].map(lightness => toHex(hslToRgb(spriteHue, 0.6, lightness))),
+    music,
+    modifiers: trait.modifiers.map(modifier => ({ ...modifier })),
+    boss,
+    generated: true
+  };
+}
+
+// Convert a hue (degrees), saturation and lightness (0-1) to 0-255 RGB channels
+function hslToRgb(hue: number, saturation: number, lightness: number): [number, number, number] {
+  const h = ((hue % 360) + 360) % 360 / 60;
+  const chroma = (1 - Math.abs(2 * lightness - 1)) * saturation;
+  const x = chroma * (1 - Math.abs(h % 2 - 1));
+  const m = lightness - chroma / 2;
+  const [r, g, b] =
+    h < 1 ? [chroma, x, 0] :
+    h < 2 ? [x, chroma, 0] :
+    h < 3 ? [0, chroma, x] :
+    h < 4 ? [0, x, chroma] :
+    h < 5 ? [x, 0, chroma] :
+    [chroma, 0, x];
+  return [r, g, b].map(channel => Math.round((channel + m) * 255)) as [number, number, number];
+}
+
+function toHex(rgb: [number, number, number]): string {
+  return '#' + rgb.map(channel => channel.toString(16).padStart(2, '0')).join('');
+}
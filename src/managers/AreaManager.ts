@@ -1,112 +1,69 @@
 // Area manager for handling area progression and configuration
-export interface AreaConfig {
-  id: number;
-  name: string;
-  walkerHealth: number;
-  walkerSpeed: number;
-  soulMultiplier: number;
-  unlockRequirement: number;
-  backgroundColor: string;
-  walkerColors: string[];
-}
-
-export class AreaManager {
-  private currentArea: number = 0;
-  private readonly areas: AreaConfig[] = [
-    {
-      id: 0,
-      name: "Peaceful Village",
-      walkerHealth: 1,
-      walkerSpeed: 50,
-      soulMultiplier: 1,
-      unlockRequirement: 0,
-      backgroundColor: "#87CEEB",
-      walkerColors: ['#ff6b6b', '#4ecdc4', '#45b7d1']
-    },
-    {
-      id: 1,
-      name: "Busy Town",
-      walkerHealth: 2,
-      walkerSpeed: 75,
-      soulMultiplier: 2,
-      unlockRequirement: 25,
-      backgroundColor: "#DDA0DD",
-      walkerColors: ['#96ceb4', '#feca57', '#ff9ff3']
-    },
-    {
-      id: 2,
-      name: "Fortified City",
-      walkerHealth: 4,
-      walkerSpeed: 100,
-      soulMultiplier: 4,
-      unlockRequirement: 100,
-      backgroundColor: "#F0E68C",
-      walkerColors: ['#54a0ff', '#5f27cd', '#00d2d3']
-    },
-    {
-      id: 3,
-      name: "Military Base",
-      walkerHealth: 8,
-      walkerSpeed: 125,
-      soulMultiplier: 8,
-      unlockRequirement: 250,
-      backgroundColor: "#CD853F",
-      walkerColors: ['#2d3436', '#636e72', '#74b9ff']
-    },
-    {
-      id: 4,
-      name: "Fortress Capital",
-      walkerHealth: 16,
-      walkerSpeed: 150,
-      soulMultiplier: 16,
-      unlockRequirement: 500,
-      backgroundColor: "#8B4513",
-      walkerColors: ['#e17055', '#fdcb6e', '#6c5ce7']
-    }
-  ];
+import { SaveManager } from './SaveManager.ts';
+import { AreaConfig, AUTHORED_AREAS, MAX_AREAS, generateArea } from './AreaDefinitions.ts';
+import { ActiveStatModifier, StatModifierSource } from '../core/StatPipeline.ts';
+import { BigNum } from '../core/BigNum.ts';
 
-  constructor() {
+export class AreaManager implements StatModifierSource {
+  private currentArea: number = 0;
+  private highestUnlocked: number = 0; // Highest area unlocked so far this run (each boss defeat opens one more)
+  private saveManager: SaveManager;
+  // Authored areas first, then generated areas appended as they are first needed
+  private readonly areas: AreaConfig[] = [...AUTHORED_AREAS];
+  // Soul yield lost per area to walkers escaping off the map (recovers over time, not saved)
+  private escapePenalties: Map<number, number> = new Map();
+  private readonly ESCAPE_PENALTY = 0.01; // Yield lost per escape
+  private readonly MAX_ESCAPE_PENALTY = 0.25;
+  private readonly ESCAPE_RECOVERY = 0.01; // Yield regained per second
+
+  constructor(saveManager: SaveManager) {
+    this.saveManager = saveManager;
     this.loadFromStorage();
   }
 
   // Get current area configuration
   getCurrentArea(): AreaConfig {
-    return this.areas[this.currentArea];
+    return this.getArea(this.currentArea) ?? this.getArea(0)!;
   }
 
-  // Get area by ID
+  // Get area by ID (generating it and any before it past the authored areas)
   getArea(areaId: number): AreaConfig | null {
-    return this.areas.find(area => area.id === areaId) || null;
+    if (!Number.isInteger(areaId) || areaId < 0 || areaId >= MAX_AREAS) return null;
+
+    while (this.areas.length <= areaId) {
+      this.areas.push(generateArea(this.areas.length, this.areas[this.areas.length - 1] ?? null));
+    }
+    return this.areas[areaId];
   }
 
-  // Get all available areas
+  // Get every authored area plus the generated ones reached so far (up to the next area)
   getAllAreas(): AreaConfig[] {
+    this.getArea(this.currentArea + 1);
     return [...this.areas];
   }
 
-  // Check if an area is unlocked based on walkers defeated
-  isAreaUnlocked(areaId: number, walkersDefeated: number): boolean {
-    const area = this.getArea(areaId);
-    if (!area) return false;
-    return walkersDefeated >= area.unlockRequirement;
+  // Check if an area has been unlocked by defeating the boss before it
+  isAreaUnlocked(areaId: number): boolean {
+    return this.getArea(areaId) !== null && areaId <= this.highestUnlocked;
   }
 
-  // Get the highest unlocked area based on walkers defeated
-  getHighestUnlockedArea(walkersDefeated: number): number {
-    let highestUnlocked = 0;
-    for (const area of this.areas) {
-      if (walkersDefeated >= area.unlockRequirement) {
-        highestUnlocked = area.id;
-      } else {
-        break;
-      }
+  // Get the highest unlocked area
+  getHighestUnlockedArea(): number {
+    return this.highestUnlocked;
+  }
+
+  // Get every unlocked area in order
+  getUnlockedAreas(): AreaConfig[] {
+    const areas: AreaConfig[] = [];
+    for (let areaId = 0; areaId <= this.highestUnlocked; areaId++) {
+      areas.push(this.getArea(areaId)!);
     }
-    return highestUnlocked;
+    return areas;
   }
 
   // Set current area (if unlocked)
-  setCurrentArea(areaId: number, walkersDefeated: number): boolean {
-    if (this.isAreaUnlocked(areaId, walkersDefeated)) {
+  setCurrentArea(areaId: number): boolean {
+    if (this.isAreaUnlocked(areaId)) {
       this.currentArea = areaId;
       this.saveToStorage();
       return true;
@@ -119,8 +76,8 @@ export class AreaManager {
     return this.currentArea;
   }
 
-  // Get progress toward next area unlock
-  getProgressToNextArea(walkersDefeated: number): { current: number; required: number; percentage: number } | null {
+  // Get progress toward the boss that guards the next area (unlocked once that boss is defeated)
+  getProgressToNextArea(walkersDefeated: number): { current: number; required: number; percentage: number; unlocked: boolean } | null {
     const nextAreaId = this.currentArea + 1;
     const nextArea = this.getArea(nextAreaId);
     
@@ -132,54 +89,101 @@ export class AreaManager {
     const required = nextArea.unlockRequirement;
     const percentage = Math.min((current / required) * 100, 100);
 
-    return { current, required, percentage };
+    return { current, required, percentage, unlocked: this.isAreaUnlocked(nextAreaId) };
+  }
+
+  // The boss appears in the furthest unlocked area once enough walkers have been defeated for the next area
+  isBossDue(walkersDefeated: number): boolean {
+    const nextArea = this.getArea(this.currentArea + 1);
+    return nextArea !== null && this.currentArea === this.highestUnlocked && walkersDefeated >= nextArea.unlockRequirement;
   }
 
   // Check if there's a next area available
   hasNextArea(): boolean {
-    return this.currentArea < this.areas.length - 1;
+    return this.currentArea < MAX_AREAS - 1;
   }
 
-  // Auto-advance to highest unlocked area
-  autoAdvanceArea(walkersDefeated: number): boolean {
-    const highestUnlocked = this.getHighestUnlockedArea(walkersDefeated);
-    if (highestUnlocked > this.currentArea) {
-      this.currentArea = highestUnlocked;
-      this.saveToStorage();
-      return true;
+  // The current area's modifiers apply while the player is in it
+  getStatModifiers(): ActiveStatModifier[] {
+    return this.getCurrentArea().modifiers.map(modifier => ({ modifier, level: 1 }));
+  }
+
+  // Unlock the area past the furthest unlocked one when its boss falls (returns the new area, or null at the last area)
+  unlockNextArea(): AreaConfig | null {
+    const nextArea = this.getArea(this.highestUnlocked + 1);
+    if (!nextArea) return null;
+
+    this.highestUnlocked = nextArea.id;
+    this.saveToStorage();
+    return nextArea;
+  }
+
+  // A walker escaped the current area, lowering its soul yield
+  recordEscape(): void {
+    const penalty = this.escapePenalties.get(this.currentArea) ?? 0;
+    this.escapePenalties.set(this.currentArea, Math.min(this.MAX_ESCAPE_PENALTY, penalty + this.ESCAPE_PENALTY));
+  }
+
+  // Fraction of its normal souls an area currently yields
+  getSoulYieldMultiplier(areaId: number = this.currentArea): number {
+    return 1 - (this.escapePenalties.get(areaId) ?? 0);
+  }
+
+  // Scale a whole soul reward by the area's yield (a reward that pays anything still pays at least 1 soul)
+  applySoulYield(souls: BigNum, areaId: number = this.currentArea): BigNum {
+    const base = souls.floor();
+    if (base.lte(0)) return base;
+    return BigNum.max(1, base.mul(this.getSoulYieldMultiplier(areaId)).floor());
+  }
+
+  // Let escape penalties in every area recover
+  update(deltaTime: number): void {
+    const recovery = this.ESCAPE_RECOVERY * deltaTime / 1000;
+    for (const [areaId, penalty] of this.escapePenalties) {
+      if (penalty <= recovery) {
+        this.escapePenalties.delete(areaId);
+      } else {
+        this.escapePenalties.set(areaId, penalty - recovery);
+      }
     }
-    return false;
   }
 
-  // Save to localStorage
-  private saveToStorage(): void {
-    try {
-      const areaState = {
-        currentArea: this.currentArea
-      };
-      localStorage.setItem('endless-horde-area', JSON.stringify(areaState));
-    } catch (error) {
-      console.warn('Failed to save area state:', error);
+  // Saves from before bosses unlocked areas by walkers defeated alone
+  private getHighestAreaByDefeats(walkersDefeated: number): number {
+    let highestUnlocked = 0;
+    for (let areaId = 1; areaId < MAX_AREAS; areaId++) {
+      const area = this.getArea(areaId);
+      if (!area || walkersDefeated < area.unlockRequirement) break;
+      highestUnlocked = areaId;
     }
+    return highestUnlocked;
   }
 
-  // Load from localStorage
+  // Save to localStorage using SaveManager
+  private saveToStorage(): void {
+    this.saveManager.saveGameState({
+      currentArea: this.currentArea,
+      unlockedArea: this.highestUnlocked
+    });
+  }
+
+  // Load from localStorage using SaveManager
   private loadFromStorage(): void {
-    try {
-      const saved = localStorage.getItem('endless-horde-area');
-      if (saved) {
-        const areaState = JSON.parse(saved);
-        this.currentArea = areaState.currentArea || 0;
-      }
-    } catch (error) {
-      console.warn('Failed to load area state, using defaults:', error);
-      this.currentArea = 0;
+    const saveData = this.saveManager.loadGameState();
+    if (saveData) {
+      const areaId = saveData.currentArea || 0;
+      this.currentArea = this.getArea(areaId) ? areaId : 0;
+
+      const unlockedArea = saveData.unlockedArea ?? this.getHighestAreaByDefeats(saveData.walkersDefeated || 0);
+      this.highestUnlocked = Math.max(this.currentArea, this.getArea(unlockedArea) ? unlockedArea : 0);
     }
   }
 
-  // Reset area progression (for testing)
+  // Reset area progression (on prestige)
   reset(): void {
     this.currentArea = 0;
+    this.highestUnlocked = 0;
+    this.escapePenalties.clear();
     this.saveToStorage();
   }
 }
\ No newline at end of file
@@ -0,0 +1,228 @@
+// Automation manager: per-upgrade auto-buy rules checked on a timer once unlocked by a prestige upgrade
+import { SaveManager } from './SaveManager.ts';
+import { UpgradeManager } from './UpgradeManager.ts';
+import { ResourceManager } from './ResourceManager.ts';
+import { IncomeTracker } from './IncomeTracker.ts';
+import { getAmountEntries } from './CurrencyDefinitions.ts';
+import { StatPipeline } from '../core/StatPipeline.ts';
+
+// cost-percent: buy while every part of the cost is at most `percent`% of that balance
+// reserve: buy while at least `souls` souls would be left afterwards
+// priority: buy in priority order, saving up for the first one that income reaches soon
+export type AutoBuyRule =
+  | { type: 'cost-percent'; percent: number }
+  | { type: 'reserve'; souls: number }
+  | { type: 'priority' };
+
+export type AutoBuyRuleType = AutoBuyRule['type'];
+
+export interface AutoBuySetting {
+  enabled: boolean;
+  rule: AutoBuyRule;
+}
+
+// Settings survive rebirths; priority lists every run upgrade, highest first
+export interface AutomationSaveData {
+  settings: { [upgradeId: string]: AutoBuySetting };
+  priority: string[];
+}
+
+// Rule used until the player picks one
+export const DEFAULT_AUTO_BUY_RULE: AutoBuyRule = { type: 'cost-percent', percent: 10 };
+
+export class AutomationManager {
+  private settings: Map<string, AutoBuySetting> = new Map();
+  private priority: string[] = [];
+  private saveManager: SaveManager;
+  private upgradeManager: UpgradeManager;
+  private resourceManager: ResourceManager;
+  private incomeTracker: IncomeTracker;
+  private stats: StatPipeline;
+  private purchaseHandler?: (upgradeId: string) => boolean;
+  private elapsedMs: number = 0;
+
+  private readonly MAX_PURCHASES_PER_CHECK = 50; // Levels one check may buy
+  private readonly SAVE_UP_MS = 60000; // Priority buying waits for an upgrade income covers within this time
+
+  constructor(
+    saveManager: SaveManager,
+    upgradeManager: UpgradeManager,
+    resourceManager: ResourceManager,
+    incomeTracker: IncomeTracker,
+    stats: StatPipeline
+  ) {
+    this.saveManager = saveManager;
+    this.upgradeManager = upgradeManager;
+    this.resourceManager = resourceManager;
+    this.incomeTracker = incomeTracker;
+    this.stats = stats;
+    this.priority = this.getDefaultPriority();
+    this.loadFromStorage();
+  }
+
+  private getDefaultPriority(): string[] {
+    return this.upgradeManager.getUpgradeDefinitions().map(definition => definition.id);
+  }
+
+  // Auto-buying is locked until the auto-buy rate stat is above zero
+  isUnlocked(): boolean {
+    return this.stats.resolve('auto-buy-rate') > 0;
+  }
+
+  // Time between rule checks
+  getCheckInterval(): number {
+    return 1000 / Math.max(1, this.stats.resolve('auto-buy-rate'));
+  }
+
+  // Advance the check timer by one simulation step
+  update(deltaTime: number): void {
+    if (!this.isUnlocked()) return;
+
+    this.elapsedMs += deltaTime;
+    const interval = this.getCheckInterval();
+    if (this.elapsedMs < interval) return;
+
+    this.elapsedMs -= interval;
+    this.runRules();
+  }
+
+  // Apply every enabled rule in priority order
+  private runRules(): void {
+    let purchases = 0;
+    let savingUp = false;
+
+    for (const upgradeId of this.priority) {
+      const setting = this.getSetting(upgradeId);
+      if (!setting.enabled) continue;
+
+      // Once priority buying is saving up, lower priority upgrades wait too
+      if (setting.rule.type === 'priority' && savingUp) continue;
+
+      while (purchases < this.MAX_PURCHASES_PER_CHECK && this.shouldBuy(upgradeId, setting.rule)) {
+        if (!this.purchaseHandler || !this.purchaseHandler(upgradeId)) break;
+        purchases++;
+      }
+
+      if (setting.rule.type === 'priority' && this.upgradeManager.canPurchaseUpgrade(upgradeId)) {
+        const waitMs = this.incomeTracker.getTimeUntilAffordable(this.upgradeManager.getUpgradeCost(upgradeId));
+        savingUp = waitMs !== null && waitMs > 0 && waitMs <= this.SAVE_UP_MS;
+      }
+    }
+  }
+
+  // Check if a rule allows buying the next level of an upgrade now
+  private shouldBuy(upgradeId: string, rule: AutoBuyRule): boolean {
+    if (!this.upgradeManager.canPurchaseUpgrade(upgradeId)) return false;
+
+    const cost = this.upgradeManager.getUpgradeCost(upgradeId);
+    if (!this.resourceManager.canAfford(cost)) return false;
+
+    switch (rule.type) {
+      case 'cost-percent':
+        return getAmountEntries(cost).every(([currency, amount]) =>
+          amount.lte(this.resourceManager.getBalance(currency).mul(rule.percent / 100))
+        );
+      case 'reserve': {
+        const soulsCost = getAmountEntries(cost).find(([currency]) => currency === 'souls')?.[1];
+        return !soulsCost || this.resourceManager.getSouls().sub(soulsCost).gte(rule.souls);
+      }
+      case 'priority':
+        return true;
+    }
+  }
+
+  // Set the handler that buys one level (the simulation routes it through its normal purchase path)
+  setPurchaseHandler(handler: (upgradeId: string) => boolean): void {
+    this.purchaseHandler = handler;
+  }
+
+  // Getters
+  getSetting(upgradeId: string): AutoBuySetting {
+    return this.settings.get(upgradeId) ?? { enabled: false, rule: DEFAULT_AUTO_BUY_RULE };
+  }
+
+  getPriority(): string[] {
+    return this.priority;
+  }
+
+  // Change an upgrade's toggle and rule (returns false for unknown upgrades)
+  configure(upgradeId: string, setting: AutoBuySetting): boolean {
+    if (!this.upgradeManager.getUpgradeDefinition(upgradeId)) return false;
+
+    this.settings.set(upgradeId, { enabled: setting.enabled, rule: AutomationManager.sanitizeRule(setting.rule) });
+    this.saveToStorage();
+    return true;
+  }
+
+  // Replace the priority order (unknown ids are dropped and missing upgrades keep their relative order at the end)
+  setPriority(upgradeIds: string[]): boolean {
+    this.priority = this.orderPriority(upgradeIds);
+    this.saveToStorage();
+    return true;
+  }
+
+  private orderPriority(upgradeIds: string[]): string[] {
+    const defaults = this.getDefaultPriority();
+    const ordered = upgradeIds.filter((upgradeId, index) => defaults.includes(upgradeId) && upgradeIds.indexOf(upgradeId) === index);
+    return [...ordered, ...defaults.filter(upgradeId => !ordered.includes(upgradeId))];
+  }
+
+  // Clamp rule parameters to sensible ranges
+  private static sanitizeRule(rule: AutoBuyRule): AutoBuyRule {
+    switch (rule?.type) {
+      case 'cost-percent':
+        return { type: 'cost-percent', percent: Math.min(100, Math.max(0, Number(rule.percent) || 0)) };
+      case 'reserve':
+        return { type: 'reserve', souls: Math.max(0, Number(rule.souls) || 0) };
+      case 'priority':
+        return { type: 'priority' };
+      default:
+        return DEFAULT_AUTO_BUY_RULE;
+    }
+  }
+
+  // Get automation data for saving
+  getAutomationData(): AutomationSaveData {
+    const settings: { [upgradeId: string]: AutoBuySetting } = {};
+    for (const [upgradeId, setting] of this.settings) {
+      settings[upgradeId] = { enabled: setting.enabled, rule: { ...setting.rule } };
+    }
+    return { settings, priority: [...this.priority] };
+  }
+
+  // Load automation data from save (settings for removed upgrades are dropped)
+  loadAutomationData(data: AutomationSaveData): void {
+    this.settings.clear();
+    for (const definition of this.upgradeManager.getUpgradeDefinitions()) {
+      const setting = data.settings?.[definition.id];
+      if (setting) {
+        this.settings.set(definition.id, { enabled: !!setting.enabled, rule: AutomationManager.sanitizeRule(setting.rule) });
+      }
+    }
+
+    this.priority = this.orderPriority(Array.isArray(data.priority) ? data.priority : []);
+  }
+
+  // Save to localStorage using SaveManager
+  private saveToStorage(): void {
+    this.saveManager.saveGameState({
+      automation: this.getAutomationData()
+    });
+  }
+
+  // Load from localStorage using SaveManager
+  private loadFromStorage(): void {
+    const saveData = this.saveManager.loadGameState();
+    if (saveData && saveData.automation) {
+      this.loadAutomationData(saveData.automation);
+    }
+  }
+
+  // Reset all automation settings (for testing)
+  reset(): void {
+    this.settings.clear();
+    this.priority = this.getDefaultPriority();
+    this.elapsedMs = 0;
+    this.saveToStorage();
+  }
+}
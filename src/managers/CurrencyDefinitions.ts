@@ -0,0 +1,40 @@
+// Currency definitions and helpers for amounts spread across several currencies
+import { BigNum, BigNumSource } from '../core/BigNum.ts';
+
+export type CurrencyId = 'souls' | 'bones' | 'brains' | 'essence';
+
+export interface CurrencyDefinition {
+  id: CurrencyId;
+  name: string;
+  color: string; // HUD text color
+  keptOnPrestige: boolean; // Balance survives a rebirth
+}
+
+// Amounts keyed by currency (costs, rewards and drops)
+export type CurrencyAmounts = Partial<Record<CurrencyId, BigNumSource>>;
+
+export const CURRENCY_DEFINITIONS: Record<CurrencyId, CurrencyDefinition> = {
+  souls: { id: 'souls', name: 'Souls', color: '#FFD700', keptOnPrestige: false },
+  bones: { id: 'bones', name: 'Bones', color: '#F5F5DC', keptOnPrestige: false },
+  brains: { id: 'brains', name: 'Brains', color: '#FF8FA3', keptOnPrestige: false },
+  essence: { id: 'essence', name: 'Essence', color: '#DA70D6', keptOnPrestige: true }
+};
+
+// Display and save order
+export const CURRENCY_ORDER: CurrencyId[] = ['souls', 'bones', 'brains', 'essence'];
+
+export function isCurrencyId(value: unknown): value is CurrencyId {
+  return CURRENCY_ORDER.some(currency => currency === value);
+}
+
+// List the non-zero entries of an amount in currency order
+export function getAmountEntries(amounts: CurrencyAmounts): [CurrencyId, BigNum][] {
+  const entries: [CurrencyId, BigNum][] = [];
+  for (const currency of CURRENCY_ORDER) {
+    const amount = amounts[currency];
+    if (amount === undefined) continue;
+    const value = BigNum.from(amount);
+    if (!value.isZero()) entries.push([currency, value]);
+  }
+  return entries;
+}
@@ -0,0 +1,151 @@
+// Income tracker: rolling souls/sec, kills per minute and time until upgrades become affordable
+import { ResourceManager } from './ResourceManager.ts';
+import { UpgradeManager } from './UpgradeManager.ts';
+import { CurrencyAmounts, CurrencyId, getAmountEntries } from './CurrencyDefinitions.ts';
+import { GameEventBus } from '../core/GameEvents.ts';
+import { BigNum } from '../core/BigNum.ts';
+
+// Rolling windows shown in the HUD (seconds of play)
+export const INCOME_WINDOWS = [10, 60, 600];
+
+// Income collected during one second of play
+interface IncomeSample {
+  income: Partial<Record<CurrencyId, BigNum>>;
+  kills: number;
+}
+
+// Cheapest-to-reach upgrade and how long until it can be bought (0 if affordable now)
+export interface UpgradeEstimate {
+  upgradeId: string;
+  label: string;
+  timeMs: number;
+}
+
+export class IncomeTracker {
+  private resourceManager: ResourceManager;
+  private upgradeManager: UpgradeManager;
+  private events: GameEventBus;
+
+  // Completed seconds, oldest first (only kill income is counted so offline awards don't skew the rates)
+  private samples: IncomeSample[] = [];
+  private current: IncomeSample = IncomeTracker.createSample();
+  private currentElapsedMs: number = 0;
+
+  private readonly MAX_SAMPLES = Math.max(...INCOME_WINDOWS);
+  private readonly ESTIMATE_WINDOW_SECONDS = 60; // Window used for affordability and offline estimates
+  private readonly MIN_OFFLINE_SAMPLES = 60; // Play needed before the observed kill rate is trusted offline
+
+  constructor(resourceManager: ResourceManager, upgradeManager: UpgradeManager, events: GameEventBus) {
+    this.resourceManager = resourceManager;
+    this.upgradeManager = upgradeManager;
+    this.events = events;
+    this.subscribe();
+  }
+
+  private static createSample(): IncomeSample {
+    return { income: {}, kills: 0 };
+  }
+
+  private subscribe(): void {
+    this.events.on('walker-defeated', event => {
+      this.addIncome('souls', event.souls);
+      for (const [currency, amount] of getAmountEntries(event.drops)) {
+        this.addIncome(currency, amount);
+      }
+      this.current.kills++;
+    });
+
+    // Income before a rebirth says nothing about the new run
+    this.events.on('prestige', () => this.reset());
+  }
+
+  private addIncome(currency: CurrencyId, amount: BigNum): void {
+    this.current.income[currency] = (this.current.income[currency] ?? BigNum.ZERO).add(amount);
+  }
+
+  // Advance play time by one simulation step, closing a sample each second
+  update(deltaTime: number): void {
+    this.currentElapsedMs += deltaTime;
+    if (this.currentElapsedMs < 1000) return;
+
+    this.currentElapsedMs -= 1000;
+    this.samples.push(this.current);
+    this.current = IncomeTracker.createSample();
+    if (this.samples.length > this.MAX_SAMPLES) {
+      this.samples.shift();
+    }
+  }
+
+  // Most recent completed seconds (fewer than requested early in a run)
+  private getRecentSamples(windowSeconds: number): IncomeSample[] {
+    return this.samples.slice(-Math.max(1, windowSeconds));
+  }
+
+  // Average income per second of a currency over the last windowSeconds of play
+  getIncomePerSecond(currency: CurrencyId, windowSeconds: number): BigNum {
+    const samples = this.getRecentSamples(windowSeconds);
+    if (samples.length === 0) return BigNum.ZERO;
+
+    const total = samples.reduce((sum, sample) => sum.add(sample.income[currency] ?? BigNum.ZERO), BigNum.ZERO);
+    return total.div(samples.length);
+  }
+
+  getSoulsPerSecond(windowSeconds: number): BigNum {
+    return this.getIncomePerSecond('souls', windowSeconds);
+  }
+
+  // Average walkers defeated per minute over the last windowSeconds of play
+  getKillsPerMinute(windowSeconds: number = 60): number {
+    const samples = this.getRecentSamples(windowSeconds);
+    if (samples.length === 0) return 0;
+
+    const kills = samples.reduce((sum, sample) => sum + sample.kills, 0);
+    return kills * 60 / samples.length;
+  }
+
+  // Seconds of play covered by the samples (up to the longest window)
+  getTrackedSeconds(): number {
+    return this.samples.length;
+  }
+
+  // Kill rate to base offline progress on, or null until enough play has been observed
+  getOfflineKillsPerMinute(): number | null {
+    if (this.samples.length < this.MIN_OFFLINE_SAMPLES) return null;
+    return this.getKillsPerMinute(this.MAX_SAMPLES);
+  }
+
+  // Time until current income covers a cost (0 if affordable now, null if a needed currency has no income)
+  getTimeUntilAffordable(cost: CurrencyAmounts): number | null {
+    let timeMs = 0;
+    for (const [currency, amount] of getAmountEntries(cost)) {
+      const shortfall = amount.sub(this.resourceManager.getBalance(currency));
+      if (!shortfall.gt(0)) continue;
+
+      const rate = this.getIncomePerSecond(currency, this.ESTIMATE_WINDOW_SECONDS);
+      if (rate.isZero()) return null;
+      timeMs = Math.max(timeMs, shortfall.div(rate).toNumber() * 1000);
+    }
+    return timeMs;
+  }
+
+  // The purchasable upgrade that current income reaches first (earliest in definition order on ties)
+  getNextUpgradeEstimate(): UpgradeEstimate | null {
+    let best: UpgradeEstimate | null = null;
+    for (const definition of this.upgradeManager.getUpgradeDefinitions()) {
+      if (!this.upgradeManager.canPurchaseUpgrade(definition.id)) continue;
+
+      const timeMs = this.getTimeUntilAffordable(this.upgradeManager.getUpgradeCost(definition.id));
+      if (timeMs !== null && (!best || timeMs < best.timeMs)) {
+        best = { upgradeId: definition.id, label: definition.label, timeMs };
+      }
+    }
+    return best;
+  }
+
+  // Forget all samples
+  reset(): void {
+    this.samples = [];
+    this.current = IncomeTracker.createSample();
+    this.currentElapsedMs = 0;
+  }
+}
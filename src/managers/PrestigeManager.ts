@@ -0,0 +1,191 @@
+// Prestige manager for rebirths, essence rewards and permanent upgrades
+import { SaveManager } from './SaveManager.ts';
+import { ResourceManager } from './ResourceManager.ts';
+import { CurrencyAmounts } from './CurrencyDefinitions.ts';
+import { UpgradeDefinition, PRESTIGE_UPGRADE_DEFINITIONS, getUpgradeLevelCost, getUnmetRequirement, getExclusiveRival } from './UpgradeDefinitions.ts';
+import { ActiveStatModifier, StatModifierSource } from '../core/StatPipeline.ts';
+import { BigNum } from '../core/BigNum.ts';
+
+// Essence itself lives in the currency ledger; the essence fields are only read from older saves
+export interface PrestigeSaveData {
+  essence?: number;
+  totalEssenceEarned?: number;
+  prestigeCount: number;
+  upgrades: { [upgradeId: string]: number };
+}
+
+export class PrestigeManager implements StatModifierSource {
+  private prestigeCount: number = 0;
+  private upgrades: Map<string, number> = new Map();
+  private saveManager: SaveManager;
+  private resourceManager: ResourceManager;
+
+  // Lifetime souls needed for the first essence (reward grows with the square root)
+  private readonly ESSENCE_SOUL_SCALE = 1000;
+
+  constructor(saveManager: SaveManager, resourceManager: ResourceManager) {
+    this.saveManager = saveManager;
+    this.resourceManager = resourceManager;
+    this.loadFromStorage();
+  }
+
+  // Get total essence earned for a lifetime soul count
+  // (capped at the largest safe integer, since essence stays a plain number)
+  private getEssenceForLifetimeSouls(lifetimeSouls: BigNum): number {
+    const essence = BigNum.max(0, lifetimeSouls).div(this.ESSENCE_SOUL_SCALE).sqrt().floor();
+    return Math.min(Number.MAX_SAFE_INTEGER, essence.toNumber());
+  }
+
+  private getTotalEssenceEarned(): number {
+    return this.resourceManager.getLifetimeEarned('essence').toNumber();
+  }
+
+  // Get essence a rebirth would award now (essence already awarded is not paid twice)
+  calculateEssenceReward(): number {
+    const lifetimeSouls = this.resourceManager.getLifetimeSouls();
+    return Math.max(0, this.getEssenceForLifetimeSouls(lifetimeSouls) - this.getTotalEssenceEarned());
+  }
+
+  // Get lifetime souls needed before the next essence is available
+  getLifetimeSoulsForNextEssence(): BigNum {
+    const lifetimeSouls = this.resourceManager.getLifetimeSouls();
+    const nextEssence = BigNum.from(Math.max(this.getTotalEssenceEarned(), this.getEssenceForLifetimeSouls(lifetimeSouls)) + 1);
+    return nextEssence.mul(nextEssence).mul(this.ESSENCE_SOUL_SCALE);
+  }
+
+  canPrestige(): boolean {
+    return this.calculateEssenceReward() > 0;
+  }
+
+  // Record a rebirth and award its essence to the ledger (returns the amount awarded)
+  prestige(): number {
+    const reward = this.calculateEssenceReward();
+    if (reward <= 0) return 0;
+
+    this.resourceManager.earn({ essence: reward });
+    this.prestigeCount++;
+    this.saveToStorage();
+    return reward;
+  }
+
+  // Getters
+  getEssence(): number {
+    return this.resourceManager.getBalance('essence').toNumber();
+  }
+
+  getPrestigeCount(): number {
+    return this.prestigeCount;
+  }
+
+  // Get all prestige upgrade definitions in panel order
+  getUpgradeDefinitions(): UpgradeDefinition[] {
+    return PRESTIGE_UPGRADE_DEFINITIONS;
+  }
+
+  getUpgradeDefinition(upgradeId: string): UpgradeDefinition | null {
+    return PRESTIGE_UPGRADE_DEFINITIONS.find(upgrade => upgrade.id === upgradeId) || null;
+  }
+
+  getUpgradeLevel(upgradeId: string): number {
+    return this.upgrades.get(upgradeId) ?? 0;
+  }
+
+  // Get the cost of the next level of a prestige upgrade
+  getUpgradeCost(upgradeId: string): CurrencyAmounts {
+    const definition = this.getUpgradeDefinition(upgradeId);
+    if (!definition) return {};
+
+    return getUpgradeLevelCost(definition, this.getUpgradeLevel(upgradeId));
+  }
+
+  // Check if all of a prestige upgrade's prerequisites have been bought and no branch sibling was chosen instead
+  isUpgradeUnlocked(upgradeId: string): boolean {
+    const definition = this.getUpgradeDefinition(upgradeId);
+    if (!definition) return false;
+    const getLevel = (id: string) => this.getUpgradeLevel(id);
+    return getUnmetRequirement(definition, getLevel) === null &&
+           getExclusiveRival(definition, PRESTIGE_UPGRADE_DEFINITIONS, getLevel) === null;
+  }
+
+  isUpgradeMaxed(upgradeId: string): boolean {
+    const definition = this.getUpgradeDefinition(upgradeId);
+    if (!definition) return true;
+    return definition.maxLevel !== undefined && this.getUpgradeLevel(upgradeId) >= definition.maxLevel;
+  }
+
+  canPurchaseUpgrade(upgradeId: string): boolean {
+    return this.isUpgradeUnlocked(upgradeId) &&
+           !this.isUpgradeMaxed(upgradeId) &&
+           this.resourceManager.canAfford(this.getUpgradeCost(upgradeId));
+  }
+
+  // Spend essence on a prestige upgrade (returns true if successful)
+  purchaseUpgrade(upgradeId: string): boolean {
+    if (!this.canPurchaseUpgrade(upgradeId)) return false;
+    if (!this.resourceManager.spend(this.getUpgradeCost(upgradeId))) return false;
+
+    this.upgrades.set(upgradeId, this.getUpgradeLevel(upgradeId) + 1);
+    this.saveToStorage();
+    return true;
+  }
+
+  // Modifiers from every purchased prestige level (for the stat pipeline)
+  getStatModifiers(): ActiveStatModifier[] {
+    const active: ActiveStatModifier[] = [];
+    for (const definition of PRESTIGE_UPGRADE_DEFINITIONS) {
+      const level = this.getUpgradeLevel(definition.id);
+      if (level <= 0) continue;
+      for (const modifier of definition.modifiers) {
+        active.push({ modifier, level });
+      }
+    }
+    return active;
+  }
+
+  // Get all prestige data for saving
+  getPrestigeData(): PrestigeSaveData {
+    const upgrades: { [upgradeId: string]: number } = {};
+    for (const [upgradeId, level] of this.upgrades) {
+      upgrades[upgradeId] = level;
+    }
+
+    return {
+      prestigeCount: this.prestigeCount,
+      upgrades
+    };
+  }
+
+  // Load prestige data from save
+  loadPrestigeData(data: PrestigeSaveData): void {
+    this.prestigeCount = data.prestigeCount || 0;
+    this.upgrades.clear();
+    for (const [upgradeId, level] of Object.entries(data.upgrades || {})) {
+      if (this.getUpgradeDefinition(upgradeId)) {
+        this.upgrades.set(upgradeId, level);
+      }
+    }
+  }
+
+  // Save to localStorage using SaveManager
+  private saveToStorage(): void {
+    this.saveManager.saveGameState({
+      prestige: this.getPrestigeData()
+    });
+  }
+
+  // Load from localStorage using SaveManager
+  private loadFromStorage(): void {
+    const saveData = this.saveManager.loadGameState();
+    if (saveData && saveData.prestige) {
+      this.loadPrestigeData(saveData.prestige);
+    }
+  }
+
+  // Reset all prestige progress (for testing)
+  reset(): void {
+    this.resourceManager.setBalance('essence', 0);
+    this.prestigeCount = 0;
+    this.upgrades.clear();
+    this.saveToStorage();
+  }
+}
@@ -1,76 +1,261 @@
-// Resource manager for souls currency and game state
-import { SaveManager } from './SaveManager.ts';
+// Resource manager: a ledger of currency balances plus the run's walker defeat counter
+import { SaveManager, GameSaveData } from './SaveManager.ts';
+import { BigNum, BigNumSource } from '../core/BigNum.ts';
+import { CurrencyId, CurrencyAmounts, CURRENCY_DEFINITIONS, CURRENCY_ORDER, getAmountEntries, isCurrencyId } from './CurrencyDefinitions.ts';
+import { GameEventBus } from '../core/GameEvents.ts';
+import { isRecord } from '../core/TypeGuards.ts';
+
+// Saved ledger entry for one currency
+export interface CurrencySaveData {
+  balance: BigNum;
+  lifetimeEarned: BigNum; // Never reset (lifetime souls drive prestige rewards)
+  runEarned: BigNum; // Earned since the last rebirth
+  runSpent: BigNum; // Spent since the last rebirth
+}
+
+// earn: income (kills, drops, offline progress, rebirth rewards)
+// spend: a purchase
+// set: loaded from a save or reset
+export type CurrencyChangeReason = 'earn' | 'spend' | 'set';
+
+export interface CurrencyChange {
+  currency: CurrencyId;
+  delta: BigNum;
+  balance: BigNum;
+  reason: CurrencyChangeReason;
+}
 
 export class ResourceManager {
-  private souls: number = 0;
+  private ledger: Map<CurrencyId, CurrencySaveData> = new Map();
   private walkersDefeated: number = 0;
   private saveManager: SaveManager;
-  
-  // Soul values for different walker types (future expansion)
-  private readonly baseSoulValue: number = 1;
+  private events: GameEventBus | null;
+  // Income is saved on a timer instead of on every kill (the whole save is rewritten each time)
+  private unsavedIncome: boolean = false;
+  private saveTimer: number = 0;
+  private readonly SAVE_INTERVAL = 5000; // ms of play between ledger saves while earning
 
-  constructor(saveManager: SaveManager) {
+  constructor(saveManager: SaveManager, events: GameEventBus | null = null) {
     this.saveManager = saveManager;
+    this.events = events;
+    this.initializeLedger();
     this.loadFromStorage();
   }
 
-  // Award souls for defeating a walker (with area multiplier)
-  awardSouls(amount: number = this.baseSoulValue, multiplier: number = 1): void {
-    const totalSouls = Math.floor(amount * multiplier);
-    this.souls += totalSouls;
+  private initializeLedger(): void {
+    this.ledger.clear();
+    for (const currency of CURRENCY_ORDER) {
+      this.ledger.set(currency, ResourceManager.createEntry());
+    }
+  }
+
+  private static createEntry(): CurrencySaveData {
+    return { balance: BigNum.ZERO, lifetimeEarned: BigNum.ZERO, runEarned: BigNum.ZERO, runSpent: BigNum.ZERO };
+  }
+
+  private getEntry(currency: CurrencyId): CurrencySaveData {
+    return this.ledger.get(currency)!;
+  }
+
+  // Award the rewards for a defeated walker (souls plus any dropped currencies)
+  awardKill(rewards: CurrencyAmounts): void {
     this.walkersDefeated++;
+    this.earn(rewards);
+  }
+
+  // Award souls and defeats earned while the player was away
+  awardOfflineProgress(souls: BigNumSource, walkersDefeated: number): void {
+    this.walkersDefeated += walkersDefeated;
+    this.earn({ souls });
     this.saveToStorage();
   }
 
-  // Spend souls (returns true if successful)
-  spendSouls(amount: number): boolean {
-    if (this.souls >= amount) {
-      this.souls -= amount;
+  // Add income to one or more currencies
+  earn(amounts: CurrencyAmounts): void {
+    const changes: CurrencyChange[] = [];
+    for (const [currency, amount] of getAmountEntries(amounts)) {
+      const entry = this.getEntry(currency);
+      entry.balance = entry.balance.add(amount);
+      entry.lifetimeEarned = entry.lifetimeEarned.add(amount);
+      entry.runEarned = entry.runEarned.add(amount);
+      changes.push({ currency, delta: amount, balance: entry.balance, reason: 'earn' });
+    }
+
+    this.unsavedIncome = true;
+    this.notifyChanges(changes);
+  }
+
+  // Save income earned since the last save once the save interval has passed
+  update(deltaTime: number): void {
+    this.saveTimer += deltaTime;
+    if (this.unsavedIncome && this.saveTimer >= this.SAVE_INTERVAL) {
+      this.saveToStorage();
+    }
+  }
+
+  // Save any income not yet written (when the page is hidden or closed)
+  flush(): void {
+    if (this.unsavedIncome) {
       this.saveToStorage();
-      return true;
     }
-    return false;
+  }
+
+  // Check if every currency in a cost is covered
+  canAfford(cost: CurrencyAmounts): boolean {
+    return getAmountEntries(cost).every(([currency, amount]) => this.getEntry(currency).balance.gte(amount));
+  }
+
+  // Spend a cost across one or more currencies; nothing is deducted unless all of it is affordable
+  spend(cost: CurrencyAmounts): boolean {
+    if (!this.canAfford(cost)) {
+      return false;
+    }
+
+    const changes: CurrencyChange[] = [];
+    for (const [currency, amount] of getAmountEntries(cost)) {
+      const entry = this.getEntry(currency);
+      entry.balance = entry.balance.sub(amount);
+      entry.runSpent = entry.runSpent.add(amount);
+      changes.push({ currency, delta: amount.negate(), balance: entry.balance, reason: 'spend' });
+    }
+
+    // Spending is saved right away so it stays in step with the purchase it paid for
+    this.saveToStorage();
+    this.notifyChanges(changes);
+    return true;
+  }
+
+  // Publish balance changes on the event bus
+  private notifyChanges(changes: CurrencyChange[]): void {
+    if (!this.events) return;
+    for (const change of changes) {
+      this.events.emit('currency-changed', change);
+    }
   }
 
   // Getters
-  getSouls(): number {
-    return this.souls;
+  getBalance(currency: CurrencyId): BigNum {
+    return this.getEntry(currency).balance;
+  }
+
+  getLifetimeEarned(currency: CurrencyId): BigNum {
+    return this.getEntry(currency).lifetimeEarned;
+  }
+
+  getRunEarned(currency: CurrencyId): BigNum {
+    return this.getEntry(currency).runEarned;
+  }
+
+  getRunSpent(currency: CurrencyId): BigNum {
+    return this.getEntry(currency).runSpent;
+  }
+
+  // Souls are the main currency, so they get shorthands
+  getSouls(): BigNum {
+    return this.getBalance('souls');
+  }
+
+  getLifetimeSouls(): BigNum {
+    return this.getLifetimeEarned('souls');
   }
 
   getWalkersDefeated(): number {
     return this.walkersDefeated;
   }
 
-  // Set values (for loading from save)
-  setSouls(amount: number): void {
-    this.souls = Math.max(0, amount);
+  // Set a balance directly (for loading and debugging; not counted as income)
+  setBalance(currency: CurrencyId, amount: BigNumSource): void {
+    const entry = this.getEntry(currency);
+    const balance = BigNum.max(0, amount);
+    const delta = balance.sub(entry.balance);
+    entry.balance = balance;
+    this.notifyChanges([{ currency, delta, balance, reason: 'set' }]);
   }
 
   setWalkersDefeated(count: number): void {
     this.walkersDefeated = Math.max(0, count);
   }
 
-  // Save to localStorage using SaveManager
+  // Start a new run after prestige (currencies kept on prestige and lifetime totals survive)
+  startNewRun(startingSouls: BigNumSource = 0): void {
+    const changes: CurrencyChange[] = [];
+    for (const currency of CURRENCY_ORDER) {
+      if (CURRENCY_DEFINITIONS[currency].keptOnPrestige) continue;
+
+      const entry = this.getEntry(currency);
+      const balance = currency === 'souls' ? BigNum.max(0, startingSouls) : BigNum.ZERO;
+      changes.push({ currency, delta: balance.sub(entry.balance), balance, reason: 'set' });
+      entry.balance = balance;
+      entry.runEarned = BigNum.ZERO;
+      entry.runSpent = BigNum.ZERO;
+    }
+    this.walkersDefeated = 0;
+    this.saveToStorage();
+    this.notifyChanges(changes);
+  }
+
+  // Get the ledger for saving
+  getResourceData(): { [currency: string]: CurrencySaveData } {
+    const data: { [currency: string]: CurrencySaveData } = {};
+    for (const currency of CURRENCY_ORDER) {
+      data[currency] = { ...this.getEntry(currency) };
+    }
+    return data;
+  }
+
+  // Load the ledger from save data (older saves only have souls, and essence in the prestige data)
+  loadResourceData(saveData: GameSaveData): void {
+    this.initializeLedger();
+
+    const souls = this.getEntry('souls');
+    souls.balance = saveData.souls;
+    // Saves from before lifetime tracking count current souls as a lower bound
+    souls.lifetimeEarned = saveData.lifetimeSouls ?? saveData.souls;
+
+    if (saveData.prestige?.essence !== undefined) {
+      const essence = this.getEntry('essence');
+      essence.balance = BigNum.from(saveData.prestige.essence);
+      essence.lifetimeEarned = BigNum.from(saveData.prestige.totalEssenceEarned ?? saveData.prestige.essence);
+    }
+
+    // Unknown currencies and malformed entries are skipped; every amount is rebuilt as a BigNum
+    for (const [currency, entry] of Object.entries(saveData.currencies ?? {})) {
+      if (!isCurrencyId(currency) || !isRecord(entry)) continue;
+      this.ledger.set(currency, {
+        balance: BigNum.fromJSON(entry.balance),
+        lifetimeEarned: BigNum.fromJSON(entry.lifetimeEarned),
+        runEarned: BigNum.fromJSON(entry.runEarned),
+        runSpent: BigNum.fromJSON(entry.runSpent)
+      });
+    }
+
+    this.walkersDefeated = saveData.walkersDefeated || 0;
+  }
+
+  // Save to localStorage using SaveManager (souls are mirrored in the top-level fields for older readers)
   private saveToStorage(): void {
     this.saveManager.saveGameState({
-      souls: this.souls,
-      walkersDefeated: this.walkersDefeated
+      souls: this.getSouls(),
+      walkersDefeated: this.walkersDefeated,
+      lifetimeSouls: this.getLifetimeSouls(),
+      currencies: this.getResourceData()
     });
+    this.unsavedIncome = false;
+    this.saveTimer = 0;
   }
 
   // Load from localStorage using SaveManager
   private loadFromStorage(): void {
     const saveData = this.saveManager.loadGameState();
     if (saveData) {
-      this.souls = saveData.souls || 0;
-      this.walkersDefeated = saveData.walkersDefeated || 0;
+      this.loadResourceData(saveData);
     }
   }
 
   // Reset game state (for testing)
   reset(): void {
-    this.souls = 0;
+    this.initializeLedger();
     this.walkersDefeated = 0;
     this.saveToStorage();
   }
-}
\ No newline at end of file
+}
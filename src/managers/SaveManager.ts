@@ -1,23 +1,86 @@
 // Comprehensive save manager for persistent game state
+import { RandomStreamsState } from '../core/RandomStreams.ts';
+import { PrestigeSaveData } from './PrestigeManager.ts';
+import { CurrencySaveData } from './ResourceManager.ts';
+import { AchievementSaveData } from './AchievementManager.ts';
+import { StatisticsSaveData, StatisticsTotals } from './StatisticsManager.ts';
+import { AutoBuyRule, AutoBuySetting, AutomationSaveData } from './AutomationManager.ts';
+import { BigNum } from '../core/BigNum.ts';
+import { filterRecord, isNumber, isRecord, isString, isStringList } from '../core/TypeGuards.ts';
+
+// Big numbers are stored as strings ("1.5e400") and revived on load; older saves hold plain numbers
 export interface GameSaveData {
   // Resource data
-  souls: number;
+  souls: BigNum;
   walkersDefeated: number;
+  lifetimeSouls?: BigNum; // Souls earned across all runs (never reset by prestige)
+  currencies?: { [currency: string]: CurrencySaveData }; // Ledger for every currency (souls are mirrored above)
   
   // Area progression
   currentArea: number;
+  unlockedArea?: number; // Highest area opened by defeating bosses (older saves derive it from walkers defeated)
   
   // Upgrade data
   upgrades: { [key: string]: { level: number; baseCost: number; costMultiplier: number } };
   
+  // Prestige progress (persists across rebirths)
+  prestige?: PrestigeSaveData;
+  
+  // Achievement progress and unlocks (persist across rebirths)
+  achievements?: AchievementSaveData;
+  
+  // Lifetime and per-run statistics
+  statistics?: StatisticsSaveData;
+  
+  // Auto-buy toggles, rules and priority order (persist across rebirths)
+  automation?: AutomationSaveData;
+  
+  // Random number generator state
+  randomState?: RandomStreamsState;
+  
+  // Horde size when last saved (used to estimate offline progress)
+  zombieCount?: number;
+  
+  // Observed kill rate when last saved (preferred over horde size for offline progress)
+  killsPerMinute?: number;
+  
   // Metadata
   saveVersion: number;
   lastSaved: number;
 }
 
+// Minimal key-value storage interface (satisfied by window.localStorage)
+export interface StorageBackend {
+  getItem(key: string): string | null;
+  setItem(key: string, value: string): void;
+  removeItem(key: string): void;
+}
+
+// In-memory storage for headless simulation runs and environments without localStorage
+export class MemoryStorage implements StorageBackend {
+  private items: Map<string, string> = new Map();
+
+  getItem(key: string): string | null {
+    return this.items.get(key) ?? null;
+  }
+
+  setItem(key: string, value: string): void {
+    this.items.set(key, value);
+  }
+
+  removeItem(key: string): void {
+    this.items.delete(key);
+  }
+}
+
 export class SaveManager {
   private readonly SAVE_KEY = 'endless-horde-complete-save';
   private readonly SAVE_VERSION = 1;
+  private storage: StorageBackend;
+
+  constructor(storage?: StorageBackend) {
+    this.storage = storage ?? (typeof localStorage !== 'undefined' ? localStorage : new MemoryStorage());
+  }
 
   // Save complete game state
   saveGameState(gameState: Partial<GameSaveData>): boolean {
@@ -25,15 +88,25 @@ export class SaveManager {
       const currentSave = this.loadGameState();
       
       const saveData: GameSaveData = {
-        souls: gameState.souls ?? currentSave?.souls ?? 0,
+        souls: gameState.souls ?? currentSave?.souls ?? BigNum.ZERO,
         walkersDefeated: gameState.walkersDefeated ?? currentSave?.walkersDefeated ?? 0,
+        lifetimeSouls: gameState.lifetimeSouls ?? currentSave?.lifetimeSouls,
+        currencies: gameState.currencies ?? currentSave?.currencies,
         currentArea: gameState.currentArea ?? currentSave?.currentArea ?? 0,
+        unlockedArea: gameState.unlockedArea ?? currentSave?.unlockedArea,
         upgrades: gameState.upgrades ?? currentSave?.upgrades ?? {},
+        prestige: gameState.prestige ?? currentSave?.prestige,
+        achievements: gameState.achievements ?? currentSave?.achievements,
+        statistics: gameState.statistics ?? currentSave?.statistics,
+        automation: gameState.automation ?? currentSave?.automation,
+        randomState: gameState.randomState ?? currentSave?.randomState,
+        zombieCount: gameState.zombieCount ?? currentSave?.zombieCount,
+        killsPerMinute: gameState.killsPerMinute ?? currentSave?.killsPerMinute,
         saveVersion: this.SAVE_VERSION,
         lastSaved: Date.now()
       };
 
-      localStorage.setItem(this.SAVE_KEY, JSON.stringify(saveData));
+      this.storage.setItem(this.SAVE_KEY, JSON.stringify(saveData));
       console.log('Game state saved successfully');
       return true;
     } catch (error) {
@@ -45,12 +118,12 @@ export class SaveManager {
   // Load complete game state
   loadGameState(): GameSaveData | null {
     try {
-      const saved = localStorage.getItem(this.SAVE_KEY);
+      const saved = this.storage.getItem(this.SAVE_KEY);
       if (!saved) {
         return null;
       }
 
-      const saveData = JSON.parse(saved) as GameSaveData;
+      const saveData = SaveManager.reviveSaveData(JSON.parse(saved));
       
       // Validate save version
       if (saveData.saveVersion !== this.SAVE_VERSION) {
@@ -65,16 +138,121 @@ export class SaveManager {
     }
   }
 
+  // Rebuild save data from parsed JSON (also used for replay initial states)
+  // Big numbers are revived into BigNum values; fields of the wrong type are dropped or defaulted
+  static reviveSaveData(raw: unknown): GameSaveData {
+    if (!isRecord(raw)) {
+      throw new Error('Save data is not an object');
+    }
+
+    return {
+      souls: BigNum.fromJSON(raw.souls),
+      walkersDefeated: isNumber(raw.walkersDefeated) ? raw.walkersDefeated : 0,
+      lifetimeSouls: raw.lifetimeSouls !== undefined ? BigNum.fromJSON(raw.lifetimeSouls) : undefined,
+      currencies: isRecord(raw.currencies) ? SaveManager.reviveCurrencies(raw.currencies) : undefined,
+      currentArea: isNumber(raw.currentArea) ? raw.currentArea : 0,
+      unlockedArea: isNumber(raw.unlockedArea) ? raw.unlockedArea : undefined,
+      upgrades: filterRecord(raw.upgrades, SaveManager.isUpgradeSave),
+      prestige: isRecord(raw.prestige) ? SaveManager.revivePrestige(raw.prestige) : undefined,
+      achievements: isRecord(raw.achievements) ? {
+        progress: filterRecord(raw.achievements.progress, isNumber),
+        unlocked: isStringList(raw.achievements.unlocked) ? raw.achievements.unlocked : []
+      } : undefined,
+      statistics: isRecord(raw.statistics) ? SaveManager.reviveStatistics(raw.statistics) : undefined,
+      automation: isRecord(raw.automation) ? {
+        settings: filterRecord(raw.automation.settings, SaveManager.isAutoBuySetting),
+        priority: isStringList(raw.automation.priority) ? raw.automation.priority : []
+      } : undefined,
+      randomState: isRecord(raw.randomState) && isNumber(raw.randomState.gameplay) && isNumber(raw.randomState.visuals)
+        ? { gameplay: raw.randomState.gameplay, visuals: raw.randomState.visuals }
+        : undefined,
+      zombieCount: isNumber(raw.zombieCount) ? raw.zombieCount : undefined,
+      killsPerMinute: isNumber(raw.killsPerMinute) ? raw.killsPerMinute : undefined,
+      saveVersion: isNumber(raw.saveVersion) ? raw.saveVersion : 0,
+      lastSaved: isNumber(raw.lastSaved) ? raw.lastSaved : Date.now() // Unknown save time counts as no time away
+    };
+  }
+
+  private static reviveCurrencies(raw: Record<string, unknown>): { [currency: string]: CurrencySaveData } {
+    const currencies: { [currency: string]: CurrencySaveData } = {};
+    for (const [currency, entry] of Object.entries(raw)) {
+      if (!isRecord(entry)) continue;
+      currencies[currency] = {
+        balance: BigNum.fromJSON(entry.balance),
+        lifetimeEarned: BigNum.fromJSON(entry.lifetimeEarned),
+        runEarned: BigNum.fromJSON(entry.runEarned),
+        runSpent: BigNum.fromJSON(entry.runSpent)
+      };
+    }
+    return currencies;
+  }
+
+  private static revivePrestige(raw: Record<string, unknown>): PrestigeSaveData {
+    return {
+      essence: isNumber(raw.essence) ? raw.essence : undefined,
+      totalEssenceEarned: isNumber(raw.totalEssenceEarned) ? raw.totalEssenceEarned : undefined,
+      prestigeCount: isNumber(raw.prestigeCount) ? raw.prestigeCount : 0,
+      upgrades: filterRecord(raw.upgrades, isNumber)
+    };
+  }
+
+  private static reviveStatistics(raw: Record<string, unknown>): StatisticsSaveData {
+    return {
+      lifetime: SaveManager.reviveStatisticsTotals(raw.lifetime),
+      run: SaveManager.reviveStatisticsTotals(raw.run),
+      soulsPerSecondHistory: Array.isArray(raw.soulsPerSecondHistory)
+        ? raw.soulsPerSecondHistory.map((value: unknown) => BigNum.fromJSON(value))
+        : []
+    };
+  }
+
+  private static reviveStatisticsTotals(raw: unknown): StatisticsTotals {
+    const totals = isRecord(raw) ? raw : {};
+    return {
+      soulsEarned: BigNum.fromJSON(totals.soulsEarned),
+      soulsSpent: BigNum.fromJSON(totals.soulsSpent),
+      walkersDefeated: isNumber(totals.walkersDefeated) ? totals.walkersDefeated : 0,
+      killsByArea: filterRecord(totals.killsByArea, isNumber),
+      killsByWalkerType: filterRecord(totals.killsByWalkerType, isNumber),
+      peakZombies: isNumber(totals.peakZombies) ? totals.peakZombies : 0,
+      peakSoulsPerSecond: BigNum.fromJSON(totals.peakSoulsPerSecond),
+      timePlayedMs: isNumber(totals.timePlayedMs) ? totals.timePlayedMs : 0,
+      timeByAreaMs: filterRecord(totals.timeByAreaMs, isNumber)
+    };
+  }
+
+  private static isUpgradeSave(value: unknown): value is GameSaveData['upgrades'][string] {
+    return isRecord(value) && isNumber(value.level) && isNumber(value.baseCost) && isNumber(value.costMultiplier);
+  }
+
+  private static isAutoBuySetting(value: unknown): value is AutoBuySetting {
+    return isRecord(value) && typeof value.enabled === 'boolean' && SaveManager.isAutoBuyRule(value.rule);
+  }
+
+  private static isAutoBuyRule(value: unknown): value is AutoBuyRule {
+    if (!isRecord(value) || !isString(value.type)) return false;
+    switch (value.type) {
+      case 'cost-percent':
+        return isNumber(value.percent);
+      case 'reserve':
+        return isNumber(value.souls);
+      case 'priority':
+        return true;
+      default:
+        return false;
+    }
+  }
+
   // Migrate old save data to new format
   private migrateSaveData(_oldSave: any): GameSaveData | null {
     try {
       // Try to migrate from individual localStorage keys
-      const legacyResourceSave = localStorage.getItem('endless-horde-save');
-      const legacyUpgradeSave = localStorage.getItem('endless-horde-upgrades');
-      const legacyAreaSave = localStorage.getItem('endless-horde-area');
+      const legacyResourceSave = this.storage.getItem('endless-horde-save');
+      const legacyUpgradeSave = this.storage.getItem('endless-horde-upgrades');
+      const legacyAreaSave = this.storage.getItem('endless-horde-area');
 
       const migratedSave: GameSaveData = {
-        souls: 0,
+        souls: BigNum.ZERO,
         walkersDefeated: 0,
         currentArea: 0,
         upgrades: {},
@@ -85,7 +263,7 @@ export class SaveManager {
       // Migrate resource data
       if (legacyResourceSave) {
         const resourceData = JSON.parse(legacyResourceSave);
-        migratedSave.souls = resourceData.souls || 0;
+        migratedSave.souls = BigNum.fromJSON(resourceData.souls);
         migratedSave.walkersDefeated = resourceData.walkersDefeated || 0;
       }
 
@@ -105,9 +283,9 @@ export class SaveManager {
       this.saveGameState(migratedSave);
       
       // Clean up old save keys
-      localStorage.removeItem('endless-horde-save');
-      localStorage.removeItem('endless-horde-upgrades');
-      localStorage.removeItem('endless-horde-area');
+      this.storage.removeItem('endless-horde-save');
+      this.storage.removeItem('endless-horde-upgrades');
+      this.storage.removeItem('endless-horde-area');
 
       console.log('Successfully migrated save data to new format');
       return migratedSave;
@@ -119,17 +297,17 @@ export class SaveManager {
 
   // Check if save data exists
   hasSaveData(): boolean {
-    return localStorage.getItem(this.SAVE_KEY) !== null;
+    return this.storage.getItem(this.SAVE_KEY) !== null;
   }
 
   // Delete save data
   deleteSaveData(): boolean {
     try {
-      localStorage.removeItem(this.SAVE_KEY);
+      this.storage.removeItem(this.SAVE_KEY);
       // Also clean up any legacy save keys
-      localStorage.removeItem('endless-horde-save');
-      localStorage.removeItem('endless-horde-upgrades');
-      localStorage.removeItem('endless-horde-area');
+      this.storage.removeItem('endless-horde-save');
+      this.storage.removeItem('endless-horde-upgrades');
+      this.storage.removeItem('endless-horde-area');
       console.log('Save data deleted successfully');
       return true;
     } catch (error) {
@@ -155,16 +333,16 @@ export class SaveManager {
   // Import save data from JSON string
   importSaveData(jsonData: string): boolean {
     try {
-      const saveData = JSON.parse(jsonData) as GameSaveData;
+      const rawData = JSON.parse(jsonData);
       
       // Basic validation
-      if (typeof saveData.souls !== 'number' || 
-          typeof saveData.walkersDefeated !== 'number' ||
-          typeof saveData.currentArea !== 'number') {
+      if (!BigNum.isSerialized(rawData.souls) || 
+          typeof rawData.walkersDefeated !== 'number' ||
+          typeof rawData.currentArea !== 'number') {
         throw new Error('Invalid save data format');
       }
 
-      return this.saveGameState(saveData);
+      return this.saveGameState(SaveManager.reviveSaveData(rawData));
     } catch (error) {
       console.warn('Failed to import save data:', error);
       return false;
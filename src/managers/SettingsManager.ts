@@ -1,4 +1,7 @@
 // Settings manager for handling user preferences and accessibility options
+import { NumberNotation } from '../core/BigNum.ts';
+import { GameMode } from '../systems/WaveSystem.ts';
+
 export interface GameSettings {
   reducedMotion: boolean;
   soundEnabled: boolean;
@@ -7,6 +10,10 @@ export interface GameSettings {
   mobileOptimizations: boolean;
   touchButtonsVisible: boolean;
   highContrastMode: boolean;
+  maxOfflineHours: number; // Cap on away time rewarded with offline progress
+  numberNotation: NumberNotation; // How large souls and costs are displayed
+  autoAdvance: boolean; // Move to each new area as soon as it unlocks
+  gameMode: GameMode; // Idle sandbox or timed waves
 }
 
 export class SettingsManager {
@@ -39,7 +46,11 @@ export class SettingsManager {
       autoSave: true,
       mobileOptimizations: isMobile,
       touchButtonsVisible: isMobile,
-      highContrastMode: false
+      highContrastMode: false,
+      maxOfflineHours: 8,
+      numberNotation: 'suffix',
+      autoAdvance: true,
+      gameMode: 'sandbox'
     };
   }
 
@@ -125,6 +136,22 @@ export class SettingsManager {
     return this.settings.highContrastMode;
   }
 
+  public getMaxOfflineHours(): number {
+    return this.settings.maxOfflineHours;
+  }
+
+  public getNumberNotation(): NumberNotation {
+    return this.settings.numberNotation;
+  }
+
+  public isAutoAdvanceEnabled(): boolean {
+    return this.settings.autoAdvance;
+  }
+
+  public getGameMode(): GameMode {
+    return this.settings.gameMode;
+  }
+
   public getSettings(): GameSettings {
     return { ...this.settings };
   }
@@ -165,6 +192,26 @@ export class SettingsManager {
     this.saveSettings();
   }
 
+  public setMaxOfflineHours(hours: number): void {
+    this.settings.maxOfflineHours = Math.max(0, hours);
+    this.saveSettings();
+  }
+
+  public setNumberNotation(notation: NumberNotation): void {
+    this.settings.numberNotation = notation;
+    this.saveSettings();
+  }
+
+  public setAutoAdvance(enabled: boolean): void {
+    this.settings.autoAdvance = enabled;
+    this.saveSettings();
+  }
+
+  public setGameMode(mode: GameMode): void {
+    this.settings.gameMode = mode;
+    this.saveSettings();
+  }
+
   // Update multiple settings at once
   public updateSettings(newSettings: Partial<GameSettings>): void {
     this.settings = { ...this.settings, ...newSettings };
@@ -187,14 +234,30 @@ export class SettingsManager {
         'Tap screen': 'Spawn zombie',
         'Pause button': 'Pause/Resume game',
         'Upgrade button': 'Toggle upgrade menu',
-        'Settings button': 'Toggle reduced motion'
+        'Prestige button': 'Toggle prestige panel',
+        'Stats button': 'Toggle statistics',
+        'Automation button': 'Toggle auto-buyer settings',
+        'Map button': 'Toggle area map (game mode and auto-advance at the top)',
+        'Buy mode buttons': 'Choose x1/x10/x100/Max in the upgrade menu',
+        'Settings button': 'Toggle reduced motion',
+        'Zombie button': 'Cycle zombie type'
       };
     } else {
       return {
         'P': 'Pause/Resume game',
         'U': 'Toggle upgrade menu',
+        'R': 'Toggle prestige panel',
+        'S': 'Toggle statistics',
+        'A': 'Toggle auto-buyer settings',
+        'T': 'Toggle area map',
+        'G': 'Switch game mode (sandbox/waves)',
+        'B': 'Cycle buy mode (x1/x10/x100/Max)',
+        'N': 'Toggle number notation (suffix/scientific)',
         'M': 'Toggle reduced motion',
         'F': 'Toggle FPS display',
+        '1-5': 'Choose zombie type',
+        'E': 'Export replay',
+        'L': 'Load replay / return to game',
         'Click/Tap': 'Spawn zombie'
       };
     }
@@ -0,0 +1,261 @@
+// Statistics manager: lifetime and per-run totals recorded from gameplay events, plus a souls/sec history
+import { SaveManager } from './SaveManager.ts';
+import { AreaManager } from './AreaManager.ts';
+import { AreaConfig } from './AreaDefinitions.ts';
+import { GameEventBus } from '../core/GameEvents.ts';
+import { BigNum } from '../core/BigNum.ts';
+import { WalkerArchetypeId, getWalkerArchetype } from '../entities/WalkerArchetypes.ts';
+
+export interface StatisticsTotals {
+  soulsEarned: BigNum; // Includes offline progress
+  soulsSpent: BigNum;
+  walkersDefeated: number;
+  killsByArea: { [areaId: string]: number };
+  killsByWalkerType: { [archetype: string]: number };
+  peakZombies: number;
+  peakSoulsPerSecond: BigNum; // Best rolling average over RATE_WINDOW_SECONDS of kills
+  timePlayedMs: number; // Game time (pauses and time away are not counted)
+  timeByAreaMs: { [areaId: string]: number };
+}
+
+export interface StatisticsSaveData {
+  lifetime: StatisticsTotals;
+  run: StatisticsTotals; // Since the last rebirth
+  soulsPerSecondHistory: BigNum[]; // Average souls/sec for each recent minute of play, oldest first
+}
+
+// lifetime: every run; run: since the last rebirth
+export type StatisticsScope = 'lifetime' | 'run';
+
+export class StatisticsManager {
+  private lifetime: StatisticsTotals = StatisticsManager.createTotals();
+  private run: StatisticsTotals = StatisticsManager.createTotals();
+  private soulsPerSecondHistory: BigNum[] = [];
+  private saveManager: SaveManager;
+  private areaManager: AreaManager;
+  private events: GameEventBus;
+
+  // Souls from kills in the current second and minute of play (not saved; a partial minute is dropped on reload)
+  private secondIncome: BigNum = BigNum.ZERO;
+  private secondElapsedMs: number = 0;
+  private recentSeconds: BigNum[] = [];
+  private minuteIncome: BigNum = BigNum.ZERO;
+  private minuteElapsedMs: number = 0;
+
+  private readonly RATE_WINDOW_SECONDS = 10; // Peak souls/sec is measured over this many seconds
+  private readonly HISTORY_MINUTES = 60; // Sparklines cover the last hour
+
+  constructor(saveManager: SaveManager, areaManager: AreaManager, events: GameEventBus) {
+    this.saveManager = saveManager;
+    this.areaManager = areaManager;
+    this.events = events;
+    this.loadFromStorage();
+    this.subscribe();
+  }
+
+  private static createTotals(): StatisticsTotals {
+    return {
+      soulsEarned: BigNum.ZERO,
+      soulsSpent: BigNum.ZERO,
+      walkersDefeated: 0,
+      killsByArea: {},
+      killsByWalkerType: {},
+      peakZombies: 0,
+      peakSoulsPerSecond: BigNum.ZERO,
+      timePlayedMs: 0,
+      timeByAreaMs: {}
+    };
+  }
+
+  // Record totals from gameplay events
+  private subscribe(): void {
+    this.events.on('walker-defeated', event => this.recordWalkerDefeated(event.archetype, event.souls));
+
+    this.events.on('currency-changed', change => {
+      if (change.currency !== 'souls') return;
+      if (change.reason === 'earn') {
+        this.addToTotals(totals => { totals.soulsEarned = totals.soulsEarned.add(change.delta); });
+      } else if (change.reason === 'spend') {
+        this.addToTotals(totals => { totals.soulsSpent = totals.soulsSpent.sub(change.delta); });
+      }
+    });
+
+    this.events.on('zombie-spawned', event => {
+      this.addToTotals(totals => { totals.peakZombies = Math.max(totals.peakZombies, event.zombieCount); });
+    });
+
+    // A rebirth starts a fresh run
+    this.events.on('prestige', () => {
+      this.run = StatisticsManager.createTotals();
+      this.saveToStorage();
+    });
+  }
+
+  private recordWalkerDefeated(archetype: WalkerArchetypeId, souls: BigNum): void {
+    const areaKey = String(this.areaManager.getCurrentAreaId());
+    this.addToTotals(totals => {
+      totals.walkersDefeated++;
+      totals.killsByArea[areaKey] = (totals.killsByArea[areaKey] ?? 0) + 1;
+      totals.killsByWalkerType[archetype] = (totals.killsByWalkerType[archetype] ?? 0) + 1;
+    });
+
+    this.secondIncome = this.secondIncome.add(souls);
+    this.minuteIncome = this.minuteIncome.add(souls);
+  }
+
+  // Apply a change to both the lifetime and run totals
+  private addToTotals(change: (totals: StatisticsTotals) => void): void {
+    change(this.lifetime);
+    change(this.run);
+  }
+
+  // Advance play time by one simulation step (saves once per minute of play)
+  update(deltaTime: number): void {
+    const areaKey = String(this.areaManager.getCurrentAreaId());
+    this.addToTotals(totals => {
+      totals.timePlayedMs += deltaTime;
+      totals.timeByAreaMs[areaKey] = (totals.timeByAreaMs[areaKey] ?? 0) + deltaTime;
+    });
+
+    this.secondElapsedMs += deltaTime;
+    if (this.secondElapsedMs >= 1000) {
+      this.secondElapsedMs -= 1000;
+      this.completeSecond();
+    }
+
+    this.minuteElapsedMs += deltaTime;
+    if (this.minuteElapsedMs >= 60000) {
+      this.minuteElapsedMs -= 60000;
+      this.completeMinute();
+    }
+  }
+
+  // Close a second of income and check the rolling souls/sec for a new peak
+  private completeSecond(): void {
+    this.recentSeconds.push(this.secondIncome);
+    this.secondIncome = BigNum.ZERO;
+    if (this.recentSeconds.length > this.RATE_WINDOW_SECONDS) {
+      this.recentSeconds.shift();
+    }
+    if (this.recentSeconds.length < this.RATE_WINDOW_SECONDS) return;
+
+    const soulsPerSecond = this.recentSeconds
+      .reduce((sum, income) => sum.add(income), BigNum.ZERO)
+      .div(this.RATE_WINDOW_SECONDS);
+    this.addToTotals(totals => { totals.peakSoulsPerSecond = BigNum.max(totals.peakSoulsPerSecond, soulsPerSecond); });
+  }
+
+  // Close a minute of income into the sparkline history
+  private completeMinute(): void {
+    this.soulsPerSecondHistory.push(this.minuteIncome.div(60));
+    this.minuteIncome = BigNum.ZERO;
+    if (this.soulsPerSecondHistory.length > this.HISTORY_MINUTES) {
+      this.soulsPerSecondHistory.shift();
+    }
+    this.saveToStorage();
+  }
+
+  // Getters
+  getTotals(scope: StatisticsScope): StatisticsTotals {
+    return scope === 'lifetime' ? this.lifetime : this.run;
+  }
+
+  getSoulsPerSecondHistory(): BigNum[] {
+    return this.soulsPerSecondHistory;
+  }
+
+  // Areas with recorded time or kills, in area order (there can be far more areas than were ever visited)
+  getVisitedAreas(): AreaConfig[] {
+    const areaIds = new Set([...Object.keys(this.lifetime.timeByAreaMs), ...Object.keys(this.lifetime.killsByArea)].map(Number));
+    areaIds.add(this.areaManager.getCurrentAreaId());
+    return [...areaIds]
+      .sort((a, b) => a - b)
+      .map(areaId => this.areaManager.getArea(areaId))
+      .filter((area): area is AreaConfig => area !== null);
+  }
+
+  // Export every statistic as CSV (one row per statistic, with run and lifetime columns)
+  exportCSV(): string {
+    const rows: (string | number)[][] = [['statistic', 'run', 'lifetime']];
+    const addRow = (name: string, getValue: (totals: StatisticsTotals) => string | number) => {
+      rows.push([name, getValue(this.run), getValue(this.lifetime)]);
+    };
+
+    addRow('Souls earned', totals => totals.soulsEarned.toString());
+    addRow('Souls spent', totals => totals.soulsSpent.toString());
+    addRow('Walkers defeated', totals => totals.walkersDefeated);
+    addRow('Peak zombies', totals => totals.peakZombies);
+    addRow('Peak souls per second', totals => totals.peakSoulsPerSecond.toString());
+    addRow('Time played (s)', totals => Math.floor(totals.timePlayedMs / 1000));
+
+    for (const area of this.getVisitedAreas()) {
+      addRow(`Kills in ${area.name}`, totals => totals.killsByArea[area.id] ?? 0);
+      addRow(`Time in ${area.name} (s)`, totals => Math.floor((totals.timeByAreaMs[area.id] ?? 0) / 1000));
+    }
+
+    const archetypes = new Set([...Object.keys(this.lifetime.killsByWalkerType), ...Object.keys(this.run.killsByWalkerType)]);
+    for (const archetype of archetypes) {
+      addRow(`${getWalkerArchetype(archetype as WalkerArchetypeId).name} kills`, totals => totals.killsByWalkerType[archetype] ?? 0);
+    }
+
+    // Souls/sec history, oldest minute first
+    this.soulsPerSecondHistory.forEach((soulsPerSecond, index) => {
+      rows.push([`Souls per second (${this.soulsPerSecondHistory.length - index} min ago)`, '', soulsPerSecond.toString()]);
+    });
+
+    return rows.map(row => row.map(StatisticsManager.escapeCSV).join(',')).join('\n');
+  }
+
+  private static escapeCSV(value: string | number): string {
+    const text = String(value);
+    return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  }
+
+  // Get statistics data for saving
+  getStatisticsData(): StatisticsSaveData {
+    return {
+      lifetime: StatisticsManager.copyTotals(this.lifetime),
+      run: StatisticsManager.copyTotals(this.run),
+      soulsPerSecondHistory: [...this.soulsPerSecondHistory]
+    };
+  }
+
+  private static copyTotals(totals: StatisticsTotals): StatisticsTotals {
+    return {
+      ...totals,
+      killsByArea: { ...totals.killsByArea },
+      killsByWalkerType: { ...totals.killsByWalkerType },
+      timeByAreaMs: { ...totals.timeByAreaMs }
+    };
+  }
+
+  // Load statistics from save data (missing fields start from zero)
+  loadStatisticsData(data: StatisticsSaveData): void {
+    this.lifetime = { ...StatisticsManager.createTotals(), ...data.lifetime };
+    this.run = { ...StatisticsManager.createTotals(), ...data.run };
+    this.soulsPerSecondHistory = (data.soulsPerSecondHistory ?? []).slice(-this.HISTORY_MINUTES);
+  }
+
+  // Save to localStorage using SaveManager
+  private saveToStorage(): void {
+    this.saveManager.saveGameState({
+      statistics: this.getStatisticsData()
+    });
+  }
+
+  // Load from localStorage using SaveManager
+  private loadFromStorage(): void {
+    const saveData = this.saveManager.loadGameState();
+    if (saveData && saveData.statistics) {
+      this.loadStatisticsData(saveData.statistics);
+    }
+  }
+
+  // Reset all statistics (for testing)
+  reset(): void {
+    this.lifetime = StatisticsManager.createTotals();
+    this.run = StatisticsManager.createTotals();
+    this.soulsPerSecondHistory = [];
+    this.saveToStorage();
+  }
+}
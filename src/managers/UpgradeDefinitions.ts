@@ -0,0 +1,290 @@
+// Declarative upgrade definitions shared by run upgrades and prestige upgrades
+import { StatModifier } from '../core/StatPipeline.ts';
+import { BigNum } from '../core/BigNum.ts';
+import { CurrencyId, CurrencyAmounts } from './CurrencyDefinitions.ts';
+import { ZombieTypeId, ZOMBIE_TYPES, ZOMBIE_TYPE_ORDER } from '../entities/ZombieTypes.ts';
+
+export interface UpgradeCostCurve {
+  base: number; // Cost of the first level
+  multiplier: number; // Cost growth per level
+  currency?: CurrencyId; // Defaults to souls
+}
+
+export interface UpgradeRequirement {
+  id: string;
+  level: number; // Minimum level of the required upgrade
+}
+
+export interface UpgradeDefinition {
+  id: string;
+  label: string;
+  description: string;
+  cost: UpgradeCostCurve;
+  extraCosts?: UpgradeCostCurve[]; // Other currencies paid alongside the main cost on every level
+  maxLevel?: number; // Unlimited when omitted
+  requires?: UpgradeRequirement[];
+  exclusiveGroup?: string; // Branch choice: buying one upgrade in the group locks the others
+  zombieType?: ZombieTypeId; // Per-type track (only shown while that type is selected)
+  modifiers: StatModifier[];
+}
+
+// Get the upgrade ID for a zombie type's upgrade track (e.g. 'brute-damage')
+export function getZombieTypeUpgradeId(typeId: ZombieTypeId, track: 'speed' | 'damage'): string {
+  return `${typeId}-${track}`;
+}
+
+// Every cost curve of an upgrade (main cost first)
+export function getCostCurves(definition: UpgradeDefinition): UpgradeCostCurve[] {
+  return [definition.cost, ...(definition.extraCosts ?? [])];
+}
+
+// Unfloored cost of a single level on a curve: base * r^level
+function getRawLevelCost(curve: UpgradeCostCurve, level: number): BigNum {
+  return BigNum.from(curve.multiplier).pow(level).mul(curve.base);
+}
+
+// Total cost of buying several levels on one curve: the geometric series
+// base * r^level * (r^count - 1) / (r - 1), floored once for the whole purchase
+function getCurveBulkCost(curve: UpgradeCostCurve, level: number, count: number): BigNum {
+  if (count <= 0) return BigNum.ZERO;
+  const firstLevelCost = getRawLevelCost(curve, level);
+  if (curve.multiplier === 1) {
+    return firstLevelCost.mul(count).floor();
+  }
+  // The series factor is exactly 1 for a single level, so x1 costs match the per-level cost
+  const seriesFactor = BigNum.from(curve.multiplier).pow(count).sub(1).div(curve.multiplier - 1);
+  return firstLevelCost.mul(seriesFactor).floor();
+}
+
+const MAX_AFFORDABLE_LEVELS = Number.MAX_SAFE_INTEGER; // Flat curves and huge budgets would otherwise give Infinity
+const BOUNDARY_CORRECTION_STEPS = 8; // Floating-point error only moves the estimate by a level or two
+
+// Most levels affordable on one curve, by inverting the geometric series:
+// count = floor(log_r(1 + budget * (r - 1) / (base * r^level)))
+function getCurveMaxAffordable(curve: UpgradeCostCurve, level: number, budget: BigNum): number {
+  const firstLevelCost = getRawLevelCost(curve, level);
+  if (!budget.gt(0) || !firstLevelCost.gt(0)) return 0;
+
+  const estimate = curve.multiplier === 1
+    ? Math.floor(budget.div(firstLevelCost).toNumber())
+    : Math.floor(budget.mul(curve.multiplier - 1).div(firstLevelCost).add(1).log10() / Math.log10(curve.multiplier));
+  if (Number.isNaN(estimate)) return 0;
+  let count = Math.min(estimate, MAX_AFFORDABLE_LEVELS);
+
+  // Correct for floating-point error at the boundary (bounded, since costs this large can't tell levels apart)
+  for (let step = 0; step < BOUNDARY_CORRECTION_STEPS && count > 0 && getCurveBulkCost(curve, level, count).gt(budget); step++) {
+    count--;
+  }
+  for (let step = 0; step < BOUNDARY_CORRECTION_STEPS && count < MAX_AFFORDABLE_LEVELS && getCurveBulkCost(curve, level, count + 1).lte(budget); step++) {
+    count++;
+  }
+  return count;
+}
+
+// Cost of the next level in every currency the upgrade uses
+export function getUpgradeLevelCost(definition: UpgradeDefinition, level: number): CurrencyAmounts {
+  return getBulkUpgradeCost(definition, level, 1);
+}
+
+// Total cost of buying several levels at once, per currency
+export function getBulkUpgradeCost(definition: UpgradeDefinition, level: number, count: number): CurrencyAmounts {
+  const cost: CurrencyAmounts = {};
+  for (const curve of getCostCurves(definition)) {
+    const currency = curve.currency ?? 'souls';
+    cost[currency] = getCurveBulkCost(curve, level, count).add(cost[currency] ?? 0);
+  }
+  return cost;
+}
+
+// Most levels affordable with the given balances (the scarcest currency decides)
+export function getMaxAffordableLevels(definition: UpgradeDefinition, level: number, getBalance: (currency: CurrencyId) => BigNum): number {
+  return Math.min(...getCostCurves(definition).map(curve =>
+    getCurveMaxAffordable(curve, level, getBalance(curve.currency ?? 'souls'))
+  ));
+}
+
+// Get the first prerequisite that isn't met yet (null when unlocked)
+export function getUnmetRequirement(definition: UpgradeDefinition, getLevel: (upgradeId: string) => number): UpgradeRequirement | null {
+  return (definition.requires ?? []).find(requirement => getLevel(requirement.id) < requirement.level) ?? null;
+}
+
+// Get the branch sibling that was bought instead of this upgrade (null when still available)
+export function getExclusiveRival(definition: UpgradeDefinition, definitions: UpgradeDefinition[], getLevel: (upgradeId: string) => number): UpgradeDefinition | null {
+  if (!definition.exclusiveGroup) return null;
+  return definitions.find(other =>
+    other.id !== definition.id &&
+    other.exclusiveGroup === definition.exclusiveGroup &&
+    getLevel(other.id) > 0
+  ) ?? null;
+}
+
+// Run upgrades bought with souls (reset on prestige)
+export const UPGRADE_DEFINITIONS: UpgradeDefinition[] = [
+  {
+    id: 'zombie-speed',
+    label: 'Zombie Speed',
+    description: 'Increase zombie movement speed (+20%)',
+    cost: { base: 10, multiplier: 1.5 },
+    modifiers: [{ stat: 'zombie-speed', type: 'percent', value: 0.2 }]
+  },
+  {
+    id: 'max-zombies',
+    label: 'Max Zombies',
+    description: 'Increase maximum zombie count (+5)',
+    cost: { base: 25, multiplier: 1.5 },
+    modifiers: [{ stat: 'max-zombies', type: 'add', value: 5 }]
+  },
+  {
+    id: 'zombie-health',
+    label: 'Zombie Health',
+    description: 'Increase zombie max health (+25%)',
+    cost: { base: 30, multiplier: 1.6 },
+    modifiers: [{ stat: 'zombie-max-health', type: 'percent', value: 0.25 }]
+  },
+  {
+    id: 'zombie-regen',
+    label: 'Zombie Regeneration',
+    description: 'Regenerate health (+0.25/s)',
+    cost: { base: 50, multiplier: 1.7 },
+    requires: [{ id: 'zombie-health', level: 1 }],
+    modifiers: [{ stat: 'zombie-health-regen', type: 'add', value: 0.25 }]
+  },
+  {
+    id: 'infection',
+    label: 'Infection',
+    description: 'Fallen walkers may rise (+5%)',
+    cost: { base: 75, multiplier: 1.8 },
+    maxLevel: 10, // Reaches the 50% infection cap
+    requires: [{ id: 'max-zombies', level: 2 }],
+    modifiers: [{ stat: 'infection-chance', type: 'add', value: 0.05 }]
+  },
+  {
+    id: 'dread',
+    label: 'Dread',
+    description: 'Walkers move slower (-5%)',
+    cost: { base: 40, multiplier: 1.7 },
+    maxLevel: 10,
+    requires: [{ id: 'zombie-speed', level: 2 }],
+    modifiers: [{ stat: 'walker-speed', type: 'percent', value: -0.05 }]
+  },
+
+  // Mutation branch: a hard-hitting horde or a durable one
+  {
+    id: 'bloodlust',
+    label: 'Bloodlust',
+    description: 'All zombies deal more damage (+20%)',
+    cost: { base: 150, multiplier: 1.9 },
+    maxLevel: 5,
+    extraCosts: [{ base: 3, multiplier: 1.6, currency: 'brains' }],
+    requires: [{ id: 'zombie-health', level: 3 }],
+    exclusiveGroup: 'mutation',
+    modifiers: [{ stat: 'zombie-damage', type: 'percent', value: 0.2 }]
+  },
+  {
+    id: 'thick-hide',
+    label: 'Thick Hide',
+    description: 'Increase zombie max health (+40%)',
+    cost: { base: 150, multiplier: 1.9 },
+    maxLevel: 5,
+    extraCosts: [{ base: 5, multiplier: 1.6, currency: 'bones' }],
+    requires: [{ id: 'zombie-health', level: 3 }],
+    exclusiveGroup: 'mutation',
+    modifiers: [{ stat: 'zombie-max-health', type: 'percent', value: 0.4 }]
+  },
+
+  // Harvest branch: more souls or weaker walkers
+  {
+    id: 'soul-siphon',
+    label: 'Soul Siphon',
+    description: 'Earn more souls from kills (+15%)',
+    cost: { base: 200, multiplier: 2 },
+    maxLevel: 5,
+    extraCosts: [{ base: 5, multiplier: 1.7, currency: 'brains' }],
+    requires: [{ id: 'infection', level: 2 }],
+    exclusiveGroup: 'harvest',
+    modifiers: [{ stat: 'soul-gain', type: 'percent', value: 0.15 }]
+  },
+  {
+    id: 'rot',
+    label: 'Rot',
+    description: 'Walkers spawn with less health (-10%)',
+    cost: { base: 200, multiplier: 2 },
+    maxLevel: 5,
+    extraCosts: [{ base: 8, multiplier: 1.7, currency: 'bones' }],
+    requires: [{ id: 'infection', level: 2 }],
+    exclusiveGroup: 'harvest',
+    modifiers: [{ stat: 'walker-health', type: 'percent', value: -0.1 }]
+  },
+
+  // Each zombie type has its own speed and damage tracks
+  ...ZOMBIE_TYPE_ORDER.flatMap((typeId): UpgradeDefinition[] => {
+    const zombieType = ZOMBIE_TYPES[typeId];
+    const name = zombieType.name.toLowerCase();
+    return [
+      {
+        id: getZombieTypeUpgradeId(typeId, 'speed'),
+        label: `${zombieType.name} Speed`,
+        description: `Increase ${name} speed (+15%)`,
+        cost: { base: zombieType.upgradeBaseCost, multiplier: 1.6 },
+        zombieType: typeId,
+        modifiers: [{ stat: 'zombie-speed', type: 'percent', value: 0.15, zombieType: typeId }]
+      },
+      {
+        id: getZombieTypeUpgradeId(typeId, 'damage'),
+        label: `${zombieType.name} Damage`,
+        description: `Increase ${name} damage (+25%)`,
+        cost: { base: Math.floor(zombieType.upgradeBaseCost * 1.5), multiplier: 1.7 },
+        zombieType: typeId,
+        modifiers: [{ stat: 'zombie-damage', type: 'percent', value: 0.25, zombieType: typeId }]
+      }
+    ];
+  })
+];
+
+// Permanent upgrades bought with essence (survive every rebirth)
+export const PRESTIGE_UPGRADE_DEFINITIONS: UpgradeDefinition[] = [
+  {
+    id: 'soul-harvest',
+    label: 'Soul Harvest',
+    description: '+25% souls from every kill',
+    cost: { base: 1, multiplier: 2, currency: 'essence' },
+    maxLevel: 20,
+    modifiers: [{ stat: 'soul-gain', type: 'percent', value: 0.25 }]
+  },
+  {
+    id: 'swift-horde',
+    label: 'Swift Horde',
+    description: '+10% speed for all zombies',
+    cost: { base: 2, multiplier: 2, currency: 'essence' },
+    maxLevel: 10,
+    requires: [{ id: 'soul-harvest', level: 1 }],
+    modifiers: [{ stat: 'zombie-speed', type: 'percent', value: 0.1 }]
+  },
+  {
+    id: 'legion',
+    label: 'Legion',
+    description: '+2 maximum zombies',
+    cost: { base: 2, multiplier: 2.5, currency: 'essence' },
+    maxLevel: 10,
+    requires: [{ id: 'soul-harvest', level: 1 }],
+    modifiers: [{ stat: 'max-zombies', type: 'add', value: 2 }]
+  },
+  {
+    id: 'head-start',
+    label: 'Head Start',
+    description: 'Begin each run with +50 souls',
+    cost: { base: 3, multiplier: 2, currency: 'essence' },
+    maxLevel: 5,
+    requires: [{ id: 'legion', level: 1 }],
+    modifiers: [{ stat: 'starting-souls', type: 'add', value: 50 }]
+  },
+  {
+    id: 'mindless-servants',
+    label: 'Mindless Servants',
+    description: 'Unlock the auto-buyer (+1 rule check per second)',
+    cost: { base: 3, multiplier: 3, currency: 'essence' },
+    maxLevel: 4,
+    requires: [{ id: 'soul-harvest', level: 1 }],
+    modifiers: [{ stat: 'auto-buy-rate', type: 'add', value: 1 }]
+  }
+];
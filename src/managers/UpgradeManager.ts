@@ -1,5 +1,9 @@
-// Upgrade manager for handling upgrade levels and effects
+// Upgrade manager for handling upgrade levels (effects are resolved by the stat pipeline)
 import { SaveManager } from './SaveManager.ts';
+import { UpgradeDefinition, UPGRADE_DEFINITIONS, getUpgradeLevelCost, getBulkUpgradeCost, getMaxAffordableLevels, getUnmetRequirement, getExclusiveRival } from './UpgradeDefinitions.ts';
+import { ActiveStatModifier, StatModifierSource, StatPipeline } from '../core/StatPipeline.ts';
+import { BigNum } from '../core/BigNum.ts';
+import { CurrencyId, CurrencyAmounts, getAmountEntries } from './CurrencyDefinitions.ts';
 
 export interface UpgradeData {
   level: number;
@@ -7,8 +11,21 @@ export interface UpgradeData {
   costMultiplier: number;
 }
 
-export class UpgradeManager {
-  private upgrades: Map<string, UpgradeData> = new Map();
+// How many levels one click buys ('max' buys as many as the player can afford)
+export type PurchaseMode = 1 | 10 | 100 | 'max';
+
+export const PURCHASE_MODES: PurchaseMode[] = [1, 10, 100, 'max'];
+
+// Levels and total cost a purchase mode would buy right now
+export interface BulkPurchase {
+  count: number;
+  cost: CurrencyAmounts;
+  resultingLevel: number;
+  affordable: boolean;
+}
+
+export class UpgradeManager implements StatModifierSource {
+  private levels: Map<string, number> = new Map();
   private saveManager: SaveManager;
 
   constructor(saveManager: SaveManager) {
@@ -18,61 +35,135 @@ export class UpgradeManager {
   }
 
   private initializeUpgrades(): void {
-    // Initialize upgrade data
-    this.upgrades.set('zombie-speed', {
-      level: 0,
-      baseCost: 10,
-      costMultiplier: 1.5
-    });
+    this.levels.clear();
+    for (const definition of UPGRADE_DEFINITIONS) {
+      this.levels.set(definition.id, 0);
+    }
+  }
 
-    this.upgrades.set('max-zombies', {
-      level: 0,
-      baseCost: 25,
-      costMultiplier: 1.5
-    });
+  // Get all upgrade definitions in menu order
+  getUpgradeDefinitions(): UpgradeDefinition[] {
+    return UPGRADE_DEFINITIONS;
+  }
+
+  getUpgradeDefinition(upgradeId: string): UpgradeDefinition | null {
+    return UPGRADE_DEFINITIONS.find(definition => definition.id === upgradeId) || null;
+  }
+
+  // Check if an upgrade changes the stats of existing zombies
+  affectsZombies(upgradeId: string): boolean {
+    const definition = this.getUpgradeDefinition(upgradeId);
+    return definition ? StatPipeline.affectsZombies(definition.modifiers) : false;
   }
 
   // Get current upgrade level
   getUpgradeLevel(upgradeId: string): number {
-    const upgrade = this.upgrades.get(upgradeId);
-    return upgrade ? upgrade.level : 0;
+    return this.levels.get(upgradeId) ?? 0;
   }
 
   // Get cost for next upgrade level
-  getUpgradeCost(upgradeId: string): number {
-    const upgrade = this.upgrades.get(upgradeId);
-    if (!upgrade) return 0;
-    
-    return Math.floor(upgrade.baseCost * Math.pow(upgrade.costMultiplier, upgrade.level));
+  getUpgradeCost(upgradeId: string): CurrencyAmounts {
+    const definition = this.getUpgradeDefinition(upgradeId);
+    if (!definition) return {};
+
+    return getUpgradeLevelCost(definition, this.getUpgradeLevel(upgradeId));
   }
 
-  // Purchase an upgrade (returns true if successful)
-  purchaseUpgrade(upgradeId: string): boolean {
-    const upgrade = this.upgrades.get(upgradeId);
-    if (!upgrade) return false;
+  // Get total cost of the next count levels
+  getBulkUpgradeCost(upgradeId: string, count: number): CurrencyAmounts {
+    const definition = this.getUpgradeDefinition(upgradeId);
+    if (!definition) return {};
 
-    upgrade.level++;
-    this.saveToStorage();
-    return true;
+    return getBulkUpgradeCost(definition, this.getUpgradeLevel(upgradeId), count);
+  }
+
+  // Get levels left before an upgrade is maxed (Infinity when uncapped)
+  getRemainingLevels(upgradeId: string): number {
+    const definition = this.getUpgradeDefinition(upgradeId);
+    if (!definition) return 0;
+    if (definition.maxLevel === undefined) return Infinity;
+
+    return Math.max(0, definition.maxLevel - this.getUpgradeLevel(upgradeId));
+  }
+
+  // Preview a purchase in the given mode with the balances available
+  // (fixed modes buy exactly that many levels, capped at max level; 'max' shows the next level when none are affordable)
+  getBulkPurchase(upgradeId: string, mode: PurchaseMode, getBalance: (currency: CurrencyId) => BigNum): BulkPurchase {
+    const definition = this.getUpgradeDefinition(upgradeId);
+    const level = this.getUpgradeLevel(upgradeId);
+    const remaining = this.getRemainingLevels(upgradeId);
+    if (!definition || remaining <= 0) {
+      return { count: 0, cost: {}, resultingLevel: level, affordable: false };
+    }
+
+    let count = mode === 'max'
+      ? Math.min(remaining, getMaxAffordableLevels(definition, level, getBalance))
+      : Math.min(remaining, mode);
+    const affordable = count > 0 && getAmountEntries(getBulkUpgradeCost(definition, level, count))
+      .every(([currency, amount]) => getBalance(currency).gte(amount));
+    if (count === 0) count = 1;
+
+    const cost = getBulkUpgradeCost(definition, level, count);
+    return { count, cost, resultingLevel: level + count, affordable };
+  }
+
+  // Check if all of an upgrade's prerequisites are met and no branch sibling was chosen instead
+  isUpgradeUnlocked(upgradeId: string): boolean {
+    const definition = this.getUpgradeDefinition(upgradeId);
+    if (!definition) return false;
+
+    const getLevel = (id: string) => this.getUpgradeLevel(id);
+    return getUnmetRequirement(definition, getLevel) === null &&
+           getExclusiveRival(definition, UPGRADE_DEFINITIONS, getLevel) === null;
+  }
+
+  // Get the branch sibling that locks this upgrade (null when not locked by a branch choice)
+  getExclusiveRival(upgradeId: string): UpgradeDefinition | null {
+    const definition = this.getUpgradeDefinition(upgradeId);
+    if (!definition) return null;
+
+    return getExclusiveRival(definition, UPGRADE_DEFINITIONS, id => this.getUpgradeLevel(id));
+  }
+
+  isUpgradeMaxed(upgradeId: string): boolean {
+    const definition = this.getUpgradeDefinition(upgradeId);
+    if (!definition) return true;
+
+    return definition.maxLevel !== undefined && this.getUpgradeLevel(upgradeId) >= definition.maxLevel;
   }
 
-  // Get zombie speed multiplier based on upgrades
-  getZombieSpeedMultiplier(): number {
-    const speedLevel = this.getUpgradeLevel('zombie-speed');
-    return 1 + (speedLevel * 0.2); // 20% speed increase per level
+  // Check if the next level can be bought (cost is checked by the caller)
+  canPurchaseUpgrade(upgradeId: string): boolean {
+    return this.isUpgradeUnlocked(upgradeId) && !this.isUpgradeMaxed(upgradeId);
+  }
+
+  // Purchase one or more levels of an upgrade (returns true if successful)
+  purchaseUpgrade(upgradeId: string, count: number = 1): boolean {
+    if (!this.canPurchaseUpgrade(upgradeId) || count < 1 || count > this.getRemainingLevels(upgradeId)) return false;
+
+    this.levels.set(upgradeId, this.getUpgradeLevel(upgradeId) + count);
+    this.saveToStorage();
+    return true;
   }
 
-  // Get maximum zombie count based on upgrades
-  getMaxZombies(): number {
-    const maxZombieLevel = this.getUpgradeLevel('max-zombies');
-    return 10 + (maxZombieLevel * 5); // Base 10, +5 per level
+  // Modifiers from every purchased upgrade level (for the stat pipeline)
+  getStatModifiers(): ActiveStatModifier[] {
+    const active: ActiveStatModifier[] = [];
+    for (const definition of UPGRADE_DEFINITIONS) {
+      const level = this.getUpgradeLevel(definition.id);
+      if (level <= 0) continue;
+      for (const modifier of definition.modifiers) {
+        active.push({ modifier, level });
+      }
+    }
+    return active;
   }
 
-  // Load upgrade data from save
+  // Load upgrade data from save (costs always come from the definitions)
   loadUpgradeData(upgradeData: { [key: string]: UpgradeData }): void {
     for (const [key, value] of Object.entries(upgradeData)) {
-      if (this.upgrades.has(key)) {
-        this.upgrades.set(key, value);
+      if (this.levels.has(key)) {
+        this.levels.set(key, value.level);
       }
     }
   }
@@ -80,8 +171,12 @@ export class UpgradeManager {
   // Get all upgrade data for saving
   getUpgradeData(): { [key: string]: UpgradeData } {
     const upgradeState: { [key: string]: UpgradeData } = {};
-    for (const [key, value] of this.upgrades) {
-      upgradeState[key] = value;
+    for (const definition of UPGRADE_DEFINITIONS) {
+      upgradeState[definition.id] = {
+        level: this.getUpgradeLevel(definition.id),
+        baseCost: definition.cost.base,
+        costMultiplier: definition.cost.multiplier
+      };
     }
     return upgradeState;
   }
@@ -101,9 +196,9 @@ export class UpgradeManager {
     }
   }
 
-  // Reset all upgrades (for testing)
+  // Reset all upgrades (on prestige)
   reset(): void {
     this.initializeUpgrades();
     this.saveToStorage();
   }
-}
\ No newline at end of file
+}
@@ -14,6 +14,7 @@ export class InputManager {
   private touchStartPosition: Vector2 = new Vector2(0, 0);
   private touchMoveThreshold: number = 10; // Pixels before considering it a move
   private multiTouchPrevented: boolean = false;
+  private wheelDelta: number = 0; // Accumulated scroll since last consumed
   constructor(canvas: HTMLCanvasElement) {
     this.canvas = canvas;
     this.detectTouchDevice();
@@ -48,6 +49,13 @@ export class InputManager {
       this.updateMousePosition(event.clientX, event.clientY);
     });
 
+    // Mouse wheel (used for zooming panels)
+    this.canvas.addEventListener('wheel', (event) => {
+      event.preventDefault();
+      this.updateMousePosition(event.clientX, event.clientY);
+      this.wheelDelta += event.deltaY;
+    }, { passive: false });
+
     // Enhanced touch events for mobile support
     this.canvas.addEventListener('touchstart', (event) => {
       event.preventDefault();
@@ -163,6 +171,13 @@ export class InputManager {
     return result;
   }
 
+  // Get scroll accumulated since the last call (consume the event)
+  consumeWheelDelta(): number {
+    const result = this.wheelDelta;
+    this.wheelDelta = 0;
+    return result;
+  }
+
   // Check if this is a touch device
   isTouch(): boolean {
     return this.isTouchDevice;
@@ -0,0 +1,176 @@
+// Input recording and deterministic replay of gameplay commands
+import { Simulation, SimulationInput, SimulationState } from '../core/Simulation.ts';
+import { RandomStreamsState } from '../core/RandomStreams.ts';
+import { SaveManager, MemoryStorage, GameSaveData } from '../managers/SaveManager.ts';
+
+// Commands are tagged with the fixed-step tick (relative to the start of the recording)
+export type ReplayCommandInput =
+  | SimulationInput
+  | { tick: number; type: 'toggle-pause'; paused: boolean };
+
+// Recorded command with milliseconds elapsed since the recording started
+export type ReplayCommand = ReplayCommandInput & { time: number };
+
+export type ReplayInitialState = Pick<GameSaveData, 'souls' | 'walkersDefeated' | 'lifetimeSouls' | 'currencies' | 'currentArea' | 'unlockedArea' | 'upgrades' | 'prestige' | 'achievements' | 'automation'>;
+
+export interface ReplayData {
+  version: number;
+  recordedAt: number;
+  width: number;
+  height: number;
+  durationTicks: number;
+  randomState: RandomStreamsState;
+  initialState: ReplayInitialState;
+  commands: ReplayCommand[];
+}
+
+export const REPLAY_VERSION = 1;
+
+// Records commands flowing into a simulation so the run can be reproduced
+// Only save-level state is captured, so recording must start before the first step.
+// Frame rate never changes the simulation (culling only skips drawing), so playback is frame-exact.
+export class ReplayRecorder {
+  private readonly simulation: Simulation;
+  private readonly startTick: number;
+  private readonly startTime: number;
+  private readonly header: Omit<ReplayData, 'durationTicks' | 'commands'>;
+  private commands: ReplayCommand[] = [];
+
+  constructor(simulation: Simulation, width: number, height: number) {
+    this.simulation = simulation;
+    this.startTick = simulation.getTick();
+    this.startTime = performance.now();
+
+    // Capture everything needed to rebuild the simulation as it is right now
+    const upgrades = simulation.upgradeManager.getUpgradeData();
+    this.header = {
+      version: REPLAY_VERSION,
+      recordedAt: Date.now(),
+      width,
+      height,
+      randomState: simulation.getContext().random.getState(),
+      initialState: {
+        souls: simulation.resourceManager.getSouls(),
+        walkersDefeated: simulation.resourceManager.getWalkersDefeated(),
+        lifetimeSouls: simulation.resourceManager.getLifetimeSouls(),
+        currencies: simulation.resourceManager.getResourceData(),
+        currentArea: simulation.areaManager.getCurrentAreaId(),
+        unlockedArea: simulation.areaManager.getHighestUnlockedArea(),
+        upgrades: JSON.parse(JSON.stringify(upgrades)),
+        prestige: simulation.prestigeManager.getPrestigeData(),
+        achievements: simulation.achievementManager.getAchievementData(),
+        automation: simulation.automationManager.getAutomationData()
+      }
+    };
+  }
+
+  // Record a command at the simulation's current tick
+  record(command: ReplayCommandInput): void {
+    this.commands.push({
+      ...command,
+      tick: this.simulation.getTick() - this.startTick,
+      time: Math.round(performance.now() - this.startTime)
+    });
+  }
+
+  getCommandCount(): number {
+    return this.commands.length;
+  }
+
+  // Build replay data covering everything recorded so far
+  getReplayData(): ReplayData {
+    return {
+      ...this.header,
+      durationTicks: this.simulation.getTick() - this.startTick,
+      commands: [...this.commands]
+    };
+  }
+
+  // Export the recording as a JSON replay file
+  export(): string {
+    return JSON.stringify(this.getReplayData(), null, 2);
+  }
+}
+
+// Feeds recorded commands back into a simulation tick by tick
+export class ReplayPlayer {
+  private readonly data: ReplayData;
+  private readonly commands: ReplayCommand[];
+  private cursor: number = 0;
+
+  constructor(data: ReplayData) {
+    this.data = data;
+    this.commands = [...data.commands].sort((a, b) => a.tick - b.tick);
+  }
+
+  // Parse and validate a JSON replay file
+  static parse(json: string): ReplayData | null {
+    try {
+      const data = JSON.parse(json) as ReplayData;
+
+      // Basic validation
+      if (data.version !== REPLAY_VERSION ||
+          typeof data.width !== 'number' ||
+          typeof data.height !== 'number' ||
+          typeof data.durationTicks !== 'number' ||
+          !data.randomState ||
+          !data.initialState ||
+          !Array.isArray(data.commands)) {
+        throw new Error('Invalid replay format');
+      }
+
+      // Big numbers are serialized as strings (or plain numbers in older replays)
+      data.initialState = SaveManager.reviveSaveData(data.initialState);
+
+      return data;
+    } catch (error) {
+      console.warn('Failed to parse replay:', error);
+      return null;
+    }
+  }
+
+  // Create a fresh simulation in the exact state the recording started from
+  static createSimulation(data: ReplayData): Simulation {
+    const saveManager = new SaveManager(new MemoryStorage());
+    saveManager.saveGameState(data.initialState);
+
+    return new Simulation({
+      width: data.width,
+      height: data.height,
+      randomState: data.randomState,
+      saveManager
+    });
+  }
+
+  // Run a replay to completion without rendering (for regression fixtures)
+  static runHeadless(data: ReplayData): SimulationState {
+    const simulation = ReplayPlayer.createSimulation(data);
+    const inputs = data.commands.filter(
+      (command): command is SimulationInput & { time: number } => command.type !== 'toggle-pause'
+    );
+    return simulation.run(data.durationTicks, inputs);
+  }
+
+  getData(): ReplayData {
+    return this.data;
+  }
+
+  // Take the next command due at or before the given tick (null if none)
+  takeNextCommand(tick: number): ReplayCommand | null {
+    if (this.cursor < this.commands.length && this.commands[this.cursor].tick <= tick) {
+      return this.commands[this.cursor++];
+    }
+    return null;
+  }
+
+  // Check if every command has played and the recorded duration has elapsed
+  isFinished(tick: number): boolean {
+    return this.cursor >= this.commands.length && tick >= this.data.durationTicks;
+  }
+
+  // Get playback progress (0.0 to 1.0)
+  getProgress(tick: number): number {
+    if (this.data.durationTicks <= 0) return 1;
+    return Math.min(1, tick / this.data.durationTicks);
+  }
+}
@@ -1,165 +1,262 @@
 // System for managing walker entities
 import { Walker } from '../entities/Walker.ts';
+import { SafeZone } from '../entities/WalkerSteering.ts';
+import { Zombie } from '../entities/Zombie.ts';
+import { pickWalkerArchetype, SpawnTableEntry, WalkerModifiers } from '../entities/WalkerArchetypes.ts';
 import { AreaManager } from '../managers/AreaManager.ts';
+import { AreaConfig } from '../managers/AreaDefinitions.ts';
 import { ObjectPool } from '../core/ObjectPool.ts';
 import { EntityCuller, CullableEntity } from '../core/EntityCuller.ts';
-// import { BatchRenderer } from '../core/BatchRenderer.ts';
-import { PerformanceMonitor } from '../core/PerformanceMonitor.ts';
 import { CollisionSystem } from '../core/CollisionSystem.ts';
+import { SpatialGrid } from '../core/SpatialGrid.ts';
+import { SimulationContext } from '../core/SimulationContext.ts';
+import { Random } from '../core/Random.ts';
 
 // Extend Walker to be cullable
 interface CullableWalker extends Walker, CullableEntity {}
 
 export class WalkerSystem {
   private walkers: CullableWalker[] = [];
-  private readonly targetWalkerCount: number = 40;
+  private boss: CullableWalker | null = null; // The current area's boss while it is on the field
   private canvasWidth: number;
   private canvasHeight: number;
   private spawnTimer: number = 0;
   private readonly spawnInterval: number = 100; // Spawn every 100ms until we reach target
+  private refillEnabled: boolean = true; // Off in wave mode, where the wave system brings walkers in
   private areaManager: AreaManager;
+  private context: SimulationContext;
+  private random: Random;
   
   // Performance optimization components
   private walkerPool: ObjectPool<Walker>;
-  private entityCuller: EntityCuller;
-  // private batchRenderer: BatchRenderer;
-  private performanceMonitor: PerformanceMonitor;
   private collisionSystem: CollisionSystem;
+  private spatialGrid: SpatialGrid<CullableWalker>;
 
-  constructor(canvasWidth: number, canvasHeight: number, areaManager: AreaManager) {
+  // Safe zones are laid out per area and canvas size, seeded by the area so they don't draw on gameplay randomness
+  private safeZones: SafeZone[] = [];
+  private safeZonesKey: string = '';
+  private readonly SAFE_ZONE_COUNT = 2;
+  private readonly SAFE_ZONE_RADIUS = 45;
+  private readonly ESCAPE_MARGIN = 2; // Distance from the hard boundary at which a fleeing walker leaves the map
+
+  constructor(canvasWidth: number, canvasHeight: number, areaManager: AreaManager, context: SimulationContext) {
     this.canvasWidth = canvasWidth;
     this.canvasHeight = canvasHeight;
     this.areaManager = areaManager;
+    this.context = context;
+    this.random = context.random.get('gameplay');
     
     // Initialize performance optimization components
-    this.entityCuller = EntityCuller.getInstance();
-    // this.batchRenderer = BatchRenderer.getInstance();
-    this.performanceMonitor = PerformanceMonitor.getInstance();
     this.collisionSystem = CollisionSystem.getInstance();
+    this.spatialGrid = new SpatialGrid<CullableWalker>(48);
     
     // Initialize object pool for walkers
     this.walkerPool = new ObjectPool<Walker>(
       () => {
         const spawnPos = this.getRandomEdgePosition();
         const currentArea = this.areaManager.getCurrentArea();
-        return new Walker(spawnPos.x, spawnPos.y, this.canvasWidth, this.canvasHeight, currentArea);
+        return new Walker(spawnPos.x, spawnPos.y, this.canvasWidth, this.canvasHeight, currentArea, this.random);
       },
       (walker: Walker) => {
-        // Reset walker state
-        walker.active = true;
-        const spawnPos = this.getRandomEdgePosition();
-        walker.position.set(spawnPos.x, spawnPos.y);
+        // Walkers are fully re-initialized by respawn() when taken from the pool
         walker.velocity.set(0, 0);
-        const currentArea = this.areaManager.getCurrentArea();
-        walker.updateAreaSprite(currentArea.id);
       },
       10, // Initial pool size
-      50  // Max pool size
+      120 // Max pool size (covers the default walker target)
     );
   }
 
-  update(deltaTime: number): void {
+  update(deltaTime: number, zombieGrid: SpatialGrid<Zombie>): void {
     // Update spawn timer
     this.spawnTimer += deltaTime;
     
     // Spawn walkers if we're below target count
-    if (this.walkers.length < this.targetWalkerCount && this.spawnTimer >= this.spawnInterval) {
+    if (this.refillEnabled && this.walkers.length < this.getTargetWalkerCount() && this.spawnTimer >= this.spawnInterval) {
       this.spawnWalker();
       this.spawnTimer = 0;
     }
 
-    // Cull walkers based on performance and viewport
-    const culledWalkers = this.entityCuller.cullEntities(
-      this.walkers, 
-      this.canvasWidth, 
-      this.canvasHeight
-    );
+    const surroundings = { zombies: zombieGrid, walkers: this.spatialGrid, safeZones: this.getSafeZones() };
 
-    // Update active walkers with performance-based skipping
+    // Update every active walker (culling only applies to rendering, so frame rate never changes the simulation)
     for (let i = this.walkers.length - 1; i >= 0; i--) {
       const walker = this.walkers[i];
       
       if (!walker.active) {
         // Return inactive walker to pool and remove from array
+        if (walker === this.boss) {
+          this.boss = null;
+        }
         this.walkerPool.release(walker);
         this.walkers.splice(i, 1);
         continue;
       }
       
-      // Check if this walker is in the culled list (should be updated)
-      const shouldUpdate = culledWalkers.includes(walker);
-      
-      if (shouldUpdate && !this.entityCuller.shouldSkipUpdate(walker, this.canvasWidth, this.canvasHeight)) {
-        walker.update(deltaTime);
-        walker.lastUpdateTime = performance.now();
+      walker.updateAI(deltaTime, surroundings);
+
+      // Armed walkers fight back against the zombie they are engaging
+      if (walker.isBoss) {
+        const result = walker.performBossAttack(this.context.clock.now(), zombieGrid);
+        if (result) {
+          this.context.events.emit('boss-attacked', { x: walker.position.x, y: walker.position.y, ...result });
+        }
+      } else if (walker.performAttack(this.context.clock.now())) {
+        console.log(`${walker.archetype.name} fought back against a zombie!`);
       }
     }
 
-    // Apply walker separation to prevent stacking (only for active walkers)
+    // Rebuild spatial index once per step for separation and zombie targeting
     const activeWalkers = this.walkers.filter(w => w.active);
+    this.spatialGrid.rebuild(activeWalkers);
+
+    // Apply walker separation to prevent stacking (only for active walkers)
     if (activeWalkers.length > 1) {
-      this.collisionSystem.applySeparation(activeWalkers, 30); // Moderate separation force
+      this.collisionSystem.applySeparation(activeWalkers, this.spatialGrid, 30); // Moderate separation force
     }
 
     // Apply boundary collision for all active walkers
     for (const walker of activeWalkers) {
       this.collisionSystem.applyBoundaryCollision(walker, this.canvasWidth, this.canvasHeight, 80);
+      if (walker.canEscape() && this.isAtEdge(walker)) {
+        this.escapeWalker(walker);
+      }
     }
   }
 
-  render(ctx: CanvasRenderingContext2D): void {
-    // Use batch rendering for better performance
-    // const currentArea = this.areaManager.getCurrentArea();
-    // const batchKey = `walkers_area_${currentArea.id}`;
-    
-    // Add all visible walkers to batch
-    for (const walker of this.walkers) {
-      if (walker.active) {
-        // For now, still render individually since walkers have complex animations
-        // In a future optimization, we could batch static sprites
-        walker.render(ctx);
-        
-        // Track render call
-        this.performanceMonitor.incrementRenderCalls();
+  // A walker reaching the edge while fleeing leaves the map, costing the area some of its soul yield
+  private escapeWalker(walker: Walker): void {
+    walker.destroy();
+    this.areaManager.recordEscape();
+    this.context.events.emit('walker-escaped', {
+      x: walker.position.x,
+      y: walker.position.y,
+      archetype: walker.archetype.id,
+      soulYield: this.areaManager.getSoulYieldMultiplier()
+    });
+  }
+
+  private isAtEdge(walker: Walker): boolean {
+    const limit = walker.size / 2 + this.ESCAPE_MARGIN;
+    return walker.position.x <= limit ||
+           walker.position.x >= this.canvasWidth - limit ||
+           walker.position.y <= limit ||
+           walker.position.y >= this.canvasHeight - limit;
+  }
+
+  // Get the current area's safe zones, laying them out again when the area or canvas size changes
+  getSafeZones(): SafeZone[] {
+    const area = this.areaManager.getCurrentArea();
+    const key = `${area.id}:${this.canvasWidth}x${this.canvasHeight}`;
+    if (key !== this.safeZonesKey) {
+      const random = new Random(area.id * 7919 + 17);
+      this.safeZones = [];
+      // Each zone gets its own vertical strip of the field so they don't overlap
+      const stripWidth = 0.6 / this.SAFE_ZONE_COUNT;
+      for (let i = 0; i < this.SAFE_ZONE_COUNT; i++) {
+        this.safeZones.push({
+          x: random.range(0.2 + i * stripWidth, 0.2 + (i + 1) * stripWidth) * this.canvasWidth,
+          y: random.range(0.2, 0.8) * this.canvasHeight,
+          radius: this.SAFE_ZONE_RADIUS
+        });
       }
+      this.safeZonesKey = key;
     }
+    return this.safeZones;
   }
 
-  private spawnWalker(): void {
-    // Get walker from pool
+  // Draw the safe zones and the given walkers (the game passes the ones left after render culling)
+  render(ctx: CanvasRenderingContext2D, walkers: Walker[] = this.getActiveWalkers()): void {
+    // Safe zones sit underneath the walkers
+    ctx.save();
+    ctx.fillStyle = 'rgba(46, 204, 113, 0.12)';
+    ctx.strokeStyle = 'rgba(46, 204, 113, 0.5)';
+    ctx.lineWidth = 2;
+    for (const zone of this.getSafeZones()) {
+      ctx.beginPath();
+      ctx.arc(zone.x, zone.y, zone.radius, 0, Math.PI * 2);
+      ctx.fill();
+      ctx.stroke();
+    }
+    ctx.restore();
+
+    // Render individually since walkers have complex animations
+    for (const walker of walkers) {
+      walker.render(ctx);
+    }
+  }
+
+  // Spawn a walker at an edge from the current area's spawn table unless another table is given
+  spawnWalker(spawnTable?: SpawnTableEntry[], modifiers: WalkerModifiers = this.context.stats.getWalkerModifiers()): Walker {
+    // Get walker from pool and re-roll its traits so pooled and new walkers behave identically
     const walker = this.walkerPool.get() as CullableWalker;
+    const currentArea = this.areaManager.getCurrentArea();
+    const archetype = pickWalkerArchetype(spawnTable ?? currentArea.spawnTable, this.random);
+    const spawnPos = this.getRandomEdgePosition();
+    walker.respawn(spawnPos.x, spawnPos.y, currentArea, archetype, modifiers);
     
     // Set walker priority based on area (higher area = higher priority)
-    const currentArea = this.areaManager.getCurrentArea();
-    this.entityCuller.setEntityPriority(walker, 0.5 + (currentArea.id * 0.1));
+    EntityCuller.setEntityPriority(walker, 0.5 + (currentArea.id * 0.1));
     
     this.walkers.push(walker);
+    return walker;
+  }
+
+  // Turn refilling toward the target walker count on or off
+  setRefillEnabled(enabled: boolean): void {
+    this.refillEnabled = enabled;
+  }
+
+  // Bring the current area's boss onto the field from an edge
+  spawnBoss(): Walker {
+    const walker = this.walkerPool.get() as CullableWalker;
+    const currentArea = this.areaManager.getCurrentArea();
+    const spawnPos = this.getRandomEdgePosition();
+    walker.respawnAsBoss(spawnPos.x, spawnPos.y, currentArea, this.context.stats.getWalkerModifiers());
+
+    // Keep the boss ahead of every other walker when culling
+    EntityCuller.setEntityPriority(walker, 1);
+
+    this.walkers.push(walker);
+    this.boss = walker;
+    return walker;
+  }
+
+  // Get the boss on the field (null when there is none)
+  getBoss(): Walker | null {
+    return this.boss?.active ? this.boss : null;
+  }
+
+  // Take the boss off the field without defeating it (it returns to the pool on the next update)
+  removeBoss(): void {
+    this.boss?.destroy();
+    this.boss = null;
   }
 
   private getRandomEdgePosition(): { x: number, y: number } {
     const margin = 20;
-    const edge = Math.floor(Math.random() * 4); // 0: top, 1: right, 2: bottom, 3: left
+    const random = this.random;
+    const edge = random.int(4); // 0: top, 1: right, 2: bottom, 3: left
     
     switch (edge) {
       case 0: // Top edge
         return {
-          x: Math.random() * this.canvasWidth,
+          x: random.next() * this.canvasWidth,
           y: -margin
         };
       case 1: // Right edge
         return {
           x: this.canvasWidth + margin,
-          y: Math.random() * this.canvasHeight
+          y: random.next() * this.canvasHeight
         };
       case 2: // Bottom edge
         return {
-          x: Math.random() * this.canvasWidth,
+          x: random.next() * this.canvasWidth,
           y: this.canvasHeight + margin
         };
       case 3: // Left edge
         return {
           x: -margin,
-          y: Math.random() * this.canvasHeight
+          y: random.next() * this.canvasHeight
         };
       default:
         return { x: 0, y: 0 };
@@ -177,6 +274,11 @@ export class WalkerSystem {
     }
   }
 
+  // Walkers the sandbox mode refills toward (a stat, so upgrades and content can raise it)
+  getTargetWalkerCount(): number {
+    return Math.floor(this.context.stats.resolve('max-walkers'));
+  }
+
   // Get current walker count for debugging/UI
   getWalkerCount(): number {
     return this.walkers.filter(walker => walker.active).length;
@@ -187,6 +289,11 @@ export class WalkerSystem {
     return this.walkers.filter(walker => walker.active);
   }
 
+  // Get the spatial index of active walkers (rebuilt every update)
+  getSpatialGrid(): SpatialGrid<Walker> {
+    return this.spatialGrid;
+  }
+
   // Clear all walkers
   clear(): void {
     for (const walker of this.walkers) {
@@ -194,13 +301,15 @@ export class WalkerSystem {
       this.walkerPool.release(walker);
     }
     this.walkers = [];
+    this.boss = null;
+    this.spatialGrid.clear();
   }
 
   // Update all walker sprites when area changes
-  updateWalkerSprites(areaId: number): void {
+  updateWalkerSprites(areaConfig: AreaConfig): void {
     for (const walker of this.walkers) {
       if (walker.active) {
-        walker.updateAreaSprite(areaId);
+        walker.updateAreaSprite(areaConfig);
       }
     }
   }
@@ -0,0 +1,211 @@
+// Wave system for the endless game mode: walkers arrive in numbered, escalating waves with intermissions between them
+import { Walker } from '../entities/Walker.ts';
+import { SpawnTableEntry, WalkerArchetypeId } from '../entities/WalkerArchetypes.ts';
+import { AreaConfig } from '../managers/AreaDefinitions.ts';
+import { AreaManager } from '../managers/AreaManager.ts';
+import { ResourceManager } from '../managers/ResourceManager.ts';
+import { SimulationContext } from '../core/SimulationContext.ts';
+import { WalkerSystem } from './WalkerSystem.ts';
+
+// sandbox: walkers refill toward a fixed count forever (the idle game)
+// waves: walkers arrive in escalating waves with intermissions between them
+export type GameMode = 'sandbox' | 'waves';
+
+// intermission: counting down to the next wave
+// spawning: walkers of the current wave are still arriving
+// clearing: the whole wave has arrived and ends once the last of it is gone
+export type WavePhase = 'intermission' | 'spawning' | 'clearing';
+
+export interface WaveConfig {
+  wave: number;
+  walkerCount: number;
+  spawnInterval: number; // ms between arrivals
+  healthMultiplier: number; // Stacks with upgrade walker health modifiers
+  spawnTable: SpawnTableEntry[];
+}
+
+const MAX_WAVE_SIZE = 80;
+const MIN_SPAWN_INTERVAL = 100; // ms
+
+// Archetypes later waves bring in when the area doesn't field them already
+const WAVE_REINFORCEMENTS: { archetype: WalkerArchetypeId; fromWave: number; weight: number }[] = [
+  { archetype: 'runner', fromWave: 2, weight: 10 },
+  { archetype: 'armored', fromWave: 4, weight: 10 },
+  { archetype: 'guard', fromWave: 7, weight: 8 }
+];
+
+export class WaveSystem {
+  private walkerSystem: WalkerSystem;
+  private areaManager: AreaManager;
+  private resourceManager: ResourceManager;
+  private context: SimulationContext;
+  private active: boolean = false;
+  private wave: number = 0; // Last wave started (0 before the first)
+  private phase: WavePhase = 'intermission';
+  private timer: number = 0; // Intermission time left, or time until the next arrival while spawning
+  private config: WaveConfig | null = null;
+  private spawned: number = 0;
+  private waveWalkers: Set<Walker> = new Set(); // Walkers of the current wave still on the field
+  private defeated: number = 0; // Walkers of the current wave the horde defeated
+
+  private readonly FIRST_INTERMISSION = 5000; // ms before wave 1
+  private readonly INTERMISSION = 10000; // ms between waves
+  private readonly CLEAR_BONUS = 10; // Souls per wave number, scaled by the area's soul multiplier and yield and by soul gain
+
+  constructor(walkerSystem: WalkerSystem, areaManager: AreaManager, resourceManager: ResourceManager, context: SimulationContext) {
+    this.walkerSystem = walkerSystem;
+    this.areaManager = areaManager;
+    this.resourceManager = resourceManager;
+    this.context = context;
+  }
+
+  // Size, pace, toughness and mix of a wave
+  static getWaveConfig(wave: number, area: AreaConfig): WaveConfig {
+    return {
+      wave,
+      walkerCount: Math.min(MAX_WAVE_SIZE, 6 + 4 * wave),
+      spawnInterval: Math.max(MIN_SPAWN_INTERVAL, 700 - 50 * (wave - 1)),
+      healthMultiplier: 1 + 0.05 * (wave - 1),
+      spawnTable: WaveSystem.getWaveSpawnTable(wave, area)
+    };
+  }
+
+  // Later waves thin out civilians and bring in tougher archetypes
+  private static getWaveSpawnTable(wave: number, area: AreaConfig): SpawnTableEntry[] {
+    const table = area.spawnTable.map(entry => ({
+      archetype: entry.archetype,
+      weight: entry.archetype === 'civilian'
+        ? entry.weight * Math.max(0.3, 1 - 0.05 * (wave - 1))
+        : entry.weight * (1 + 0.1 * (wave - 1))
+    }));
+
+    for (const reinforcement of WAVE_REINFORCEMENTS) {
+      if (wave >= reinforcement.fromWave && !table.some(entry => entry.archetype === reinforcement.archetype)) {
+        table.push({ archetype: reinforcement.archetype, weight: reinforcement.weight + 2 * (wave - reinforcement.fromWave) });
+      }
+    }
+    return table;
+  }
+
+  // Begin wave mode from the first intermission
+  start(): void {
+    this.active = true;
+    this.reset();
+  }
+
+  // Leave wave mode (walkers already on the field stay)
+  stop(): void {
+    this.active = false;
+    this.reset();
+  }
+
+  // Go back to the intermission before wave 1 (on prestige or when the mode changes)
+  reset(): void {
+    this.wave = 0;
+    this.phase = 'intermission';
+    this.timer = this.FIRST_INTERMISSION;
+    this.config = null;
+    this.spawned = 0;
+    this.defeated = 0;
+    this.waveWalkers.clear();
+  }
+
+  // Advance the wave timers by one simulation step
+  update(deltaTime: number): void {
+    if (!this.active) return;
+
+    // Walkers that left the field no longer hold up the wave; only the ones the horde defeated count toward the bonus
+    for (const walker of this.waveWalkers) {
+      if (!walker.active) {
+        if (walker.health <= 0) {
+          this.defeated++;
+        }
+        this.waveWalkers.delete(walker);
+      }
+    }
+
+    switch (this.phase) {
+      case 'intermission':
+        this.timer -= deltaTime;
+        if (this.timer <= 0) {
+          this.startWave();
+        }
+        break;
+      case 'spawning':
+        this.timer -= deltaTime;
+        while (this.config && this.timer <= 0 && this.spawned < this.config.walkerCount) {
+          this.spawnWaveWalker(this.config);
+          this.timer += this.config.spawnInterval;
+        }
+        if (this.config && this.spawned >= this.config.walkerCount) {
+          this.phase = 'clearing';
+        }
+        break;
+      case 'clearing':
+        if (this.waveWalkers.size === 0) {
+          this.clearWave();
+        }
+        break;
+    }
+  }
+
+  private startWave(): void {
+    this.wave++;
+    this.config = WaveSystem.getWaveConfig(this.wave, this.areaManager.getCurrentArea());
+    this.phase = 'spawning';
+    this.timer = 0;
+    this.spawned = 0;
+    this.defeated = 0;
+
+    console.log(`Wave ${this.wave} started: ${this.config.walkerCount} walkers`);
+    this.context.events.emit('wave-started', { wave: this.wave, walkerCount: this.config.walkerCount });
+  }
+
+  private spawnWaveWalker(config: WaveConfig): void {
+    const modifiers = this.context.stats.getWalkerModifiers();
+    const walker = this.walkerSystem.spawnWalker(config.spawnTable, {
+      speedMultiplier: modifiers.speedMultiplier,
+      healthMultiplier: modifiers.healthMultiplier * config.healthMultiplier
+    });
+    this.waveWalkers.add(walker);
+    this.spawned++;
+  }
+
+  // Pay the clear bonus for the share of the wave the horde defeated and start the intermission before the next wave
+  private clearWave(): void {
+    const area = this.areaManager.getCurrentArea();
+    const defeatedShare = this.config ? this.defeated / this.config.walkerCount : 0;
+    const bonus = this.areaManager.applySoulYield(this.context.stats.resolveBig('soul-gain').mul(area.soulMultiplier * this.wave * this.CLEAR_BONUS * defeatedShare));
+    this.resourceManager.earn({ souls: bonus });
+
+    this.phase = 'intermission';
+    this.timer = this.INTERMISSION;
+    this.config = null;
+
+    console.log(`Wave ${this.wave} cleared! Bonus: ${bonus} souls`);
+    this.context.events.emit('wave-cleared', { wave: this.wave, bonus });
+  }
+
+  // Getters
+  isActive(): boolean {
+    return this.active;
+  }
+
+  getWave(): number {
+    return this.wave;
+  }
+
+  getPhase(): WavePhase {
+    return this.phase;
+  }
+
+  // Time left before the next wave starts (0 outside intermissions)
+  getIntermissionRemaining(): number {
+    return this.phase === 'intermission' ? Math.max(0, this.timer) : 0;
+  }
+
+  // Walkers of the current wave still to arrive or still on the field
+  getWalkersRemaining(): number {
+    return (this.config ? this.config.walkerCount - this.spawned : 0) + this.waveWalkers.size;
+  }
+}
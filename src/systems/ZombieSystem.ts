@@ -1,98 +1,109 @@
 // System for managing zombie entities
 import { Zombie } from '../entities/Zombie.ts';
 import { Walker } from '../entities/Walker.ts';
+import { ZombieTypeId, getZombieType } from '../entities/ZombieTypes.ts';
 import { Vector2 } from '../core/Vector2.ts';
 import { ResourceManager } from '../managers/ResourceManager.ts';
-import { UpgradeManager } from '../managers/UpgradeManager.ts';
 import { AreaManager } from '../managers/AreaManager.ts';
 import { ObjectPool } from '../core/ObjectPool.ts';
 import { EntityCuller, CullableEntity } from '../core/EntityCuller.ts';
-// import { BatchRenderer } from '../core/BatchRenderer.ts';
-import { PerformanceMonitor } from '../core/PerformanceMonitor.ts';
 import { CollisionSystem } from '../core/CollisionSystem.ts';
+import { SpatialGrid } from '../core/SpatialGrid.ts';
+import { SimulationContext } from '../core/SimulationContext.ts';
+import { Random } from '../core/Random.ts';
+import { Animation } from '../core/Animation.ts';
+import { CurrencyAmounts } from '../managers/CurrencyDefinitions.ts';
+import { BigNum } from '../core/BigNum.ts';
 
 // Extend Zombie to be cullable
 interface CullableZombie extends Zombie, CullableEntity {}
 
+// Infected walker corpse that is rising as a new zombie
+interface RisingCorpse {
+  position: Vector2;
+  elapsed: number; // ms since the walker fell
+  size: number;
+}
+
 export class ZombieSystem {
   private zombies: CullableZombie[] = [];
+  private risingCorpses: RisingCorpse[] = [];
+  private readonly riseDuration: number = 1500; // ms for an infected walker to rise
   private canvasWidth: number;
   private canvasHeight: number;
   private resourceManager: ResourceManager;
-  private upgradeManager: UpgradeManager;
   private areaManager: AreaManager;
-  private onWalkerDefeated?: (x: number, y: number, color: string) => void;
+  private context: SimulationContext;
+  private random: Random;
+  private visualsRandom: Random;
   
   // Performance optimization components
   private zombiePool: ObjectPool<Zombie>;
-  private entityCuller: EntityCuller;
-  // private batchRenderer: BatchRenderer;
-  private performanceMonitor: PerformanceMonitor;
   private collisionSystem: CollisionSystem;
+  private spatialGrid: SpatialGrid<CullableZombie>;
 
-  constructor(canvasWidth: number, canvasHeight: number, resourceManager: ResourceManager, upgradeManager: UpgradeManager, areaManager: AreaManager) {
+  constructor(canvasWidth: number, canvasHeight: number, resourceManager: ResourceManager, areaManager: AreaManager, context: SimulationContext) {
     this.canvasWidth = canvasWidth;
     this.canvasHeight = canvasHeight;
     this.resourceManager = resourceManager;
-    this.upgradeManager = upgradeManager;
     this.areaManager = areaManager;
+    this.context = context;
+    this.random = context.random.get('gameplay');
+    this.visualsRandom = context.random.get('visuals');
     
     // Initialize performance optimization components
-    this.entityCuller = EntityCuller.getInstance();
-    // this.batchRenderer = BatchRenderer.getInstance();
-    this.performanceMonitor = PerformanceMonitor.getInstance();
     this.collisionSystem = CollisionSystem.getInstance();
+    this.spatialGrid = new SpatialGrid<CullableZombie>(48);
     
     // Initialize object pool for zombies
     this.zombiePool = new ObjectPool<Zombie>(
-      () => new Zombie(0, 0, this.canvasWidth, this.canvasHeight, this.upgradeManager.getZombieSpeedMultiplier()),
+      () => new Zombie(0, 0, this.canvasWidth, this.canvasHeight, this.context.stats.resolve('zombie-speed'), this.random),
       (zombie: Zombie) => {
-        // Reset zombie state
+        // Reset zombie state (type and upgrades are applied on spawn)
         zombie.active = true;
         zombie.position.set(0, 0);
         zombie.velocity.set(0, 0);
-        zombie.updateSpeed(this.upgradeManager.getZombieSpeedMultiplier());
       },
       5,  // Initial pool size
       20  // Max pool size
     );
   }
 
-  update(deltaTime: number, walkers: Walker[]): void {
-    // Cull zombies based on performance and viewport
-    const culledZombies = this.entityCuller.cullEntities(
-      this.zombies, 
-      this.canvasWidth, 
-      this.canvasHeight
-    );
+  update(deltaTime: number, walkerGrid: SpatialGrid<Walker>): void {
+    // Raise infected corpses whose rising animation has finished
+    this.updateRisingCorpses(deltaTime);
 
-    // Update active zombies with performance-based skipping
+    // Update every active zombie (culling only applies to rendering, so frame rate never changes the simulation)
     for (let i = this.zombies.length - 1; i >= 0; i--) {
       const zombie = this.zombies[i];
       
       if (!zombie.active) {
+        // Zombie was destroyed by armed walkers
+        this.context.events.emit('zombie-defeated', {
+          x: zombie.position.x,
+          y: zombie.position.y,
+          zombieType: zombie.type.id
+        });
+        
         // Return inactive zombie to pool and remove from array
         this.zombiePool.release(zombie);
         this.zombies.splice(i, 1);
         continue;
       }
       
-      // Check if this zombie is in the culled list (should be updated)
-      const shouldUpdate = culledZombies.includes(zombie);
-      
-      if (shouldUpdate && !this.entityCuller.shouldSkipUpdate(zombie, this.canvasWidth, this.canvasHeight)) {
-        zombie.updateWithWalkers(deltaTime, walkers);
-        zombie.lastUpdateTime = performance.now();
-        
-        // Check for collisions with walkers
-        this.checkCollisions(zombie, walkers);
-      }
+      zombie.updateWithWalkers(deltaTime, walkerGrid);
+
+      // Check for collisions with walkers
+      this.checkCollisions(zombie, walkerGrid);
     }
 
-    // Apply zombie separation to prevent stacking (only for active zombies)
+    // Rebuild spatial index once per step for separation
     const activeZombies = this.zombies.filter(z => z.active);
+    this.spatialGrid.rebuild(activeZombies);
+
+    // Apply zombie separation to prevent stacking (only for active zombies)
     if (activeZombies.length > 1) {
-      this.collisionSystem.applySeparation(activeZombies, 40); // Slightly stronger separation for zombies
+      this.collisionSystem.applySeparation(activeZombies, this.spatialGrid, 40); // Slightly stronger separation for zombies
     }
 
     // Apply boundary collision for all active zombies
@@ -101,28 +112,21 @@ export class ZombieSystem {
     }
   }
 
-  render(ctx: CanvasRenderingContext2D): void {
-    // Use batch rendering for better performance
-    // const batchKey = 'zombies';
-    
-    // Add all visible zombies to batch
-    for (const zombie of this.zombies) {
-      if (zombie.active) {
-        // For now, still render individually since zombies have complex animations
-        // In a future optimization, we could batch static sprites
-        zombie.render(ctx);
-        
-        // Track render call
-        this.performanceMonitor.incrementRenderCalls();
-      }
+  // Draw the given zombies (the game passes the ones left after render culling)
+  render(ctx: CanvasRenderingContext2D, zombies: Zombie[] = this.getActiveZombies()): void {
+    // Render infected corpses underneath the horde
+    this.renderRisingCorpses(ctx);
+
+    // Render individually since zombies have complex animations
+    for (const zombie of zombies) {
+      zombie.render(ctx);
     }
   }
 
-  // Spawn a zombie at the specified position
-  spawnZombie(position: Vector2): boolean {
+  // Spawn a zombie of the given type at the specified position (risen marks infected walkers rising)
+  spawnZombie(position: Vector2, typeId: ZombieTypeId = 'shambler', risen: boolean = false): boolean {
     // Check if we're at the zombie limit
-    const maxZombies = this.upgradeManager.getMaxZombies();
-    if (this.zombies.length >= maxZombies) {
+    if (!this.hasZombieCapacity()) {
       return false;
     }
 
@@ -133,38 +137,67 @@ export class ZombieSystem {
 
     // Get zombie from pool
     const zombie = this.zombiePool.get() as CullableZombie;
+    zombie.setType(getZombieType(typeId), this.context.stats.getZombieModifiers(typeId));
     zombie.position.set(clampedX, clampedY);
     zombie.updateCanvasDimensions(this.canvasWidth, this.canvasHeight);
     
     // Set zombie priority (player-controlled entities have high priority)
-    this.entityCuller.setEntityPriority(zombie, 0.8);
+    EntityCuller.setEntityPriority(zombie, 0.8);
     
     this.zombies.push(zombie);
+    this.context.events.emit('zombie-spawned', {
+      x: clampedX,
+      y: clampedY,
+      zombieType: typeId,
+      risen,
+      zombieCount: this.zombies.length
+    });
     return true;
   }
 
-  private checkCollisions(zombie: Zombie, walkers: Walker[]): void {
-    for (const walker of walkers) {
+  private checkCollisions(zombie: Zombie, walkerGrid: SpatialGrid<Walker>): void {
+    // Only walkers already within attack range can be hit this step
+    const walkersInRange = zombie.getWalkersInAttackRange(walkerGrid);
+
+    for (const walker of walkersInRange) {
       if (!walker.active) continue;
       
       // Use the new attack system with proper cooldown
-      if (zombie.performAttack(walker)) {
+      if (zombie.performAttack(walker, this.context.clock.now())) {
         // Attack was successful - walker was damaged
         console.log(`Zombie attacked walker! Walker health: ${walker.health}/${walker.maxHealth}`);
         
         // Check if walker was defeated
         if (!walker.active) {
-          // Walker was defeated - award souls based on area multiplier
+          // Walker was defeated - award souls based on area multiplier, archetype yield and escapes lowering the area's yield
           const currentArea = this.areaManager.getCurrentArea();
-          this.resourceManager.awardSouls(1, currentArea.soulMultiplier);
-          console.log(`Zombie defeated a walker! Souls earned: ${currentArea.soulMultiplier}, Total: ${this.resourceManager.getSouls()}`);
+          const souls = this.areaManager.applySoulYield(this.context.stats.resolveBig('soul-gain').mul(walker.soulValue));
+          const drops = this.rollDrops(walker);
+          this.resourceManager.awardKill({ souls, ...drops });
+          console.log(`Zombie defeated a ${walker.archetype.name.toLowerCase()}! Souls earned: ${souls}, Total: ${this.resourceManager.getSouls()}`);
           
-          // Trigger visual effect callback if set
-          if (this.onWalkerDefeated) {
-            const walkerColors = currentArea.walkerColors;
-            const color = walkerColors[Math.floor(Math.random() * walkerColors.length)];
-            this.onWalkerDefeated(walker.position.x, walker.position.y, color);
+          this.context.events.emit('walker-defeated', {
+            x: walker.position.x,
+            y: walker.position.y,
+            archetype: walker.archetype.id,
+            souls,
+            drops,
+            color: this.visualsRandom.pick(currentArea.walkerColors)
+          });
+
+          // A fallen boss opens the way to the next area
+          if (walker.boss) {
+            this.context.events.emit('boss-defeated', {
+              area: currentArea,
+              name: walker.boss.name,
+              x: walker.position.x,
+              y: walker.position.y,
+              souls
+            });
           }
+          
+          // The fallen walker may be infected and rise as a new zombie
+          this.tryInfect(zombie, walker);
         }
         
         break; // One attack per frame per zombie
@@ -172,6 +205,85 @@ export class ZombieSystem {
     }
   }
 
+  // Roll a defeated walker's secondary currency drops
+  private rollDrops(walker: Walker): CurrencyAmounts {
+    const drops: CurrencyAmounts = {};
+    for (const drop of walker.archetype.drops ?? []) {
+      if (this.random.chance(drop.chance)) {
+        drops[drop.currency] = BigNum.from(drops[drop.currency] ?? 0).add(drop.amount);
+      }
+    }
+    return drops;
+  }
+
+  // Check if another zombie fits under the cap (rising corpses count towards it)
+  private hasZombieCapacity(): boolean {
+    return this.zombies.length + this.risingCorpses.length < this.getMaxZombies();
+  }
+
+  // Combine the infection upgrade with the attacking zombie type's own infection chance
+  private getInfectionChance(zombie: Zombie): number {
+    const upgradeChance = this.context.stats.resolve('infection-chance');
+    return 1 - (1 - upgradeChance) * (1 - zombie.type.infectionChance);
+  }
+
+  // Roll for infection and start the rising animation if the horde has room
+  private tryInfect(zombie: Zombie, walker: Walker): void {
+    const infectionChance = this.getInfectionChance(zombie);
+    if (infectionChance <= 0 || !this.random.chance(infectionChance)) {
+      return;
+    }
+
+    if (!this.hasZombieCapacity()) {
+      return;
+    }
+
+    this.risingCorpses.push({
+      position: walker.position.clone(),
+      elapsed: 0,
+      size: walker.size
+    });
+    console.log('A fallen walker has been infected!');
+  }
+
+  private updateRisingCorpses(deltaTime: number): void {
+    for (let i = this.risingCorpses.length - 1; i >= 0; i--) {
+      const corpse = this.risingCorpses[i];
+      corpse.elapsed += deltaTime;
+
+      if (corpse.elapsed >= this.riseDuration) {
+        // Remove first so the corpse's reserved slot is free for the new zombie
+        this.risingCorpses.splice(i, 1);
+        if (this.spawnZombie(corpse.position, 'shambler', true)) {
+          console.log('An infected walker rose as a zombie!');
+        }
+      }
+    }
+  }
+
+  private renderRisingCorpses(ctx: CanvasRenderingContext2D): void {
+    for (const corpse of this.risingCorpses) {
+      const progress = Math.min(1, corpse.elapsed / this.riseDuration);
+      const { x, y } = corpse.position;
+
+      ctx.save();
+
+      // Disturbed earth under the corpse
+      ctx.fillStyle = 'rgba(60, 40, 20, 0.8)';
+      ctx.beginPath();
+      ctx.ellipse(x, y + corpse.size / 2, corpse.size, corpse.size / 3, 0, 0, Math.PI * 2);
+      ctx.fill();
+
+      // Zombie body emerging from the ground (drawn at full height with reduced motion)
+      const height = Animation.isReducedMotionEnabled() ? corpse.size : corpse.size * progress;
+      ctx.globalAlpha = 0.4 + progress * 0.6;
+      ctx.fillStyle = '#556B2F';
+      ctx.fillRect(x - corpse.size / 2, y + corpse.size / 2 - height, corpse.size, height);
+
+      ctx.restore();
+    }
+  }
+
   // Update canvas dimensions when window resizes
   updateCanvasDimensions(width: number, height: number): void {
     this.canvasWidth = width;
@@ -188,11 +300,21 @@ export class ZombieSystem {
     return this.zombies.filter(zombie => zombie.active).length;
   }
 
+  // Get number of infected walkers currently rising
+  getRisingCount(): number {
+    return this.risingCorpses.length;
+  }
+
   // Get all active zombies
   getActiveZombies(): Zombie[] {
     return this.zombies.filter(zombie => zombie.active);
   }
 
+  // Get the spatial index of active zombies (rebuilt every update)
+  getSpatialGrid(): SpatialGrid<Zombie> {
+    return this.spatialGrid;
+  }
+
   // Clear all zombies
   clear(): void {
     for (const zombie of this.zombies) {
@@ -200,25 +322,21 @@ export class ZombieSystem {
       this.zombiePool.release(zombie);
     }
     this.zombies = [];
+    this.risingCorpses = [];
+    this.spatialGrid.clear();
   }
 
   // Get maximum zombie count
   getMaxZombies(): number {
-    return this.upgradeManager.getMaxZombies();
+    return Math.floor(this.context.stats.resolve('max-zombies'));
   }
 
-  // Apply speed upgrades to all existing zombies
-  applySpeedUpgrades(): void {
-    const speedMultiplier = this.upgradeManager.getZombieSpeedMultiplier();
+  // Apply speed, damage and health upgrades to all existing zombies
+  applyUpgrades(): void {
     for (const zombie of this.zombies) {
       if (zombie.active) {
-        zombie.updateSpeed(speedMultiplier);
+        zombie.applyUpgrades(this.context.stats.getZombieModifiers(zombie.type.id));
       }
     }
   }
-
-  // Set callback for when walker is defeated (for visual effects)
-  setOnWalkerDefeated(callback: (x: number, y: number, color: string) => void): void {
-    this.onWalkerDefeated = callback;
-  }
 }
\ No newline at end of file
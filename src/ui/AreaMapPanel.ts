@@ -0,0 +1,322 @@
+// Area map: unlocked areas with their multipliers and walker stats, travel between them, and the auto-advance and game mode toggles
+import { AreaManager } from '../managers/AreaManager.ts';
+import { AreaConfig } from '../managers/AreaDefinitions.ts';
+import { ResourceManager } from '../managers/ResourceManager.ts';
+import { SettingsManager } from '../managers/SettingsManager.ts';
+import { GameMode } from '../systems/WaveSystem.ts';
+import { StatModifier } from '../core/StatPipeline.ts';
+import { Vector2 } from '../core/Vector2.ts';
+import { getWalkerArchetype } from '../entities/WalkerArchetypes.ts';
+import { formatNumber } from './NumberFormat.ts';
+
+interface PanelButton {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export class AreaMapPanel {
+  private areaManager: AreaManager;
+  private resourceManager: ResourceManager;
+  private canvasWidth: number;
+  private canvasHeight: number;
+  private autoAdvanceButton: PanelButton = { x: 0, y: 0, width: 0, height: 0 };
+  private gameModeButton: PanelButton = { x: 0, y: 0, width: 0, height: 0 };
+  private previousPageButton: PanelButton = { x: 0, y: 0, width: 0, height: 0 };
+  private nextPageButton: PanelButton = { x: 0, y: 0, width: 0, height: 0 };
+  private travelButtons: { areaId: number; button: PanelButton }[] = [];
+  private firstRow: number = 0;
+  private hasNextPage: boolean = false;
+  private showPanel: boolean = false;
+  private travelHandler?: (areaId: number) => boolean;
+  private autoAdvanceHandler?: (enabled: boolean) => boolean;
+  private gameModeHandler?: (mode: GameMode) => boolean;
+  private isMobile: boolean = false;
+  private uiScale: number = 1;
+
+  private readonly LIST_TOP = 95;
+
+  constructor(areaManager: AreaManager, resourceManager: ResourceManager, canvasWidth: number, canvasHeight: number) {
+    this.areaManager = areaManager;
+    this.resourceManager = resourceManager;
+    this.canvasWidth = canvasWidth;
+    this.canvasHeight = canvasHeight;
+    this.detectMobile();
+    this.calculateUIScale();
+    this.layoutButtons();
+  }
+
+  private detectMobile(): void {
+    this.isMobile = /Android|webOS|iPhone|iPad|iPod|BlackBerry|IEMobile|Opera Mini/i.test(navigator.userAgent) ||
+                   ('ontouchstart' in window) ||
+                   (navigator.maxTouchPoints > 0) ||
+                   window.innerWidth <= 768;
+  }
+
+  private calculateUIScale(): void {
+    if (this.isMobile) {
+      const baseScale = Math.min(this.canvasWidth / 800, this.canvasHeight / 600);
+      this.uiScale = Math.max(0.8, Math.min(1.5, baseScale));
+    } else {
+      this.uiScale = 1;
+    }
+  }
+
+  private layoutButtons(): void {
+    // Auto-advance and game mode toggles side by side
+    const gap = 10;
+    const toggleWidth = Math.min(this.isMobile ? Math.max(200, 220 * this.uiScale) : 200, (this.getTableWidth() - gap) / 2);
+    const toggleHeight = this.isMobile ? Math.max(36, 40 * this.uiScale) : 26;
+    this.autoAdvanceButton = {
+      x: this.canvasWidth / 2 - toggleWidth - gap / 2,
+      y: 50,
+      width: toggleWidth,
+      height: toggleHeight
+    };
+    this.gameModeButton = {
+      x: this.canvasWidth / 2 + gap / 2,
+      y: 50,
+      width: toggleWidth,
+      height: toggleHeight
+    };
+
+    // Page buttons sit either side of the close hint
+    const pageWidth = this.isMobile ? Math.max(60, 70 * this.uiScale) : 60;
+    const pageHeight = this.isMobile ? Math.max(36, 40 * this.uiScale) : 26;
+    const pageY = this.canvasHeight - pageHeight - 40;
+    const tableWidth = this.getTableWidth();
+    this.previousPageButton = { x: this.canvasWidth / 2 - tableWidth / 2, y: pageY, width: pageWidth, height: pageHeight };
+    this.nextPageButton = { x: this.canvasWidth / 2 + tableWidth / 2 - pageWidth, y: pageY, width: pageWidth, height: pageHeight };
+  }
+
+  private getTableWidth(): number {
+    return Math.min(this.canvasWidth - 20, 560);
+  }
+
+  private getRowHeight(): number {
+    return this.isMobile ? Math.max(44, 48 * this.uiScale) : 40;
+  }
+
+  // Rows that fit between the header and the page buttons
+  private getVisibleRowCount(): number {
+    return Math.max(1, Math.floor((this.previousPageButton.y - 10 - this.LIST_TOP) / this.getRowHeight()));
+  }
+
+  render(ctx: CanvasRenderingContext2D): void {
+    if (!this.showPanel) return;
+
+    ctx.save();
+
+    // Draw semi-transparent background
+    ctx.fillStyle = 'rgba(10, 15, 0, 0.9)';
+    ctx.fillRect(0, 0, this.canvasWidth, this.canvasHeight);
+
+    const titleFontSize = this.isMobile ? Math.max(20, 24 * this.uiScale) : 24;
+    const nameFontSize = this.isMobile ? Math.max(13, 14 * this.uiScale) : 14;
+    const detailFontSize = this.isMobile ? Math.max(10, 11 * this.uiScale) : 11;
+    const closeFontSize = this.isMobile ? Math.max(14, 16 * this.uiScale) : 16;
+    const centerX = this.canvasWidth / 2;
+
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'middle';
+    ctx.fillStyle = '#C5E17A';
+    ctx.font = `bold ${titleFontSize}px Arial`;
+    ctx.fillText('AREA MAP', centerX, 25);
+
+    ctx.font = `bold ${nameFontSize}px Arial`;
+    const autoAdvance = SettingsManager.getInstance().isAutoAdvanceEnabled();
+    this.renderButton(ctx, this.autoAdvanceButton, `Auto-advance: ${autoAdvance ? 'ON' : 'OFF'}`, autoAdvance ? '#1E8449' : '#444444');
+    const waves = SettingsManager.getInstance().getGameMode() === 'waves';
+    this.renderButton(ctx, this.gameModeButton, `Mode: ${waves ? 'Waves' : 'Sandbox'}`, waves ? '#A04000' : '#444444');
+
+    // Unlocked areas, then a preview of the next locked one
+    const walkersDefeated = this.resourceManager.getWalkersDefeated();
+    const unlocked = this.areaManager.getUnlockedAreas();
+    const nextArea = this.areaManager.getArea(unlocked.length);
+    const rowCount = unlocked.length + (nextArea ? 1 : 0);
+    const visibleRows = this.getVisibleRowCount();
+    this.firstRow = Math.max(0, Math.min(this.firstRow, rowCount - visibleRows));
+
+    const tableWidth = this.getTableWidth();
+    const tableX = centerX - tableWidth / 2;
+    const rowHeight = this.getRowHeight();
+    const travelWidth = this.isMobile ? Math.max(80, 90 * this.uiScale) : 80;
+    this.travelButtons = [];
+
+    for (let row = this.firstRow; row < Math.min(rowCount, this.firstRow + visibleRows); row++) {
+      const y = this.LIST_TOP + (row - this.firstRow) * rowHeight;
+      const area = row < unlocked.length ? unlocked[row] : nextArea!;
+      const isUnlocked = row < unlocked.length;
+      const isCurrent = area.id === this.areaManager.getCurrentAreaId();
+
+      ctx.fillStyle = isCurrent ? 'rgba(197, 225, 122, 0.15)' : 'rgba(255, 255, 255, 0.05)';
+      ctx.fillRect(tableX, y, tableWidth, rowHeight - 4);
+
+      // Swatch in the area's background color
+      ctx.fillStyle = area.backgroundColor;
+      ctx.fillRect(tableX + 6, y + 6, 8, rowHeight - 16);
+
+      ctx.textAlign = 'left';
+      ctx.fillStyle = isUnlocked ? '#FFFFFF' : '#888888';
+      ctx.font = `bold ${nameFontSize}px Arial`;
+      ctx.fillText(`${area.id + 1}. ${area.name}`, tableX + 22, y + rowHeight * 0.3);
+      ctx.font = `${detailFontSize}px Arial`;
+      ctx.fillStyle = isUnlocked ? '#CCCCCC' : '#777777';
+      ctx.fillText(AreaMapPanel.describeArea(area), tableX + 22, y + rowHeight * 0.68);
+
+      ctx.textAlign = 'right';
+      ctx.font = `bold ${nameFontSize}px Arial`;
+      ctx.fillStyle = '#FFD700';
+      ctx.fillText(`x${formatNumber(area.soulMultiplier)}`, tableX + tableWidth - travelWidth - 14, y + rowHeight * 0.3);
+
+      const button = { x: tableX + tableWidth - travelWidth - 6, y: y + 5, width: travelWidth, height: rowHeight - 14 };
+      if (isCurrent) {
+        ctx.textAlign = 'center';
+        ctx.fillStyle = '#C5E17A';
+        ctx.fillText('HERE', button.x + button.width / 2, button.y + button.height / 2);
+      } else if (isUnlocked) {
+        this.renderButton(ctx, button, 'Travel', '#1F618D');
+        this.travelButtons.push({ areaId: area.id, button });
+      } else {
+        ctx.textAlign = 'center';
+        ctx.fillStyle = '#888888';
+        ctx.font = `${detailFontSize}px Arial`;
+        // Locked until the previous area's boss falls
+        const lockText = walkersDefeated >= area.unlockRequirement
+          ? 'Defeat boss'
+          : `${formatNumber(walkersDefeated)}/${formatNumber(area.unlockRequirement)}`;
+        ctx.fillText(lockText, button.x + button.width / 2, button.y + button.height / 2);
+      }
+    }
+
+    // Paging when there are more areas than fit
+    ctx.font = `bold ${nameFontSize}px Arial`;
+    if (this.firstRow > 0) {
+      this.renderButton(ctx, this.previousPageButton, '▲', '#333333');
+    }
+    this.hasNextPage = this.firstRow + visibleRows < rowCount;
+    if (this.hasNextPage) {
+      this.renderButton(ctx, this.nextPageButton, '▼', '#333333');
+    }
+
+    ctx.textAlign = 'center';
+    ctx.fillStyle = '#CCCCCC';
+    ctx.font = `${closeFontSize}px Arial`;
+    const closeText = this.isMobile ? 'Tap map button to close' : 'Press T to close';
+    ctx.fillText(closeText, centerX, this.canvasHeight - 20);
+
+    ctx.restore();
+  }
+
+  private renderButton(ctx: CanvasRenderingContext2D, button: PanelButton, label: string, color: string): void {
+    ctx.fillStyle = color;
+    ctx.fillRect(button.x, button.y, button.width, button.height);
+    ctx.strokeStyle = '#777777';
+    ctx.lineWidth = 1;
+    ctx.strokeRect(button.x, button.y, button.width, button.height);
+
+    ctx.textAlign = 'center';
+    ctx.fillStyle = '#FFFFFF';
+    ctx.fillText(label, button.x + button.width / 2, button.y + button.height / 2);
+  }
+
+  // Walker stats, spawn mix and any area modifiers on one line
+  private static describeArea(area: AreaConfig): string {
+    const totalWeight = area.spawnTable.reduce((sum, entry) => sum + Math.max(0, entry.weight), 0);
+    const spawns = area.spawnTable
+      .filter(entry => entry.weight > 0)
+      .map(entry => `${Math.round(entry.weight / totalWeight * 100)}% ${getWalkerArchetype(entry.archetype).name.toLowerCase()}`)
+      .join(', ');
+    const parts = [`${formatNumber(area.walkerHealth)} HP`, `speed ${area.walkerSpeed}`, spawns];
+    if (area.modifiers.length > 0) {
+      parts.push(area.modifiers.map(AreaMapPanel.describeModifier).join(', '));
+    }
+    return parts.join(' · ');
+  }
+
+  private static describeModifier(modifier: StatModifier): string {
+    const sign = modifier.value >= 0 ? '+' : '';
+    const stat = modifier.stat.replace(/-/g, ' ');
+    return modifier.type === 'percent' || modifier.stat === 'infection-chance'
+      ? `${sign}${Math.round(modifier.value * 100)}% ${stat}`
+      : `${sign}${modifier.value} ${stat}`;
+  }
+
+  toggle(): void {
+    this.showPanel = !this.showPanel;
+
+    // Open on the page with the current area
+    if (this.showPanel) {
+      this.firstRow = Math.max(0, this.areaManager.getCurrentAreaId() - Math.floor(this.getVisibleRowCount() / 2));
+    }
+  }
+
+  isOpen(): boolean {
+    return this.showPanel;
+  }
+
+  // Handle click on panel buttons (returns true if the click was used)
+  handleClick(mousePos: Vector2): boolean {
+    if (!this.showPanel) return false;
+
+    if (this.isPointInButton(mousePos, this.autoAdvanceButton)) {
+      const enabled = !SettingsManager.getInstance().isAutoAdvanceEnabled();
+      return this.autoAdvanceHandler ? this.autoAdvanceHandler(enabled) : false;
+    }
+
+    if (this.isPointInButton(mousePos, this.gameModeButton)) {
+      const mode: GameMode = SettingsManager.getInstance().getGameMode() === 'waves' ? 'sandbox' : 'waves';
+      return this.gameModeHandler ? this.gameModeHandler(mode) : false;
+    }
+
+    for (const { areaId, button } of this.travelButtons) {
+      if (this.isPointInButton(mousePos, button)) {
+        return this.travelHandler ? this.travelHandler(areaId) : false;
+      }
+    }
+
+    const visibleRows = this.getVisibleRowCount();
+    if (this.firstRow > 0 && this.isPointInButton(mousePos, this.previousPageButton)) {
+      this.firstRow = Math.max(0, this.firstRow - visibleRows);
+      return true;
+    }
+    if (this.hasNextPage && this.isPointInButton(mousePos, this.nextPageButton)) {
+      this.firstRow += visibleRows;
+      return true;
+    }
+
+    return false;
+  }
+
+  private isPointInButton(point: Vector2, button: PanelButton): boolean {
+    return point.x >= button.x &&
+           point.x <= button.x + button.width &&
+           point.y >= button.y &&
+           point.y <= button.y + button.height;
+  }
+
+  // Update canvas dimensions when window resizes
+  updateCanvasDimensions(width: number, height: number): void {
+    this.canvasWidth = width;
+    this.canvasHeight = height;
+    this.detectMobile();
+    this.calculateUIScale();
+    this.layoutButtons();
+  }
+
+  // Set handler that moves to an unlocked area (routed through the command path)
+  setTravelHandler(handler: (areaId: number) => boolean): void {
+    this.travelHandler = handler;
+  }
+
+  // Set handler that saves the auto-advance setting and applies it to the simulation
+  setAutoAdvanceHandler(handler: (enabled: boolean) => boolean): void {
+    this.autoAdvanceHandler = handler;
+  }
+
+  // Set handler that saves the game mode setting and switches the simulation to it
+  setGameModeHandler(handler: (mode: GameMode) => boolean): void {
+    this.gameModeHandler = handler;
+  }
+}
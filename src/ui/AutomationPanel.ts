@@ -0,0 +1,313 @@
+// Automation panel: per-upgrade auto-buy toggles, rules and priority order
+import { AutomationManager, AutoBuyRule, AutoBuySetting } from '../managers/AutomationManager.ts';
+import { UpgradeManager } from '../managers/UpgradeManager.ts';
+import { Vector2 } from '../core/Vector2.ts';
+import { formatNumber } from './NumberFormat.ts';
+
+interface PanelButton {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// Click areas for one row of the priority list
+interface AutomationRow {
+  y: number;
+  toggle: PanelButton;
+  rule: PanelButton;
+  decrease: PanelButton;
+  increase: PanelButton;
+  moveUp: PanelButton;
+}
+
+// Steps offered by the -/+ buttons
+const PERCENT_STEPS = [1, 2, 5, 10, 25, 50, 100];
+const RULE_ORDER: AutoBuyRule['type'][] = ['cost-percent', 'reserve', 'priority'];
+
+export class AutomationPanel {
+  private automationManager: AutomationManager;
+  private upgradeManager: UpgradeManager;
+  private canvasWidth: number;
+  private canvasHeight: number;
+  private rows: AutomationRow[] = [];
+  private tableX: number = 0;
+  private showPanel: boolean = false;
+  private configureHandler?: (upgradeId: string, setting: AutoBuySetting) => boolean;
+  private priorityHandler?: (upgradeIds: string[]) => boolean;
+  private isMobile: boolean = false;
+  private uiScale: number = 1;
+
+  private readonly LIST_TOP = 85;
+
+  constructor(automationManager: AutomationManager, upgradeManager: UpgradeManager, canvasWidth: number, canvasHeight: number) {
+    this.automationManager = automationManager;
+    this.upgradeManager = upgradeManager;
+    this.canvasWidth = canvasWidth;
+    this.canvasHeight = canvasHeight;
+    this.detectMobile();
+    this.calculateUIScale();
+    this.layoutButtons();
+  }
+
+  private detectMobile(): void {
+    this.isMobile = /Android|webOS|iPhone|iPad|iPod|BlackBerry|IEMobile|Opera Mini/i.test(navigator.userAgent) ||
+                   ('ontouchstart' in window) ||
+                   (navigator.maxTouchPoints > 0) ||
+                   window.innerWidth <= 768;
+  }
+
+  private calculateUIScale(): void {
+    if (this.isMobile) {
+      const baseScale = Math.min(this.canvasWidth / 800, this.canvasHeight / 600);
+      this.uiScale = Math.max(0.8, Math.min(1.5, baseScale));
+    } else {
+      this.uiScale = 1;
+    }
+  }
+
+  // One row per run upgrade, squeezed to fit between the header and the close hint
+  private layoutButtons(): void {
+    const rowCount = this.automationManager.getPriority().length;
+    const rowHeight = Math.max(16, Math.min(24, (this.canvasHeight - this.LIST_TOP - 50) / Math.max(1, rowCount)));
+    const buttonHeight = rowHeight - 3;
+    const tableWidth = Math.min(this.canvasWidth - 20, 560);
+    this.tableX = this.canvasWidth / 2 - tableWidth / 2;
+
+    // Controls are right-aligned: toggle, rule, -, value, +, move up
+    const right = this.tableX + tableWidth;
+    const small = buttonHeight;
+    const moveUpX = right - small;
+    const increaseX = moveUpX - 6 - small;
+    const decreaseX = increaseX - 70 - small;
+    const ruleX = decreaseX - 6 - 80;
+    const toggleX = ruleX - 6 - 40;
+
+    this.rows = [];
+    for (let i = 0; i < rowCount; i++) {
+      const y = this.LIST_TOP + i * rowHeight;
+      this.rows.push({
+        y,
+        toggle: { x: toggleX, y, width: 40, height: buttonHeight },
+        rule: { x: ruleX, y, width: 80, height: buttonHeight },
+        decrease: { x: decreaseX, y, width: small, height: buttonHeight },
+        increase: { x: increaseX, y, width: small, height: buttonHeight },
+        moveUp: { x: moveUpX, y, width: small, height: buttonHeight }
+      });
+    }
+  }
+
+  render(ctx: CanvasRenderingContext2D): void {
+    if (!this.showPanel) return;
+
+    ctx.save();
+
+    // Draw semi-transparent background
+    ctx.fillStyle = 'rgba(0, 15, 10, 0.9)';
+    ctx.fillRect(0, 0, this.canvasWidth, this.canvasHeight);
+
+    const titleFontSize = this.isMobile ? Math.max(20, 24 * this.uiScale) : 24;
+    const infoFontSize = this.isMobile ? Math.max(12, 14 * this.uiScale) : 14;
+    const rowFontSize = this.isMobile ? Math.max(10, 11 * this.uiScale) : 11;
+    const closeFontSize = this.isMobile ? Math.max(14, 16 * this.uiScale) : 16;
+    const centerX = this.canvasWidth / 2;
+
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'middle';
+    ctx.fillStyle = '#7DCEA0';
+    ctx.font = `bold ${titleFontSize}px Arial`;
+    ctx.fillText('AUTOMATION', centerX, 30);
+
+    ctx.font = `${infoFontSize}px Arial`;
+    if (!this.automationManager.isUnlocked()) {
+      ctx.fillStyle = '#CCCCCC';
+      ctx.fillText('Buy Mindless Servants in the prestige panel to unlock the auto-buyer', centerX, this.canvasHeight / 2);
+    } else {
+      ctx.fillStyle = '#CCCCCC';
+      const seconds = this.automationManager.getCheckInterval() / 1000;
+      ctx.fillText(`Rules are checked every ${seconds.toFixed(2).replace(/\.?0+$/, '')}s, top of the list first`, centerX, 58);
+
+      ctx.font = `${rowFontSize}px Arial`;
+      this.automationManager.getPriority().forEach((upgradeId, index) => {
+        const row = this.rows[index];
+        if (row) this.renderRow(ctx, row, upgradeId, index);
+      });
+    }
+
+    ctx.textAlign = 'center';
+    ctx.fillStyle = '#CCCCCC';
+    ctx.font = `${closeFontSize}px Arial`;
+    const closeText = this.isMobile ? 'Tap automation button to close' : 'Press A to close';
+    ctx.fillText(closeText, centerX, this.canvasHeight - 20);
+
+    ctx.restore();
+  }
+
+  private renderRow(ctx: CanvasRenderingContext2D, row: AutomationRow, upgradeId: string, index: number): void {
+    const definition = this.upgradeManager.getUpgradeDefinition(upgradeId);
+    const setting = this.automationManager.getSetting(upgradeId);
+    const purchasable = this.upgradeManager.canPurchaseUpgrade(upgradeId);
+    const centerY = row.y + row.toggle.height / 2;
+
+    ctx.textAlign = 'left';
+    ctx.fillStyle = purchasable ? '#FFFFFF' : '#888888';
+    const status = this.upgradeManager.isUpgradeMaxed(upgradeId) ? 'MAX' : `Lv.${this.upgradeManager.getUpgradeLevel(upgradeId)}`;
+    ctx.fillText(`${index + 1}. ${definition?.label ?? upgradeId} (${status})`, this.tableX, centerY);
+
+    this.renderButton(ctx, row.toggle, setting.enabled ? 'ON' : 'OFF', setting.enabled ? '#1E8449' : '#444444');
+    this.renderButton(ctx, row.rule, AutomationPanel.getRuleLabel(setting.rule), '#1F618D');
+
+    // Rule parameter with -/+ (priority has none)
+    if (setting.rule.type !== 'priority') {
+      this.renderButton(ctx, row.decrease, '-', '#333333');
+      this.renderButton(ctx, row.increase, '+', '#333333');
+      ctx.textAlign = 'center';
+      ctx.fillStyle = '#FFD700';
+      const valueX = (row.decrease.x + row.decrease.width + row.increase.x) / 2;
+      ctx.fillText(AutomationPanel.getRuleValue(setting.rule), valueX, centerY);
+    }
+
+    if (index > 0) {
+      this.renderButton(ctx, row.moveUp, '▲', '#333333');
+    }
+  }
+
+  private renderButton(ctx: CanvasRenderingContext2D, button: PanelButton, label: string, color: string): void {
+    ctx.fillStyle = color;
+    ctx.fillRect(button.x, button.y, button.width, button.height);
+    ctx.strokeStyle = '#777777';
+    ctx.lineWidth = 1;
+    ctx.strokeRect(button.x, button.y, button.width, button.height);
+
+    ctx.textAlign = 'center';
+    ctx.fillStyle = '#FFFFFF';
+    ctx.fillText(label, button.x + button.width / 2, button.y + button.height / 2);
+  }
+
+  private static getRuleLabel(rule: AutoBuyRule): string {
+    switch (rule.type) {
+      case 'cost-percent':
+        return 'Cost under';
+      case 'reserve':
+        return 'Keep souls';
+      case 'priority':
+        return 'Priority';
+    }
+  }
+
+  private static getRuleValue(rule: AutoBuyRule): string {
+    switch (rule.type) {
+      case 'cost-percent':
+        return `${rule.percent}%`;
+      case 'reserve':
+        return formatNumber(rule.souls);
+      case 'priority':
+        return '';
+    }
+  }
+
+  // Next or previous step of a rule's parameter
+  private static stepRule(rule: AutoBuyRule, direction: 1 | -1): AutoBuyRule {
+    switch (rule.type) {
+      case 'cost-percent': {
+        const index = PERCENT_STEPS.findIndex(step => step >= rule.percent);
+        const current = index === -1 ? PERCENT_STEPS.length - 1 : index;
+        const next = Math.max(0, Math.min(PERCENT_STEPS.length - 1, current + direction));
+        return { type: 'cost-percent', percent: PERCENT_STEPS[next] };
+      }
+      case 'reserve': {
+        // Reserves step through powers of ten (0, 10, 100, 1K, ...)
+        if (direction > 0) {
+          return { type: 'reserve', souls: rule.souls < 10 ? 10 : rule.souls * 10 };
+        }
+        return { type: 'reserve', souls: rule.souls <= 10 ? 0 : rule.souls / 10 };
+      }
+      case 'priority':
+        return rule;
+    }
+  }
+
+  private static createRule(type: AutoBuyRule['type']): AutoBuyRule {
+    switch (type) {
+      case 'cost-percent':
+        return { type: 'cost-percent', percent: 10 };
+      case 'reserve':
+        return { type: 'reserve', souls: 100 };
+      case 'priority':
+        return { type: 'priority' };
+    }
+  }
+
+  toggle(): void {
+    this.showPanel = !this.showPanel;
+  }
+
+  isOpen(): boolean {
+    return this.showPanel;
+  }
+
+  // Handle click on panel buttons (returns true if the click changed a setting)
+  handleClick(mousePos: Vector2): boolean {
+    if (!this.showPanel || !this.automationManager.isUnlocked()) return false;
+
+    const priority = this.automationManager.getPriority();
+    for (let index = 0; index < priority.length; index++) {
+      const row = this.rows[index];
+      if (!row) break;
+
+      const upgradeId = priority[index];
+      const setting = this.automationManager.getSetting(upgradeId);
+
+      if (this.isPointInButton(mousePos, row.toggle)) {
+        return this.configure(upgradeId, { enabled: !setting.enabled, rule: setting.rule });
+      }
+      if (this.isPointInButton(mousePos, row.rule)) {
+        const nextType = RULE_ORDER[(RULE_ORDER.indexOf(setting.rule.type) + 1) % RULE_ORDER.length];
+        return this.configure(upgradeId, { enabled: setting.enabled, rule: AutomationPanel.createRule(nextType) });
+      }
+      if (setting.rule.type !== 'priority' && this.isPointInButton(mousePos, row.decrease)) {
+        return this.configure(upgradeId, { enabled: setting.enabled, rule: AutomationPanel.stepRule(setting.rule, -1) });
+      }
+      if (setting.rule.type !== 'priority' && this.isPointInButton(mousePos, row.increase)) {
+        return this.configure(upgradeId, { enabled: setting.enabled, rule: AutomationPanel.stepRule(setting.rule, 1) });
+      }
+      if (index > 0 && this.isPointInButton(mousePos, row.moveUp)) {
+        const reordered = [...priority];
+        [reordered[index - 1], reordered[index]] = [reordered[index], reordered[index - 1]];
+        return this.priorityHandler ? this.priorityHandler(reordered) : false;
+      }
+    }
+
+    return false;
+  }
+
+  private configure(upgradeId: string, setting: AutoBuySetting): boolean {
+    return this.configureHandler ? this.configureHandler(upgradeId, setting) : false;
+  }
+
+  private isPointInButton(point: Vector2, button: PanelButton): boolean {
+    return point.x >= button.x &&
+           point.x <= button.x + button.width &&
+           point.y >= button.y &&
+           point.y <= button.y + button.height;
+  }
+
+  // Update canvas dimensions when window resizes
+  updateCanvasDimensions(width: number, height: number): void {
+    this.canvasWidth = width;
+    this.canvasHeight = height;
+    this.detectMobile();
+    this.calculateUIScale();
+    this.layoutButtons();
+  }
+
+  // Set handler that applies a toggle or rule change (routed through the command path)
+  setConfigureHandler(handler: (upgradeId: string, setting: AutoBuySetting) => boolean): void {
+    this.configureHandler = handler;
+  }
+
+  // Set handler that applies a new priority order (routed through the command path)
+  setPriorityHandler(handler: (upgradeIds: string[]) => boolean): void {
+    this.priorityHandler = handler;
+  }
+}
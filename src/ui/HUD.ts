@@ -1,14 +1,26 @@
 // HUD (Heads-Up Display) for showing game information and upgrade buttons
 import { ResourceManager } from '../managers/ResourceManager.ts';
-import { UpgradeManager } from '../managers/UpgradeManager.ts';
+import { UpgradeManager, PurchaseMode, PURCHASE_MODES } from '../managers/UpgradeManager.ts';
 import { AreaManager } from '../managers/AreaManager.ts';
+import { IncomeTracker, INCOME_WINDOWS } from '../managers/IncomeTracker.ts';
 import { AccessibilityManager } from '../managers/AccessibilityManager.ts';
+import { WalkerSystem } from '../systems/WalkerSystem.ts';
+import { WaveSystem } from '../systems/WaveSystem.ts';
+import { Walker } from '../entities/Walker.ts';
 import { Vector2 } from '../core/Vector2.ts';
+import { Animation } from '../core/Animation.ts';
+import { Unsubscribe } from '../core/EventBus.ts';
+import { GameEventBus, AchievementUnlockedEvent } from '../core/GameEvents.ts';
+import { ZombieTypeId, getZombieType } from '../entities/ZombieTypes.ts';
+import { OfflineProgressSummary } from '../core/OfflineProgress.ts';
+import { CurrencyAmounts, CURRENCY_DEFINITIONS, CURRENCY_ORDER } from '../managers/CurrencyDefinitions.ts';
+import { UpgradeTreePanel } from './UpgradeTreePanel.ts';
+import { formatNumber } from './NumberFormat.ts';
 
 export interface UpgradeButton {
   id: string;
   label: string;
-  cost: number;
+  cost: CurrencyAmounts;
   description: string;
   x: number;
   y: number;
@@ -18,29 +30,56 @@ export interface UpgradeButton {
   level: number;
 }
 
+// Achievement unlock notice queued for display
+interface AchievementToast {
+  event: AchievementUnlockedEvent;
+  shownAt: number | null; // Set when the toast reaches the front of the queue
+}
+
 export class HUD {
   private resourceManager: ResourceManager;
   private upgradeManager: UpgradeManager;
   private areaManager: AreaManager;
+  private incomeTracker: IncomeTracker;
+  private walkerSystem: WalkerSystem;
+  private waveSystem: WaveSystem;
   private canvasWidth: number;
   private canvasHeight: number;
-  private upgradeButtons: UpgradeButton[] = [];
+  private upgradeTree: UpgradeTreePanel;
   private showUpgradeMenu: boolean = false;
-  private onUpgradePurchased?: (upgradeId: string) => void;
+  private selectedZombieType: ZombieTypeId = 'shambler';
+  private offlineSummary: OfflineProgressSummary | null = null;
+  private achievementToasts: AchievementToast[] = [];
+  private readonly TOAST_DURATION = 4000; // ms each toast stays on screen
+  private readonly TOAST_FADE = 500; // ms fade out at the end
+  private upgradePurchaseHandler?: (upgradeId: string, count: number) => boolean;
   private isMobile: boolean = false;
   private uiScale: number = 1;
   private accessibilityManager: AccessibilityManager;
 
-  constructor(resourceManager: ResourceManager, upgradeManager: UpgradeManager, areaManager: AreaManager, canvasWidth: number, canvasHeight: number) {
+  constructor(
+    resourceManager: ResourceManager,
+    upgradeManager: UpgradeManager,
+    areaManager: AreaManager,
+    incomeTracker: IncomeTracker,
+    walkerSystem: WalkerSystem,
+    waveSystem: WaveSystem,
+    canvasWidth: number,
+    canvasHeight: number
+  ) {
     this.resourceManager = resourceManager;
     this.upgradeManager = upgradeManager;
     this.areaManager = areaManager;
+    this.incomeTracker = incomeTracker;
+    this.walkerSystem = walkerSystem;
+    this.waveSystem = waveSystem;
     this.canvasWidth = canvasWidth;
     this.canvasHeight = canvasHeight;
     this.accessibilityManager = AccessibilityManager.getInstance();
     this.detectMobile();
     this.calculateUIScale();
-    this.initializeUpgradeButtons();
+    this.upgradeTree = new UpgradeTreePanel(resourceManager, upgradeManager, canvasWidth, canvasHeight, this.isMobile);
+    this.upgradeTree.setOnPurchaseModeChanged(mode => this.announcePurchaseMode(mode));
   }
 
   private detectMobile(): void {
@@ -60,53 +99,39 @@ export class HUD {
     }
   }
 
-  private initializeUpgradeButtons(): void {
-    // Scale button size for mobile
-    const buttonWidth = this.isMobile ? Math.max(200, 250 * this.uiScale) : 180;
-    const buttonHeight = this.isMobile ? Math.max(60, 70 * this.uiScale) : 50;
-    
-    // Initialize upgrade buttons with data from upgrade manager
-    this.upgradeButtons = [
-      {
-        id: 'zombie-speed',
-        label: 'Zombie Speed',
-        cost: this.upgradeManager.getUpgradeCost('zombie-speed'),
-        description: 'Increase zombie movement speed (+20%)',
-        x: 0, y: 0, width: buttonWidth, height: buttonHeight,
-        enabled: false,
-        level: this.upgradeManager.getUpgradeLevel('zombie-speed')
-      },
-      {
-        id: 'max-zombies',
-        label: 'Max Zombies',
-        cost: this.upgradeManager.getUpgradeCost('max-zombies'),
-        description: 'Increase maximum zombie count (+5)',
-        x: 0, y: 0, width: buttonWidth, height: buttonHeight,
-        enabled: false,
-        level: this.upgradeManager.getUpgradeLevel('max-zombies')
-      }
-    ];
-  }
-
-  update(): void {
-    // Update button positions, costs, levels, and enabled states
-    const souls = this.resourceManager.getSouls();
-    
-    for (let i = 0; i < this.upgradeButtons.length; i++) {
-      const button = this.upgradeButtons[i];
-      
-      // Update cost and level from upgrade manager
-      button.cost = this.upgradeManager.getUpgradeCost(button.id);
-      button.level = this.upgradeManager.getUpgradeLevel(button.id);
-      button.enabled = souls >= button.cost;
-      
-      // Position buttons in upgrade menu area
-      if (this.showUpgradeMenu) {
-        button.x = this.canvasWidth / 2 - button.width / 2;
-        const buttonSpacing = this.isMobile ? button.height + 20 : 70;
-        button.y = this.canvasHeight / 2 - 100 + (i * buttonSpacing);
-      }
-    }
+  // Set the zombie type the player spawns (shows its upgrade tracks in the menu)
+  setSelectedZombieType(typeId: ZombieTypeId): void {
+    this.selectedZombieType = typeId;
+    this.upgradeTree.setZombieType(typeId);
+  }
+
+  getPurchaseMode(): PurchaseMode {
+    return this.upgradeTree.getPurchaseMode();
+  }
+
+  setPurchaseMode(mode: PurchaseMode): void {
+    this.upgradeTree.setPurchaseMode(mode);
+    this.announcePurchaseMode(mode);
+  }
+
+  // Step to the next purchase mode (x1 → x10 → x100 → Max → x1)
+  cyclePurchaseMode(): void {
+    const index = PURCHASE_MODES.indexOf(this.getPurchaseMode());
+    this.setPurchaseMode(PURCHASE_MODES[(index + 1) % PURCHASE_MODES.length]);
+  }
+
+  private announcePurchaseMode(mode: PurchaseMode): void {
+    this.accessibilityManager.announce(`Buy mode ${UpgradeTreePanel.getPurchaseModeLabel(mode)}`, 'polite');
+  }
+
+  // Show toasts for gameplay events (returns a function that stops listening)
+  subscribeTo(events: GameEventBus): Unsubscribe {
+    return events.on('achievement-unlocked', event => this.showAchievementToast(event));
+  }
+
+  // Queue an achievement unlock toast (shown one at a time)
+  showAchievementToast(event: AchievementUnlockedEvent): void {
+    this.achievementToasts.push({ event, shownAt: null });
   }
 
   render(ctx: CanvasRenderingContext2D): void {
@@ -117,6 +142,12 @@ export class HUD {
     if (this.showUpgradeMenu) {
       this.renderUpgradeMenu(ctx);
     }
+    
+    if (this.offlineSummary) {
+      this.renderOfflineSummary(ctx, this.offlineSummary);
+    }
+    
+    this.renderAchievementToast(ctx);
   }
 
   private renderSoulsCounter(ctx: CanvasRenderingContext2D): void {
@@ -136,16 +167,69 @@ export class HUD {
     const walkersDefeated = this.resourceManager.getWalkersDefeated();
     
     const yOffset = this.isMobile ? 40 : 35;
-    ctx.fillText(`Souls: ${souls}`, 10, yOffset);
+    ctx.fillText(`Souls: ${formatNumber(souls)}`, 10, yOffset);
     
-    // Show walkers defeated count
+    // Show income over each rolling window (10s / 1m / 10m)
     ctx.font = `${subFontSize}px Arial`;
+    const rates = INCOME_WINDOWS.map(windowSeconds =>
+      `${formatNumber(this.incomeTracker.getSoulsPerSecond(windowSeconds))}/s (${HUD.formatWindow(windowSeconds)})`
+    );
+    ctx.fillText(rates.join('  '), 10, yOffset + 25);
+    
+    // Show walkers defeated count and kill rate
+    const killsPerMinute = Math.round(this.incomeTracker.getKillsPerMinute());
     ctx.fillStyle = '#CCCCCC';
-    ctx.fillText(`Walkers Defeated: ${walkersDefeated}`, 10, yOffset + 25);
+    ctx.fillText(`Walkers Defeated: ${walkersDefeated} (${killsPerMinute}/min)`, 10, yOffset + 45);
+    
+    // Show how long until the next upgrade can be bought
+    const nextUpgrade = this.incomeTracker.getNextUpgradeEstimate();
+    if (nextUpgrade) {
+      const wait = nextUpgrade.timeMs > 0 ? `in ${HUD.formatCountdown(nextUpgrade.timeMs)}` : 'ready';
+      ctx.fillText(`Next upgrade: ${nextUpgrade.label} ${wait}`, 10, yOffset + 65);
+    }
+    
+    // Show the zombie type being spawned
+    const zombieType = getZombieType(this.selectedZombieType);
+    ctx.fillStyle = '#98FB98';
+    ctx.fillText(`Spawning: ${zombieType.name}`, 10, yOffset + 85);
+    
+    // Show secondary currencies once any have been collected
+    let currencyX = 10;
+    for (const currency of CURRENCY_ORDER) {
+      if (currency === 'souls' || this.resourceManager.getBalance(currency).isZero()) continue;
+      const text = `${CURRENCY_DEFINITIONS[currency].name}: ${formatNumber(this.resourceManager.getBalance(currency))}`;
+      ctx.fillStyle = CURRENCY_DEFINITIONS[currency].color;
+      ctx.fillText(text, currencyX, yOffset + 105);
+      currencyX += ctx.measureText(text).width + 15;
+    }
     
     ctx.restore();
   }
 
+  // Boss name over a wide health bar in place of the area progress
+  private renderBossHealthBar(ctx: CanvasRenderingContext2D, boss: Walker, centerX: number, y: number, fontSize: number): void {
+    ctx.font = `bold ${fontSize}px Arial`;
+    ctx.fillStyle = '#F1C40F';
+    ctx.fillText(`BOSS: ${boss.boss?.name ?? boss.archetype.name}`, centerX, y);
+
+    const barWidth = this.isMobile ? Math.min(220, this.canvasWidth * 0.6) : 240;
+    const barHeight = this.isMobile ? 10 : 8;
+    const barX = centerX - barWidth / 2;
+    const barY = y + 15;
+
+    ctx.fillStyle = '#333333';
+    ctx.fillRect(barX, barY, barWidth, barHeight);
+    ctx.fillStyle = '#C0392B';
+    ctx.fillRect(barX, barY, barWidth * Math.max(0, boss.getHealthPercentage()), barHeight);
+    ctx.strokeStyle = '#F1C40F';
+    ctx.lineWidth = 1;
+    ctx.strokeRect(barX, barY, barWidth, barHeight);
+
+    ctx.font = `${fontSize}px Arial`;
+    ctx.fillStyle = '#FFFFFF';
+    ctx.fillText(`${formatNumber(Math.max(0, Math.ceil(boss.health)))}/${formatNumber(Math.ceil(boss.maxHealth))}`, centerX, barY + barHeight + 3);
+  }
+
   private renderAreaInfo(ctx: CanvasRenderingContext2D): void {
     ctx.save();
     
@@ -171,14 +255,25 @@ export class HUD {
     // Show area multiplier
     ctx.font = `${subFontSize}px Arial`;
     ctx.fillStyle = '#FFD700';
-    ctx.fillText(`Soul Multiplier: x${currentArea.soulMultiplier}`, centerX, startY + 20);
+    // Escaped walkers lower the area's yield until it recovers
+    const escapePenalty = Math.round((1 - this.areaManager.getSoulYieldMultiplier()) * 100);
+    const escapeText = escapePenalty > 0 ? ` (-${escapePenalty}% escapes)` : '';
+    ctx.fillText(`Soul Multiplier: x${formatNumber(currentArea.soulMultiplier)}${escapeText}`, centerX, startY + 20);
     
     // Show progress to next area
     const progress = this.areaManager.getProgressToNextArea(walkersDefeated);
-    if (progress) {
+    const boss = this.walkerSystem.getBoss();
+    if (boss) {
+      this.renderBossHealthBar(ctx, boss, centerX, startY + 35, smallFontSize);
+    } else if (progress) {
       ctx.font = `${smallFontSize}px Arial`;
       ctx.fillStyle = '#CCCCCC';
-      ctx.fillText(`Next Area: ${progress.current}/${progress.required} (${Math.floor(progress.percentage)}%)`, centerX, startY + 35);
+      // With auto-advance off (or after travelling back) the next area may already be open
+      const mapHint = this.isMobile ? 'tap the map button to travel' : 'press T to travel';
+      const progressText = progress.unlocked
+        ? `Next Area unlocked: ${mapHint}`
+        : `Boss arrives: ${progress.current}/${progress.required} (${Math.floor(progress.percentage)}%)`;
+      ctx.fillText(progressText, centerX, startY + 35);
       
       // Progress bar - scale for mobile
       const barWidth = this.isMobile ? Math.min(150, this.canvasWidth * 0.4) : 120;
@@ -199,6 +294,17 @@ export class HUD {
       ctx.fillStyle = '#FFD700';
       ctx.fillText('Maximum Area Reached!', centerX, startY + 35);
     }
+
+    // Wave counter below the area progress in wave mode
+    if (this.waveSystem.isActive()) {
+      ctx.font = `bold ${subFontSize}px Arial`;
+      ctx.fillStyle = '#FF9F43';
+      const wave = this.waveSystem.getWave();
+      const waveText = this.waveSystem.getPhase() === 'intermission'
+        ? `Wave ${wave + 1} in ${Math.ceil(this.waveSystem.getIntermissionRemaining() / 1000)}s`
+        : `Wave ${wave}: ${this.waveSystem.getWalkersRemaining()} walkers left`;
+      ctx.fillText(waveText, centerX, startY + 80);
+    }
     
     ctx.restore();
   }
@@ -218,6 +324,11 @@ export class HUD {
     ctx.fillStyle = '#666';
     
     ctx.fillText('Press U to open upgrades', 10, this.canvasHeight - 50);
+    ctx.fillText('Press 1-5 to choose zombie type', 10, this.canvasHeight - 70);
+    ctx.fillText('Press R for prestige', 10, this.canvasHeight - 90);
+    ctx.fillText(`Press B to change buy mode (${UpgradeTreePanel.getPurchaseModeLabel(this.getPurchaseMode())})`, 10, this.canvasHeight - 110);
+    ctx.fillText('Press S for statistics, A for automation, T for area map', 10, this.canvasHeight - 130);
+    ctx.fillText(`Press G to switch game mode (${this.waveSystem.isActive() ? 'waves' : 'sandbox'})`, 10, this.canvasHeight - 150);
     
     ctx.restore();
   }
@@ -239,68 +350,151 @@ export class HUD {
     ctx.font = `bold ${titleFontSize}px Arial`;
     ctx.textAlign = 'center';
     ctx.textBaseline = 'middle';
-    ctx.fillText('UPGRADES', this.canvasWidth / 2, this.canvasHeight / 2 - 150);
+    const titleY = this.isMobile ? 45 : 35;
+    ctx.fillText('UPGRADES', this.canvasWidth / 2, titleY);
     
-    // Draw souls counter in menu
+    // Draw balances in menu (souls plus any secondary currencies used by mixed costs)
     ctx.font = `${soulsFontSize}px Arial`;
     ctx.fillStyle = '#FFD700';
-    ctx.fillText(`Souls: ${this.resourceManager.getSouls()}`, this.canvasWidth / 2, this.canvasHeight / 2 - 120);
+    const balances = CURRENCY_ORDER
+      .filter(currency => currency !== 'essence' && (currency === 'souls' || !this.resourceManager.getBalance(currency).isZero()))
+      .map(currency => `${CURRENCY_DEFINITIONS[currency].name}: ${formatNumber(this.resourceManager.getBalance(currency))}`);
+    ctx.fillText(balances.join('   '), this.canvasWidth / 2, titleY + 30);
     
-    // Draw upgrade buttons
-    for (const button of this.upgradeButtons) {
-      this.renderUpgradeButton(ctx, button);
-    }
+    // Draw the upgrade tree graph
+    this.upgradeTree.render(ctx);
     
     // Draw close instruction
     ctx.fillStyle = '#CCCCCC';
     ctx.font = `${closeFontSize}px Arial`;
-    const closeText = this.isMobile ? 'Tap upgrade button to close' : 'Press U to close';
-    ctx.fillText(closeText, this.canvasWidth / 2, this.canvasHeight / 2 + 150);
+    const closeText = this.isMobile
+      ? 'Drag to scroll, tap upgrade button to close'
+      : 'Drag to scroll, wheel to zoom, press U to close';
+    ctx.fillText(closeText, this.canvasWidth / 2, this.canvasHeight - 25);
     
     ctx.restore();
   }
 
-  private renderUpgradeButton(ctx: CanvasRenderingContext2D, button: UpgradeButton): void {
+  // "While you were away" summary shown after returning to the game
+  private renderOfflineSummary(ctx: CanvasRenderingContext2D, summary: OfflineProgressSummary): void {
     ctx.save();
     
-    // Button background
-    ctx.fillStyle = button.enabled ? '#4CAF50' : '#666666';
-    ctx.fillRect(button.x, button.y, button.width, button.height);
+    const titleFontSize = this.isMobile ? Math.max(18, 20 * this.uiScale) : 20;
+    const textFontSize = this.isMobile ? Math.max(12, 14 * this.uiScale) : 14;
+    const panelWidth = Math.min(this.canvasWidth - 40, 360);
+    const panelHeight = summary.capped ? 170 : 150;
+    const panelX = this.canvasWidth / 2 - panelWidth / 2;
+    const panelY = this.canvasHeight / 2 - panelHeight / 2;
     
-    // Button border - thicker for mobile
-    ctx.strokeStyle = button.enabled ? '#45a049' : '#555555';
-    ctx.lineWidth = this.isMobile ? 3 : 2;
-    ctx.strokeRect(button.x, button.y, button.width, button.height);
+    ctx.fillStyle = 'rgba(0, 0, 0, 0.85)';
+    ctx.fillRect(panelX, panelY, panelWidth, panelHeight);
+    ctx.strokeStyle = '#FFD700';
+    ctx.lineWidth = 2;
+    ctx.strokeRect(panelX, panelY, panelWidth, panelHeight);
     
-    // Scale fonts for mobile
-    const labelFontSize = this.isMobile ? Math.max(12, 14 * this.uiScale) : 14;
-    const descFontSize = this.isMobile ? Math.max(9, 10 * this.uiScale) : 10;
-    const costFontSize = this.isMobile ? Math.max(10, 12 * this.uiScale) : 12;
-    
-    // Button text
-    ctx.fillStyle = button.enabled ? '#FFFFFF' : '#AAAAAA';
-    ctx.font = `bold ${labelFontSize}px Arial`;
+    const centerX = this.canvasWidth / 2;
     ctx.textAlign = 'center';
     ctx.textBaseline = 'middle';
     
-    const centerX = button.x + button.width / 2;
-    const centerY = button.y + button.height / 2;
+    ctx.fillStyle = '#FFFFFF';
+    ctx.font = `bold ${titleFontSize}px Arial`;
+    ctx.fillText('While you were away', centerX, panelY + 25);
+    
+    ctx.font = `${textFontSize}px Arial`;
+    ctx.fillStyle = '#CCCCCC';
+    ctx.fillText(`Away for ${HUD.formatDuration(summary.elapsedMs)}`, centerX, panelY + 55);
+    ctx.fillText(`Your horde defeated ${summary.walkersDefeated} walkers`, centerX, panelY + 78);
+    
+    ctx.fillStyle = '#FFD700';
+    ctx.fillText(`+${formatNumber(summary.souls)} souls`, centerX, panelY + 101);
+    
+    let nextLineY = panelY + 124;
+    if (summary.capped) {
+      ctx.fillStyle = '#FF9800';
+      ctx.fillText(`Offline progress capped at ${HUD.formatDuration(summary.rewardedMs)}`, centerX, nextLineY);
+      nextLineY += 23;
+    }
+    
+    ctx.fillStyle = '#999999';
+    ctx.fillText(this.isMobile ? 'Tap to continue' : 'Click to continue', centerX, nextLineY);
+    
+    ctx.restore();
+  }
+
+  // Achievement unlock toast below the area info
+  private renderAchievementToast(ctx: CanvasRenderingContext2D): void {
+    const now = performance.now();
+    let toast = this.achievementToasts[0];
+    if (toast && toast.shownAt !== null && now - toast.shownAt >= this.TOAST_DURATION) {
+      this.achievementToasts.shift();
+      toast = this.achievementToasts[0];
+    }
+    if (!toast) return;
+    if (toast.shownAt === null) toast.shownAt = now;
+    
+    ctx.save();
+    
+    // Fade out at the end (held at full opacity with reduced motion)
+    const remaining = this.TOAST_DURATION - (now - toast.shownAt);
+    if (!Animation.isReducedMotionEnabled()) {
+      ctx.globalAlpha = Math.max(0, Math.min(1, remaining / this.TOAST_FADE));
+    }
+    
+    const titleFontSize = this.isMobile ? Math.max(13, 15 * this.uiScale) : 15;
+    const textFontSize = this.isMobile ? Math.max(11, 12 * this.uiScale) : 12;
+    const toastWidth = Math.min(this.canvasWidth - 40, 280);
+    const toastHeight = 58;
+    const toastX = this.canvasWidth / 2 - toastWidth / 2;
+    const toastY = this.isMobile ? 85 : 75;
     
-    const textSpacing = this.isMobile ? 15 : 12;
+    ctx.fillStyle = 'rgba(0, 0, 0, 0.85)';
+    ctx.fillRect(toastX, toastY, toastWidth, toastHeight);
+    ctx.strokeStyle = '#FFD700';
+    ctx.lineWidth = 2;
+    ctx.strokeRect(toastX, toastY, toastWidth, toastHeight);
     
-    ctx.fillText(`${button.label} (Lv.${button.level})`, centerX, centerY - textSpacing);
+    const centerX = this.canvasWidth / 2;
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'middle';
     
-    // Description text
-    ctx.font = `${descFontSize}px Arial`;
-    ctx.fillText(button.description, centerX, centerY);
+    ctx.fillStyle = '#FFD700';
+    ctx.font = `bold ${titleFontSize}px Arial`;
+    ctx.fillText(`Achievement: ${toast.event.label}`, centerX, toastY + 16);
     
-    // Cost text
-    ctx.font = `${costFontSize}px Arial`;
-    ctx.fillText(`Cost: ${button.cost} souls`, centerX, centerY + textSpacing);
+    ctx.font = `${textFontSize}px Arial`;
+    ctx.fillStyle = '#CCCCCC';
+    ctx.fillText(toast.event.description, centerX, toastY + 33);
+    ctx.fillStyle = '#98FB98';
+    ctx.fillText(toast.event.rewardDescription, centerX, toastY + 48);
     
     ctx.restore();
   }
 
+  // Format a duration as hours and minutes (e.g. "2h 15m")
+  static formatDuration(ms: number): string {
+    const totalMinutes = Math.floor(ms / 60000);
+    const hours = Math.floor(totalMinutes / 60);
+    const minutes = totalMinutes % 60;
+    return hours > 0 ? `${hours}h ${minutes}m` : `${minutes}m`;
+  }
+
+  // Format a wait with second precision (e.g. "45s", "3m 20s", "2h 5m")
+  static formatCountdown(ms: number): string {
+    const totalSeconds = Math.ceil(ms / 1000);
+    if (totalSeconds < 60) return `${totalSeconds}s`;
+    
+    const totalMinutes = Math.floor(totalSeconds / 60);
+    if (totalMinutes < 60) return `${totalMinutes}m ${totalSeconds % 60}s`;
+    
+    const hours = Math.floor(totalMinutes / 60);
+    return hours < 1000 ? `${hours}h ${totalMinutes % 60}m` : 'a very long time';
+  }
+
+  // Label for an income window (e.g. "10s", "1m")
+  private static formatWindow(seconds: number): string {
+    return seconds < 60 ? `${seconds}s` : `${seconds / 60}m`;
+  }
+
   // Handle input for upgrade menu
   toggleUpgradeMenu(): void {
     this.showUpgradeMenu = !this.showUpgradeMenu;
@@ -310,66 +504,82 @@ export class HUD {
     return this.showUpgradeMenu;
   }
 
-  // Handle click on upgrade buttons
+  // Show the "While you were away" summary until dismissed
+  showOfflineSummary(summary: OfflineProgressSummary): void {
+    this.offlineSummary = summary;
+  }
+
+  dismissOfflineSummary(): void {
+    this.offlineSummary = null;
+  }
+
+  isOfflineSummaryOpen(): boolean {
+    return this.offlineSummary !== null;
+  }
+
+  // Handle click on the upgrade tree
   handleClick(mousePos: Vector2): boolean {
     if (!this.showUpgradeMenu) return false;
     
-    for (const button of this.upgradeButtons) {
-      if (this.isPointInButton(mousePos, button) && button.enabled) {
-        return this.purchaseUpgrade(button.id);
-      }
+    const upgradeId = this.upgradeTree.handleClick(mousePos);
+    if (upgradeId && this.upgradeTree.getNodeState(upgradeId) === 'available') {
+      return this.purchaseUpgrade(upgradeId);
     }
     
     return false;
   }
 
-  private isPointInButton(point: Vector2, button: UpgradeButton): boolean {
-    return point.x >= button.x && 
-           point.x <= button.x + button.width &&
-           point.y >= button.y && 
-           point.y <= button.y + button.height;
+  // Pan the upgrade tree while the pointer is held
+  handleDrag(mousePos: Vector2, pressed: boolean): void {
+    if (!this.showUpgradeMenu) return;
+    this.upgradeTree.handleDrag(mousePos, pressed);
+  }
+
+  // Zoom the upgrade tree with the mouse wheel
+  handleWheel(deltaY: number, mousePos: Vector2): void {
+    if (!this.showUpgradeMenu) return;
+    this.upgradeTree.handleWheel(deltaY, mousePos);
   }
 
   private purchaseUpgrade(upgradeId: string): boolean {
-    const button = this.upgradeButtons.find(b => b.id === upgradeId);
-    if (!button || !button.enabled) return false;
+    const definition = this.upgradeManager.getUpgradeDefinition(upgradeId);
+    if (!definition) return false;
     
-    if (this.resourceManager.spendSouls(button.cost)) {
-      // Purchase the upgrade through the upgrade manager
-      this.upgradeManager.purchaseUpgrade(upgradeId);
-      
-      console.log(`Purchased upgrade: ${button.label} (Level ${button.level + 1})`);
-      
-      // Announce upgrade purchase for accessibility
-      this.accessibilityManager.announceUpgrade(button.label, button.level + 1, button.cost);
-      
-      // Notify game systems about the upgrade
-      if (this.onUpgradePurchased) {
-        this.onUpgradePurchased(upgradeId);
-      }
-      
+    // The simulation announces the purchase to other systems through its event bus
+    const { count, cost, resultingLevel } = this.upgradeTree.getPurchasePreview(upgradeId);
+    if (this.executePurchase(upgradeId, count, cost)) {
+      console.log(`Purchased upgrade: ${definition.label} x${count} (Level ${resultingLevel})`);
       return true;
     }
     
     return false;
   }
 
+  // Spend souls and purchase the upgrade (through the game's handler when set, so it can be recorded)
+  private executePurchase(upgradeId: string, count: number, cost: CurrencyAmounts): boolean {
+    if (this.upgradePurchaseHandler) {
+      return this.upgradePurchaseHandler(upgradeId, count);
+    }
+
+    if (this.resourceManager.spend(cost)) {
+      this.upgradeManager.purchaseUpgrade(upgradeId, count);
+      return true;
+    }
+
+    return false;
+  }
+
   // Update canvas dimensions when window resizes
   updateCanvasDimensions(width: number, height: number): void {
     this.canvasWidth = width;
     this.canvasHeight = height;
     this.detectMobile();
     this.calculateUIScale();
-    this.initializeUpgradeButtons(); // Reinitialize with new scaling
-  }
-
-  // Get upgrade button by ID (for external systems to check purchases)
-  getUpgradeButton(id: string): UpgradeButton | undefined {
-    return this.upgradeButtons.find(b => b.id === id);
+    this.upgradeTree.updateCanvasDimensions(width, height, this.isMobile);
   }
 
-  // Set callback for when upgrades are purchased
-  setOnUpgradePurchased(callback: (upgradeId: string) => void): void {
-    this.onUpgradePurchased = callback;
+  // Set handler that performs purchases (returns true if the upgrade was bought)
+  setUpgradePurchaseHandler(handler: (upgradeId: string, count: number) => boolean): void {
+    this.upgradePurchaseHandler = handler;
   }
 }
\ No newline at end of file
@@ -82,6 +82,45 @@ export class MobileUI {
       icon: 'pause'
     });
 
+    // Statistics button (top-right, below pause)
+    this.touchButtons.push({
+      id: 'stats',
+      label: '📊',
+      x: this.canvasWidth - buttonSize - margin,
+      y: margin * 2 + buttonSize,
+      width: buttonSize,
+      height: buttonSize,
+      visible: true,
+      pressed: false,
+      icon: 'stats'
+    });
+
+    // Automation button (top-right, below stats)
+    this.touchButtons.push({
+      id: 'automation',
+      label: '🤖',
+      x: this.canvasWidth - buttonSize - margin,
+      y: margin * 3 + buttonSize * 2,
+      width: buttonSize,
+      height: buttonSize,
+      visible: true,
+      pressed: false,
+      icon: 'automation'
+    });
+
+    // Area map button (top-right, below automation)
+    this.touchButtons.push({
+      id: 'map',
+      label: '🗺️',
+      x: this.canvasWidth - buttonSize - margin,
+      y: margin * 4 + buttonSize * 3,
+      width: buttonSize,
+      height: buttonSize,
+      visible: true,
+      pressed: false,
+      icon: 'map'
+    });
+
     // Upgrade menu button (bottom-right corner)
     this.touchButtons.push({
       id: 'upgrades',
@@ -95,6 +134,19 @@ export class MobileUI {
       icon: 'upgrades'
     });
 
+    // Prestige button (bottom-right, next to upgrades)
+    this.touchButtons.push({
+      id: 'prestige',
+      label: '💀',
+      x: this.canvasWidth - buttonSize * 2 - margin * 2,
+      y: this.canvasHeight - buttonSize - margin,
+      width: buttonSize,
+      height: buttonSize,
+      visible: true,
+      pressed: false,
+      icon: 'prestige'
+    });
+
     // Settings button (bottom-left corner)
     this.touchButtons.push({
       id: 'settings',
@@ -107,6 +159,19 @@ export class MobileUI {
       pressed: false,
       icon: 'settings'
     });
+
+    // Zombie type button (bottom-left, next to settings) cycles the spawned type
+    this.touchButtons.push({
+      id: 'zombie-type',
+      label: '🧟',
+      x: margin * 2 + buttonSize,
+      y: this.canvasHeight - buttonSize - margin,
+      width: buttonSize,
+      height: buttonSize,
+      visible: true,
+      pressed: false,
+      icon: 'zombie-type'
+    });
   }
 
   public updateCanvasDimensions(width: number, height: number): void {
@@ -129,14 +194,34 @@ export class MobileUI {
           button.x = this.canvasWidth - buttonSize - margin;
           button.y = margin;
           break;
+        case 'stats':
+          button.x = this.canvasWidth - buttonSize - margin;
+          button.y = margin * 2 + buttonSize;
+          break;
+        case 'automation':
+          button.x = this.canvasWidth - buttonSize - margin;
+          button.y = margin * 3 + buttonSize * 2;
+          break;
+        case 'map':
+          button.x = this.canvasWidth - buttonSize - margin;
+          button.y = margin * 4 + buttonSize * 3;
+          break;
         case 'upgrades':
           button.x = this.canvasWidth - buttonSize - margin;
           button.y = this.canvasHeight - buttonSize - margin;
           break;
+        case 'prestige':
+          button.x = this.canvasWidth - buttonSize * 2 - margin * 2;
+          button.y = this.canvasHeight - buttonSize - margin;
+          break;
         case 'settings':
           button.x = margin;
           button.y = this.canvasHeight - buttonSize - margin;
           break;
+        case 'zombie-type':
+          button.x = margin * 2 + buttonSize;
+          button.y = this.canvasHeight - buttonSize - margin;
+          break;
       }
       button.width = buttonSize;
       button.height = buttonSize;
@@ -0,0 +1,17 @@
+// Display formatting for big numbers using the player's notation setting
+import { BigNum, BigNumSource } from '../core/BigNum.ts';
+import { SettingsManager } from '../managers/SettingsManager.ts';
+import { CurrencyAmounts, CURRENCY_DEFINITIONS, getAmountEntries } from '../managers/CurrencyDefinitions.ts';
+
+// Format a value with suffixes (1.23K) or scientific notation (1.23e3), as chosen in settings
+export function formatNumber(value: BigNumSource): string {
+  return BigNum.from(value).format(SettingsManager.getInstance().getNumberNotation());
+}
+
+// Format a cost or reward across currencies (e.g. "1.50K souls + 3 bones")
+export function formatAmounts(amounts: CurrencyAmounts): string {
+  const parts = getAmountEntries(amounts).map(([currency, amount]) =>
+    `${formatNumber(amount)} ${CURRENCY_DEFINITIONS[currency].name.toLowerCase()}`
+  );
+  return parts.length > 0 ? parts.join(' + ') : 'free';
+}
@@ -0,0 +1,317 @@
+// Prestige panel for rebirths and the permanent essence upgrade tree
+import { ResourceManager } from '../managers/ResourceManager.ts';
+import { PrestigeManager } from '../managers/PrestigeManager.ts';
+import { Vector2 } from '../core/Vector2.ts';
+import { UpgradeButton } from './HUD.ts';
+import { formatNumber, formatAmounts } from './NumberFormat.ts';
+
+interface PrestigeUpgradeButton extends UpgradeButton {
+  unlocked: boolean;
+  maxed: boolean;
+}
+
+interface PanelButton {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export class PrestigePanel {
+  private resourceManager: ResourceManager;
+  private prestigeManager: PrestigeManager;
+  private canvasWidth: number;
+  private canvasHeight: number;
+  private upgradeButtons: PrestigeUpgradeButton[] = [];
+  private rebirthButton: PanelButton = { x: 0, y: 0, width: 0, height: 0 };
+  private showPanel: boolean = false;
+  private confirmingRebirth: boolean = false; // Rebirth needs a second click to confirm
+  private prestigeHandler?: () => boolean;
+  private upgradePurchaseHandler?: (upgradeId: string) => boolean;
+  private isMobile: boolean = false;
+  private uiScale: number = 1;
+
+  constructor(resourceManager: ResourceManager, prestigeManager: PrestigeManager, canvasWidth: number, canvasHeight: number) {
+    this.resourceManager = resourceManager;
+    this.prestigeManager = prestigeManager;
+    this.canvasWidth = canvasWidth;
+    this.canvasHeight = canvasHeight;
+    this.detectMobile();
+    this.calculateUIScale();
+    this.initializeButtons();
+  }
+
+  private detectMobile(): void {
+    this.isMobile = /Android|webOS|iPhone|iPad|iPod|BlackBerry|IEMobile|Opera Mini/i.test(navigator.userAgent) ||
+                   ('ontouchstart' in window) ||
+                   (navigator.maxTouchPoints > 0) ||
+                   window.innerWidth <= 768;
+  }
+
+  private calculateUIScale(): void {
+    if (this.isMobile) {
+      const baseScale = Math.min(this.canvasWidth / 800, this.canvasHeight / 600);
+      this.uiScale = Math.max(0.8, Math.min(1.5, baseScale));
+    } else {
+      this.uiScale = 1;
+    }
+  }
+
+  private initializeButtons(): void {
+    const buttonWidth = this.isMobile ? Math.max(200, 250 * this.uiScale) : 180;
+    const buttonHeight = this.isMobile ? Math.max(60, 70 * this.uiScale) : 50;
+
+    this.upgradeButtons = this.prestigeManager.getUpgradeDefinitions().map(definition => ({
+      id: definition.id,
+      label: definition.label,
+      cost: this.prestigeManager.getUpgradeCost(definition.id),
+      description: definition.description,
+      x: 0, y: 0, width: buttonWidth, height: buttonHeight,
+      enabled: false,
+      level: this.prestigeManager.getUpgradeLevel(definition.id),
+      unlocked: false,
+      maxed: false
+    }));
+
+    this.rebirthButton = { x: 0, y: 0, width: buttonWidth, height: buttonHeight };
+  }
+
+  update(): void {
+    if (!this.showPanel) return;
+
+    // Lay upgrades out in two columns when the screen is wide enough
+    const columnGap = 20;
+    const buttonWidth = this.upgradeButtons[0]?.width ?? 0;
+    const columns = this.canvasWidth >= buttonWidth * 2 + columnGap * 3 ? 2 : 1;
+
+    for (let i = 0; i < this.upgradeButtons.length; i++) {
+      const button = this.upgradeButtons[i];
+
+      button.cost = this.prestigeManager.getUpgradeCost(button.id);
+      button.level = this.prestigeManager.getUpgradeLevel(button.id);
+      button.unlocked = this.prestigeManager.isUpgradeUnlocked(button.id);
+      button.maxed = this.prestigeManager.isUpgradeMaxed(button.id);
+      button.enabled = this.prestigeManager.canPurchaseUpgrade(button.id);
+
+      const column = i % columns;
+      const row = Math.floor(i / columns);
+      const rowWidth = columns * button.width + (columns - 1) * columnGap;
+      button.x = this.canvasWidth / 2 - rowWidth / 2 + column * (button.width + columnGap);
+      const buttonSpacing = this.isMobile ? button.height + 10 : 60;
+      button.y = this.canvasHeight / 2 - 70 + (row * buttonSpacing);
+    }
+
+    // Rebirth button sits below the upgrade grid
+    const rows = Math.ceil(this.upgradeButtons.length / columns);
+    const lastRowBottom = this.canvasHeight / 2 - 70 + rows * (this.isMobile ? this.rebirthButton.height + 10 : 60);
+    this.rebirthButton.x = this.canvasWidth / 2 - this.rebirthButton.width / 2;
+    this.rebirthButton.y = lastRowBottom + 10;
+  }
+
+  render(ctx: CanvasRenderingContext2D): void {
+    if (!this.showPanel) return;
+
+    ctx.save();
+
+    // Draw semi-transparent background
+    ctx.fillStyle = 'rgba(10, 0, 20, 0.85)';
+    ctx.fillRect(0, 0, this.canvasWidth, this.canvasHeight);
+
+    const titleFontSize = this.isMobile ? Math.max(20, 24 * this.uiScale) : 24;
+    const infoFontSize = this.isMobile ? Math.max(12, 14 * this.uiScale) : 14;
+    const closeFontSize = this.isMobile ? Math.max(14, 16 * this.uiScale) : 16;
+
+    const centerX = this.canvasWidth / 2;
+    const lifetimeSouls = this.resourceManager.getLifetimeSouls();
+    const essence = this.resourceManager.getBalance('essence');
+
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'middle';
+    ctx.fillStyle = '#DA70D6';
+    ctx.font = `bold ${titleFontSize}px Arial`;
+    ctx.fillText('PRESTIGE', centerX, this.canvasHeight / 2 - 190);
+
+    ctx.font = `${infoFontSize}px Arial`;
+    ctx.fillStyle = '#E6CCFF';
+    ctx.fillText(`Essence: ${formatNumber(essence)}   Rebirths: ${this.prestigeManager.getPrestigeCount()}`, centerX, this.canvasHeight / 2 - 160);
+
+    ctx.fillStyle = '#CCCCCC';
+    ctx.fillText(`Lifetime souls: ${formatNumber(lifetimeSouls)}`, centerX, this.canvasHeight / 2 - 140);
+
+    const reward = this.prestigeManager.calculateEssenceReward();
+    const nextEssenceAt = this.prestigeManager.getLifetimeSoulsForNextEssence();
+    ctx.fillText(`Rebirth now for +${formatNumber(reward)} essence (next at ${formatNumber(nextEssenceAt)} lifetime souls)`, centerX, this.canvasHeight / 2 - 120);
+
+    ctx.fillStyle = '#999999';
+    ctx.fillText('Rebirth resets souls, upgrades and area progress', centerX, this.canvasHeight / 2 - 100);
+
+    for (const button of this.upgradeButtons) {
+      this.renderUpgradeButton(ctx, button);
+    }
+
+    this.renderRebirthButton(ctx, reward);
+
+    ctx.fillStyle = '#CCCCCC';
+    ctx.font = `${closeFontSize}px Arial`;
+    const closeText = this.isMobile ? 'Tap prestige button to close' : 'Press R to close';
+    ctx.fillText(closeText, centerX, this.rebirthButton.y + this.rebirthButton.height + 30);
+
+    ctx.restore();
+  }
+
+  private renderUpgradeButton(ctx: CanvasRenderingContext2D, button: PrestigeUpgradeButton): void {
+    ctx.save();
+
+    ctx.fillStyle = button.enabled ? '#8E44AD' : '#444444';
+    ctx.fillRect(button.x, button.y, button.width, button.height);
+
+    ctx.strokeStyle = button.enabled ? '#A569BD' : '#555555';
+    ctx.lineWidth = this.isMobile ? 3 : 2;
+    ctx.strokeRect(button.x, button.y, button.width, button.height);
+
+    const labelFontSize = this.isMobile ? Math.max(12, 14 * this.uiScale) : 14;
+    const descFontSize = this.isMobile ? Math.max(9, 10 * this.uiScale) : 10;
+    const costFontSize = this.isMobile ? Math.max(10, 12 * this.uiScale) : 12;
+
+    ctx.fillStyle = button.enabled ? '#FFFFFF' : '#AAAAAA';
+    ctx.font = `bold ${labelFontSize}px Arial`;
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'middle';
+
+    const centerX = button.x + button.width / 2;
+    const centerY = button.y + button.height / 2;
+    const textSpacing = this.isMobile ? 15 : 12;
+
+    ctx.fillText(`${button.label} (Lv.${button.level})`, centerX, centerY - textSpacing);
+
+    ctx.font = `${descFontSize}px Arial`;
+    ctx.fillText(button.description, centerX, centerY);
+
+    // Show why the upgrade can't be bought instead of its cost when relevant
+    ctx.font = `${costFontSize}px Arial`;
+    let costText = `Cost: ${formatAmounts(button.cost)}`;
+    if (button.maxed) {
+      costText = 'MAX';
+    } else if (!button.unlocked) {
+      const requirement = this.prestigeManager.getUpgradeDefinition(button.id)?.requires?.[0];
+      const requiredLabel = requirement ? this.prestigeManager.getUpgradeDefinition(requirement.id)?.label : undefined;
+      costText = `Requires ${requiredLabel ?? 'another upgrade'}`;
+    }
+    ctx.fillText(costText, centerX, centerY + textSpacing);
+
+    ctx.restore();
+  }
+
+  private renderRebirthButton(ctx: CanvasRenderingContext2D, reward: number): void {
+    const button = this.rebirthButton;
+    const enabled = reward > 0;
+
+    ctx.save();
+
+    ctx.fillStyle = !enabled ? '#444444' : this.confirmingRebirth ? '#C0392B' : '#6C3483';
+    ctx.fillRect(button.x, button.y, button.width, button.height);
+
+    ctx.strokeStyle = enabled ? '#DA70D6' : '#555555';
+    ctx.lineWidth = this.isMobile ? 3 : 2;
+    ctx.strokeRect(button.x, button.y, button.width, button.height);
+
+    const labelFontSize = this.isMobile ? Math.max(12, 14 * this.uiScale) : 14;
+    ctx.fillStyle = enabled ? '#FFFFFF' : '#AAAAAA';
+    ctx.font = `bold ${labelFontSize}px Arial`;
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'middle';
+
+    const label = !enabled ? 'Rebirth (no essence yet)' :
+                  this.confirmingRebirth ? 'Click again to confirm' : `Rebirth (+${reward} essence)`;
+    ctx.fillText(label, button.x + button.width / 2, button.y + button.height / 2);
+
+    ctx.restore();
+  }
+
+  toggle(): void {
+    this.showPanel = !this.showPanel;
+    this.confirmingRebirth = false;
+    this.update();
+  }
+
+  isOpen(): boolean {
+    return this.showPanel;
+  }
+
+  // Handle click on panel buttons (returns true if the click was used)
+  handleClick(mousePos: Vector2): boolean {
+    if (!this.showPanel) return false;
+
+    if (this.isPointInButton(mousePos, this.rebirthButton)) {
+      if (!this.prestigeManager.canPrestige()) {
+        return false;
+      }
+
+      if (!this.confirmingRebirth) {
+        this.confirmingRebirth = true;
+        return true;
+      }
+
+      this.confirmingRebirth = false;
+      return this.executePrestige();
+    }
+
+    // Any other click cancels a pending rebirth confirmation
+    this.confirmingRebirth = false;
+
+    for (const button of this.upgradeButtons) {
+      if (this.isPointInButton(mousePos, button) && button.enabled) {
+        if (this.executePurchase(button.id)) {
+          console.log(`Purchased prestige upgrade: ${button.label} (Level ${button.level + 1})`);
+          this.update();
+          return true;
+        }
+        return false;
+      }
+    }
+
+    return false;
+  }
+
+  private isPointInButton(point: Vector2, button: PanelButton): boolean {
+    return point.x >= button.x &&
+           point.x <= button.x + button.width &&
+           point.y >= button.y &&
+           point.y <= button.y + button.height;
+  }
+
+  // Rebirth through the game's handler when set, so it can be recorded
+  private executePrestige(): boolean {
+    const result = this.prestigeHandler ? this.prestigeHandler() : false;
+    this.update();
+    return result;
+  }
+
+  // Purchase through the game's handler when set, so it can be recorded
+  private executePurchase(upgradeId: string): boolean {
+    if (this.upgradePurchaseHandler) {
+      return this.upgradePurchaseHandler(upgradeId);
+    }
+    return this.prestigeManager.purchaseUpgrade(upgradeId);
+  }
+
+  // Update canvas dimensions when window resizes
+  updateCanvasDimensions(width: number, height: number): void {
+    this.canvasWidth = width;
+    this.canvasHeight = height;
+    this.detectMobile();
+    this.calculateUIScale();
+    this.initializeButtons();
+    this.update();
+  }
+
+  // Set handler that performs the rebirth (returns true if it happened)
+  setPrestigeHandler(handler: () => boolean): void {
+    this.prestigeHandler = handler;
+  }
+
+  // Set handler that performs prestige upgrade purchases (returns true if bought)
+  setUpgradePurchaseHandler(handler: (upgradeId: string) => boolean): void {
+    this.upgradePurchaseHandler = handler;
+  }
+}
@@ -0,0 +1,256 @@
+// Statistics screen with run and lifetime totals and a souls/sec sparkline for the last hour
+import { StatisticsManager, StatisticsTotals } from '../managers/StatisticsManager.ts';
+import { BigNum } from '../core/BigNum.ts';
+import { Vector2 } from '../core/Vector2.ts';
+import { WALKER_ARCHETYPES } from '../entities/WalkerArchetypes.ts';
+import { HUD } from './HUD.ts';
+import { formatNumber } from './NumberFormat.ts';
+
+interface PanelButton {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// One table row: a label and how to read its value from a set of totals
+interface StatRow {
+  label: string;
+  getValue: (totals: StatisticsTotals) => string;
+}
+
+export class StatsPanel {
+  private statisticsManager: StatisticsManager;
+  private canvasWidth: number;
+  private canvasHeight: number;
+  private exportButton: PanelButton = { x: 0, y: 0, width: 0, height: 0 };
+  private showPanel: boolean = false;
+  private exportHandler?: () => void;
+  private isMobile: boolean = false;
+  private uiScale: number = 1;
+
+  constructor(statisticsManager: StatisticsManager, canvasWidth: number, canvasHeight: number) {
+    this.statisticsManager = statisticsManager;
+    this.canvasWidth = canvasWidth;
+    this.canvasHeight = canvasHeight;
+    this.detectMobile();
+    this.calculateUIScale();
+    this.layoutButtons();
+  }
+
+  private detectMobile(): void {
+    this.isMobile = /Android|webOS|iPhone|iPad|iPod|BlackBerry|IEMobile|Opera Mini/i.test(navigator.userAgent) ||
+                   ('ontouchstart' in window) ||
+                   (navigator.maxTouchPoints > 0) ||
+                   window.innerWidth <= 768;
+  }
+
+  private calculateUIScale(): void {
+    if (this.isMobile) {
+      const baseScale = Math.min(this.canvasWidth / 800, this.canvasHeight / 600);
+      this.uiScale = Math.max(0.8, Math.min(1.5, baseScale));
+    } else {
+      this.uiScale = 1;
+    }
+  }
+
+  private layoutButtons(): void {
+    const width = this.isMobile ? Math.max(140, 160 * this.uiScale) : 140;
+    const height = this.isMobile ? Math.max(44, 48 * this.uiScale) : 32;
+    this.exportButton = {
+      x: this.canvasWidth / 2 - width / 2,
+      y: this.canvasHeight - height - 45,
+      width,
+      height
+    };
+  }
+
+  // Rows shown in the table (visited areas and walker types are listed individually)
+  private getRows(): StatRow[] {
+    const rows: StatRow[] = [
+      { label: 'Souls earned', getValue: totals => formatNumber(totals.soulsEarned) },
+      { label: 'Souls spent', getValue: totals => formatNumber(totals.soulsSpent) },
+      { label: 'Walkers defeated', getValue: totals => formatNumber(totals.walkersDefeated) },
+      { label: 'Peak zombies', getValue: totals => String(totals.peakZombies) },
+      { label: 'Peak souls/sec', getValue: totals => formatNumber(totals.peakSoulsPerSecond) },
+      { label: 'Time played', getValue: totals => HUD.formatDuration(totals.timePlayedMs) }
+    ];
+
+    for (const area of this.statisticsManager.getVisitedAreas()) {
+      rows.push({
+        label: area.name,
+        getValue: totals => `${formatNumber(totals.killsByArea[area.id] ?? 0)} kills, ${HUD.formatDuration(totals.timeByAreaMs[area.id] ?? 0)}`
+      });
+    }
+
+    for (const archetype of Object.values(WALKER_ARCHETYPES)) {
+      rows.push({
+        label: `${archetype.name} kills`,
+        getValue: totals => formatNumber(totals.killsByWalkerType[archetype.id] ?? 0)
+      });
+    }
+
+    return rows;
+  }
+
+  render(ctx: CanvasRenderingContext2D): void {
+    if (!this.showPanel) return;
+
+    ctx.save();
+
+    // Draw semi-transparent background
+    ctx.fillStyle = 'rgba(0, 10, 20, 0.9)';
+    ctx.fillRect(0, 0, this.canvasWidth, this.canvasHeight);
+
+    const titleFontSize = this.isMobile ? Math.max(20, 24 * this.uiScale) : 24;
+    const rowFontSize = this.isMobile ? Math.max(11, 12 * this.uiScale) : 12;
+    const closeFontSize = this.isMobile ? Math.max(14, 16 * this.uiScale) : 16;
+    const rowHeight = rowFontSize + 5;
+
+    const centerX = this.canvasWidth / 2;
+    const tableWidth = Math.min(this.canvasWidth - 40, 480);
+    const tableX = centerX - tableWidth / 2;
+    const runX = tableX + tableWidth * 0.62;
+    const lifetimeX = tableX + tableWidth;
+
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'middle';
+    ctx.fillStyle = '#87CEEB';
+    ctx.font = `bold ${titleFontSize}px Arial`;
+    ctx.fillText('STATISTICS', centerX, this.isMobile ? 45 : 30);
+
+    // Column headings
+    let y = this.isMobile ? 75 : 58;
+    ctx.font = `bold ${rowFontSize}px Arial`;
+    ctx.fillStyle = '#FFFFFF';
+    ctx.textAlign = 'right';
+    ctx.fillText('This run', runX, y);
+    ctx.fillText('Lifetime', lifetimeX, y);
+
+    // One row per statistic
+    const run = this.statisticsManager.getTotals('run');
+    const lifetime = this.statisticsManager.getTotals('lifetime');
+    ctx.font = `${rowFontSize}px Arial`;
+    for (const row of this.getRows()) {
+      y += rowHeight;
+      ctx.textAlign = 'left';
+      ctx.fillStyle = '#CCCCCC';
+      ctx.fillText(row.label, tableX, y);
+      ctx.textAlign = 'right';
+      ctx.fillStyle = '#FFFFFF';
+      ctx.fillText(row.getValue(run), runX, y);
+      ctx.fillText(row.getValue(lifetime), lifetimeX, y);
+    }
+
+    // Souls/sec over the last hour, between the table and the export button
+    const chartTop = y + rowHeight + 10;
+    const chartHeight = Math.max(30, Math.min(70, this.exportButton.y - chartTop - 30));
+    this.renderSparkline(ctx, tableX, chartTop, tableWidth, chartHeight, rowFontSize);
+
+    this.renderExportButton(ctx);
+
+    ctx.textAlign = 'center';
+    ctx.fillStyle = '#CCCCCC';
+    ctx.font = `${closeFontSize}px Arial`;
+    const closeText = this.isMobile ? 'Tap stats button to close' : 'Press S to close';
+    ctx.fillText(closeText, centerX, this.canvasHeight - 25);
+
+    ctx.restore();
+  }
+
+  // Line chart of average souls/sec for each recorded minute, scaled to the busiest minute
+  private renderSparkline(ctx: CanvasRenderingContext2D, x: number, y: number, width: number, height: number, fontSize: number): void {
+    const history = this.statisticsManager.getSoulsPerSecondHistory();
+    const peak = history.reduce((max, value) => BigNum.max(max, value), BigNum.ZERO);
+    const latest = history[history.length - 1];
+
+    ctx.textAlign = 'left';
+    ctx.fillStyle = '#CCCCCC';
+    ctx.font = `${fontSize}px Arial`;
+    ctx.fillText('Souls/sec, last hour', x, y);
+    ctx.textAlign = 'right';
+    ctx.fillStyle = '#FFD700';
+    ctx.fillText(latest ? `now ${formatNumber(latest)}, best ${formatNumber(peak)}` : '', x + width, y);
+
+    const chartY = y + fontSize;
+    ctx.fillStyle = 'rgba(255, 255, 255, 0.08)';
+    ctx.fillRect(x, chartY, width, height);
+
+    if (history.length < 2) {
+      ctx.textAlign = 'center';
+      ctx.fillStyle = '#999999';
+      ctx.fillText('Collecting data (one point per minute)', x + width / 2, chartY + height / 2);
+      return;
+    }
+
+    ctx.strokeStyle = '#FFD700';
+    ctx.lineWidth = 2;
+    ctx.beginPath();
+    history.forEach((value, index) => {
+      const pointX = x + (index / (history.length - 1)) * width;
+      const fraction = peak.isZero() ? 0 : value.div(peak).toNumber();
+      const pointY = chartY + height - fraction * (height - 4) - 2;
+      if (index === 0) {
+        ctx.moveTo(pointX, pointY);
+      } else {
+        ctx.lineTo(pointX, pointY);
+      }
+    });
+    ctx.stroke();
+  }
+
+  private renderExportButton(ctx: CanvasRenderingContext2D): void {
+    const button = this.exportButton;
+
+    ctx.fillStyle = '#1F618D';
+    ctx.fillRect(button.x, button.y, button.width, button.height);
+    ctx.strokeStyle = '#87CEEB';
+    ctx.lineWidth = this.isMobile ? 3 : 2;
+    ctx.strokeRect(button.x, button.y, button.width, button.height);
+
+    const labelFontSize = this.isMobile ? Math.max(12, 14 * this.uiScale) : 14;
+    ctx.fillStyle = '#FFFFFF';
+    ctx.font = `bold ${labelFontSize}px Arial`;
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'middle';
+    ctx.fillText('Export CSV', button.x + button.width / 2, button.y + button.height / 2);
+  }
+
+  toggle(): void {
+    this.showPanel = !this.showPanel;
+  }
+
+  isOpen(): boolean {
+    return this.showPanel;
+  }
+
+  // Handle click on panel buttons (returns true if the click was used)
+  handleClick(mousePos: Vector2): boolean {
+    if (!this.showPanel) return false;
+
+    const button = this.exportButton;
+    if (mousePos.x >= button.x && mousePos.x <= button.x + button.width &&
+        mousePos.y >= button.y && mousePos.y <= button.y + button.height) {
+      if (this.exportHandler) {
+        this.exportHandler();
+      }
+      return true;
+    }
+
+    return false;
+  }
+
+  // Update canvas dimensions when window resizes
+  updateCanvasDimensions(width: number, height: number): void {
+    this.canvasWidth = width;
+    this.canvasHeight = height;
+    this.detectMobile();
+    this.calculateUIScale();
+    this.layoutButtons();
+  }
+
+  // Set handler that downloads the statistics CSV
+  setExportHandler(handler: () => void): void {
+    this.exportHandler = handler;
+  }
+}
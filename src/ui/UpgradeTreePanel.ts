@@ -0,0 +1,517 @@
+// Scrollable, zoomable upgrade tree graph shown in the HUD upgrade menu
+import { ResourceManager } from '../managers/ResourceManager.ts';
+import { UpgradeManager, PurchaseMode, PURCHASE_MODES, BulkPurchase } from '../managers/UpgradeManager.ts';
+import { UpgradeDefinition, getUnmetRequirement } from '../managers/UpgradeDefinitions.ts';
+import { ZombieTypeId } from '../entities/ZombieTypes.ts';
+import { Vector2 } from '../core/Vector2.ts';
+import { formatNumber, formatAmounts } from './NumberFormat.ts';
+
+// available: can be bought now in the current purchase mode
+// unaffordable: unlocked but not enough souls for the current purchase mode
+// locked: prerequisites not met
+// excluded: a branch sibling was bought instead
+// maxed: at max level
+export type UpgradeNodeState = 'available' | 'unaffordable' | 'locked' | 'excluded' | 'maxed';
+
+interface TreeNode {
+  definition: UpgradeDefinition;
+  depth: number;
+  x: number; // World position of the node's top-left corner
+  y: number;
+}
+
+interface ViewRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+interface ZoomButton extends ViewRect {
+  id: 'zoom-in' | 'zoom-out' | 'zoom-reset';
+  label: string;
+}
+
+interface PurchaseModeButton extends ViewRect {
+  mode: PurchaseMode;
+}
+
+const NODE_STYLES: Record<UpgradeNodeState, { fill: string; border: string; text: string }> = {
+  available: { fill: '#4CAF50', border: '#45a049', text: '#FFFFFF' },
+  unaffordable: { fill: '#666666', border: '#555555', text: '#DDDDDD' },
+  locked: { fill: '#333333', border: '#444444', text: '#888888' },
+  excluded: { fill: '#4A2323', border: '#6B3030', text: '#AA7777' },
+  maxed: { fill: '#6B5A00', border: '#FFD700', text: '#FFFFFF' }
+};
+
+export class UpgradeTreePanel {
+  private resourceManager: ResourceManager;
+  private upgradeManager: UpgradeManager;
+  private canvasWidth: number;
+  private canvasHeight: number;
+  private isMobile: boolean;
+  private zombieType: ZombieTypeId = 'shambler';
+  private nodes: TreeNode[] = [];
+  private viewport: ViewRect = { x: 0, y: 0, width: 0, height: 0 };
+  private zoomButtons: ZoomButton[] = [];
+  private purchaseModeButtons: PurchaseModeButton[] = [];
+  private purchaseMode: PurchaseMode = 1;
+  private onPurchaseModeChanged?: (mode: PurchaseMode) => void;
+
+  // View transform (screen = world * zoom + pan)
+  private panX: number = 0;
+  private panY: number = 0;
+  private zoom: number = 1;
+  private dragLast: Vector2 | null = null;
+
+  private readonly NODE_WIDTH = 160;
+  private readonly NODE_HEIGHT = 62;
+  private readonly COLUMN_GAP = 30;
+  private readonly ROW_GAP = 50;
+  private readonly MIN_ZOOM = 0.4;
+  private readonly MAX_ZOOM = 2;
+
+  constructor(resourceManager: ResourceManager, upgradeManager: UpgradeManager, canvasWidth: number, canvasHeight: number, isMobile: boolean) {
+    this.resourceManager = resourceManager;
+    this.upgradeManager = upgradeManager;
+    this.canvasWidth = canvasWidth;
+    this.canvasHeight = canvasHeight;
+    this.isMobile = isMobile;
+    this.updateViewport();
+    this.buildLayout();
+    this.resetView();
+  }
+
+  // Show the selected zombie type's upgrade tracks alongside the global upgrades
+  setZombieType(typeId: ZombieTypeId): void {
+    this.zombieType = typeId;
+    this.buildLayout();
+    this.resetView();
+  }
+
+  getPurchaseMode(): PurchaseMode {
+    return this.purchaseMode;
+  }
+
+  setPurchaseMode(mode: PurchaseMode): void {
+    this.purchaseMode = mode;
+  }
+
+  // Set callback for when a purchase mode button is pressed
+  setOnPurchaseModeChanged(callback: (mode: PurchaseMode) => void): void {
+    this.onPurchaseModeChanged = callback;
+  }
+
+  // Get the button label for a purchase mode (x1, x10, x100, Max)
+  static getPurchaseModeLabel(mode: PurchaseMode): string {
+    return mode === 'max' ? 'Max' : `x${mode}`;
+  }
+
+  // Lay nodes out in rows by prerequisite depth, ordered to keep edges short
+  private buildLayout(): void {
+    const definitions = this.upgradeManager.getUpgradeDefinitions()
+      .filter(definition => !definition.zombieType || definition.zombieType === this.zombieType);
+    const byId = new Map(definitions.map(definition => [definition.id, definition]));
+
+    // Depth is one more than the deepest prerequisite
+    const depths = new Map<string, number>();
+    const getDepth = (definition: UpgradeDefinition): number => {
+      const known = depths.get(definition.id);
+      if (known !== undefined) return known;
+      depths.set(definition.id, 0); // Guards against cycles in bad data
+      let depth = 0;
+      for (const requirement of definition.requires ?? []) {
+        const parent = byId.get(requirement.id);
+        if (parent) depth = Math.max(depth, getDepth(parent) + 1);
+      }
+      depths.set(definition.id, depth);
+      return depth;
+    };
+
+    const rows: UpgradeDefinition[][] = [];
+    for (const definition of definitions) {
+      const depth = getDepth(definition);
+      if (!rows[depth]) rows[depth] = [];
+      rows[depth].push(definition);
+    }
+
+    // Place each row under the average position of its prerequisites, pushing overlapping nodes apart
+    const centers = new Map<string, number>();
+    const spacing = this.NODE_WIDTH + this.COLUMN_GAP;
+    this.nodes = [];
+    rows.forEach((row, depth) => {
+      const rowWidth = row.length * this.NODE_WIDTH + (row.length - 1) * this.COLUMN_GAP;
+      const placed = row
+        .map((definition, index) => {
+          const parentCenters = (definition.requires ?? [])
+            .map(requirement => centers.get(requirement.id))
+            .filter((center): center is number => center !== undefined);
+          const desired = parentCenters.length > 0
+            ? parentCenters.reduce((sum, center) => sum + center, 0) / parentCenters.length
+            : -rowWidth / 2 + index * spacing + this.NODE_WIDTH / 2;
+          return { definition, desired, index, center: desired };
+        })
+        .sort((a, b) => a.desired - b.desired || a.index - b.index);
+
+      for (let i = 1; i < placed.length; i++) {
+        placed[i].center = Math.max(placed[i].center, placed[i - 1].center + spacing);
+      }
+
+      // Shift the row back so nodes sit on average where they wanted to be
+      const drift = placed.reduce((sum, node) => sum + node.center - node.desired, 0) / Math.max(1, placed.length);
+      for (const node of placed) {
+        const center = node.center - drift;
+        centers.set(node.definition.id, center);
+        this.nodes.push({
+          definition: node.definition,
+          depth,
+          x: center - this.NODE_WIDTH / 2,
+          y: depth * (this.NODE_HEIGHT + this.ROW_GAP)
+        });
+      }
+    });
+  }
+
+  // Graph area sits between the menu header and footer
+  private updateViewport(): void {
+    const top = this.isMobile ? 110 : 95;
+    const bottom = this.isMobile ? 70 : 50;
+    const margin = 20;
+    this.viewport = {
+      x: margin,
+      y: top,
+      width: this.canvasWidth - margin * 2,
+      height: Math.max(100, this.canvasHeight - top - bottom)
+    };
+
+    const size = this.isMobile ? 44 : 28;
+    const gap = 8;
+    const right = this.viewport.x + this.viewport.width - gap;
+    this.zoomButtons = [
+      { id: 'zoom-in', label: '+', x: right - size * 3 - gap * 2, y: this.viewport.y + gap, width: size, height: size },
+      { id: 'zoom-out', label: '-', x: right - size * 2 - gap, y: this.viewport.y + gap, width: size, height: size },
+      { id: 'zoom-reset', label: '⟲', x: right - size, y: this.viewport.y + gap, width: size, height: size }
+    ];
+
+    // Purchase mode buttons sit in the top-left corner, opposite the zoom buttons
+    // (dropping below them on screens too narrow for both rows)
+    const modeWidth = size * 1.6;
+    const modeRowRight = this.viewport.x + gap + PURCHASE_MODES.length * (modeWidth + gap);
+    const modeRowY = modeRowRight > this.zoomButtons[0].x ? this.viewport.y + size + gap * 2 : this.viewport.y + gap;
+    this.purchaseModeButtons = PURCHASE_MODES.map((mode, index) => ({
+      mode,
+      x: this.viewport.x + gap + index * (modeWidth + gap),
+      y: modeRowY,
+      width: modeWidth,
+      height: size
+    }));
+  }
+
+  // Fit the tree's width into the viewport and scroll to the top
+  resetView(): void {
+    const { left, right } = this.getGraphBounds();
+    const graphWidth = right - left;
+    const fitZoom = graphWidth > 0 ? (this.viewport.width - 40) / graphWidth : 1;
+    this.zoom = Math.max(this.MIN_ZOOM, Math.min(1, fitZoom));
+    this.panX = this.viewport.x + this.viewport.width / 2 - ((left + right) / 2) * this.zoom;
+    this.panY = this.viewport.y + 50;
+  }
+
+  private getGraphBounds(): { left: number; right: number } {
+    if (this.nodes.length === 0) return { left: 0, right: 0 };
+    return {
+      left: Math.min(...this.nodes.map(node => node.x)),
+      right: Math.max(...this.nodes.map(node => node.x + this.NODE_WIDTH))
+    };
+  }
+
+  // Zoom around a screen point (keeps the point under the cursor fixed)
+  zoomAt(factor: number, screenPos: Vector2): void {
+    const newZoom = Math.max(this.MIN_ZOOM, Math.min(this.MAX_ZOOM, this.zoom * factor));
+    const worldX = (screenPos.x - this.panX) / this.zoom;
+    const worldY = (screenPos.y - this.panY) / this.zoom;
+    this.zoom = newZoom;
+    this.panX = screenPos.x - worldX * this.zoom;
+    this.panY = screenPos.y - worldY * this.zoom;
+  }
+
+  // Zoom from mouse wheel scrolling
+  handleWheel(deltaY: number, screenPos: Vector2): void {
+    if (!this.isInRect(screenPos, this.viewport)) return;
+    this.zoomAt(Math.exp(-deltaY * 0.001), screenPos);
+  }
+
+  // Pan while the pointer is held after pressing on empty graph space
+  handleDrag(screenPos: Vector2, pressed: boolean): void {
+    if (!this.dragLast) return;
+    if (!pressed) {
+      this.dragLast = null;
+      return;
+    }
+
+    this.panX += screenPos.x - this.dragLast.x;
+    this.panY += screenPos.y - this.dragLast.y;
+    this.dragLast = screenPos.clone();
+  }
+
+  // Handle a press inside the panel (returns the clicked upgrade ID, if any)
+  handleClick(screenPos: Vector2): string | null {
+    for (const button of this.zoomButtons) {
+      if (this.isInRect(screenPos, button)) {
+        const center = new Vector2(this.viewport.x + this.viewport.width / 2, this.viewport.y + this.viewport.height / 2);
+        if (button.id === 'zoom-in') this.zoomAt(1.25, center);
+        else if (button.id === 'zoom-out') this.zoomAt(0.8, center);
+        else this.resetView();
+        return null;
+      }
+    }
+
+    for (const button of this.purchaseModeButtons) {
+      if (this.isInRect(screenPos, button)) {
+        this.purchaseMode = button.mode;
+        if (this.onPurchaseModeChanged) {
+          this.onPurchaseModeChanged(button.mode);
+        }
+        return null;
+      }
+    }
+
+    if (!this.isInRect(screenPos, this.viewport)) return null;
+
+    const node = this.getNodeAt(screenPos);
+    if (node) {
+      return node.definition.id;
+    }
+
+    // Empty space starts a drag
+    this.dragLast = screenPos.clone();
+    return null;
+  }
+
+  private getNodeAt(screenPos: Vector2): TreeNode | null {
+    const worldX = (screenPos.x - this.panX) / this.zoom;
+    const worldY = (screenPos.y - this.panY) / this.zoom;
+    return this.nodes.find(node =>
+      worldX >= node.x && worldX <= node.x + this.NODE_WIDTH &&
+      worldY >= node.y && worldY <= node.y + this.NODE_HEIGHT
+    ) ?? null;
+  }
+
+  getNodeState(upgradeId: string): UpgradeNodeState {
+    if (this.upgradeManager.isUpgradeMaxed(upgradeId)) return 'maxed';
+    if (this.upgradeManager.getExclusiveRival(upgradeId)) return 'excluded';
+    if (!this.upgradeManager.isUpgradeUnlocked(upgradeId)) return 'locked';
+    return this.getPurchasePreview(upgradeId).affordable ? 'available' : 'unaffordable';
+  }
+
+  // Levels and total cost a click would buy in the current purchase mode
+  getPurchasePreview(upgradeId: string): BulkPurchase {
+    return this.upgradeManager.getBulkPurchase(upgradeId, this.purchaseMode, currency => this.resourceManager.getBalance(currency));
+  }
+
+  render(ctx: CanvasRenderingContext2D): void {
+    ctx.save();
+
+    // Viewport frame
+    ctx.fillStyle = 'rgba(20, 20, 20, 0.6)';
+    ctx.fillRect(this.viewport.x, this.viewport.y, this.viewport.width, this.viewport.height);
+    ctx.strokeStyle = '#444444';
+    ctx.lineWidth = 1;
+    ctx.strokeRect(this.viewport.x, this.viewport.y, this.viewport.width, this.viewport.height);
+
+    // Clip the graph to the viewport and draw it in world coordinates
+    ctx.beginPath();
+    ctx.rect(this.viewport.x, this.viewport.y, this.viewport.width, this.viewport.height);
+    ctx.clip();
+    ctx.translate(this.panX, this.panY);
+    ctx.scale(this.zoom, this.zoom);
+
+    this.renderEdges(ctx);
+    this.renderBranchLinks(ctx);
+    for (const node of this.nodes) {
+      this.renderNode(ctx, node);
+    }
+
+    ctx.restore();
+
+    for (const button of this.zoomButtons) {
+      this.renderZoomButton(ctx, button);
+    }
+    for (const button of this.purchaseModeButtons) {
+      this.renderPurchaseModeButton(ctx, button);
+    }
+  }
+
+  // Prerequisite edges (green once the requirement is met)
+  private renderEdges(ctx: CanvasRenderingContext2D): void {
+    const byId = new Map(this.nodes.map(node => [node.definition.id, node]));
+
+    ctx.lineWidth = 2;
+    ctx.font = '11px Arial';
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'middle';
+
+    for (const node of this.nodes) {
+      for (const requirement of node.definition.requires ?? []) {
+        const parent = byId.get(requirement.id);
+        if (!parent) continue;
+
+        const met = this.upgradeManager.getUpgradeLevel(requirement.id) >= requirement.level;
+        const startX = parent.x + this.NODE_WIDTH / 2;
+        const startY = parent.y + this.NODE_HEIGHT;
+        const endX = node.x + this.NODE_WIDTH / 2;
+        const endY = node.y;
+        const midY = (startY + endY) / 2;
+
+        ctx.strokeStyle = met ? '#4CAF50' : '#555555';
+        ctx.beginPath();
+        ctx.moveTo(startX, startY);
+        ctx.bezierCurveTo(startX, midY, endX, midY, endX, endY);
+        ctx.stroke();
+
+        // Label edges that need more than one level
+        if (requirement.level > 1) {
+          ctx.fillStyle = met ? '#4CAF50' : '#888888';
+          ctx.fillText(`Lv.${requirement.level}`, (startX + endX) / 2 + 14, midY);
+        }
+      }
+    }
+  }
+
+  // Dashed "OR" links between branch siblings
+  private renderBranchLinks(ctx: CanvasRenderingContext2D): void {
+    const groups = new Map<string, TreeNode[]>();
+    for (const node of this.nodes) {
+      const group = node.definition.exclusiveGroup;
+      if (!group) continue;
+      if (!groups.has(group)) groups.set(group, []);
+      groups.get(group)!.push(node);
+    }
+
+    ctx.save();
+    ctx.strokeStyle = '#C0392B';
+    ctx.lineWidth = 2;
+    ctx.setLineDash([6, 4]);
+    ctx.font = 'bold 11px Arial';
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'middle';
+
+    for (const siblings of groups.values()) {
+      const ordered = [...siblings].sort((a, b) => a.x - b.x);
+      for (let i = 1; i < ordered.length; i++) {
+        const from = ordered[i - 1];
+        const to = ordered[i];
+        const y = from.y + this.NODE_HEIGHT / 2;
+        const startX = from.x + this.NODE_WIDTH;
+        const endX = to.x;
+
+        ctx.beginPath();
+        ctx.moveTo(startX, y);
+        ctx.lineTo(endX, to.y + this.NODE_HEIGHT / 2);
+        ctx.stroke();
+
+        ctx.fillStyle = '#C0392B';
+        ctx.fillText('OR', (startX + endX) / 2, y - 9);
+      }
+    }
+
+    ctx.restore();
+  }
+
+  private renderNode(ctx: CanvasRenderingContext2D, node: TreeNode): void {
+    const definition = node.definition;
+    const state = this.getNodeState(definition.id);
+    const style = NODE_STYLES[state];
+    const level = this.upgradeManager.getUpgradeLevel(definition.id);
+
+    ctx.fillStyle = style.fill;
+    ctx.fillRect(node.x, node.y, this.NODE_WIDTH, this.NODE_HEIGHT);
+    ctx.strokeStyle = style.border;
+    ctx.lineWidth = 2;
+    ctx.strokeRect(node.x, node.y, this.NODE_WIDTH, this.NODE_HEIGHT);
+
+    const centerX = node.x + this.NODE_WIDTH / 2;
+    ctx.fillStyle = style.text;
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'middle';
+
+    const levelText = definition.maxLevel !== undefined ? `${level}/${definition.maxLevel}` : `${level}`;
+    ctx.font = 'bold 13px Arial';
+    ctx.fillText(`${definition.label} (Lv.${levelText})`, centerX, node.y + 14);
+
+    ctx.font = '10px Arial';
+    ctx.fillText(definition.description, centerX, node.y + 31);
+
+    ctx.font = '11px Arial';
+    ctx.fillText(this.getStatusText(definition, state), centerX, node.y + 48);
+  }
+
+  private getStatusText(definition: UpgradeDefinition, state: UpgradeNodeState): string {
+    switch (state) {
+      case 'maxed':
+        return 'MAX';
+      case 'excluded':
+        return `Locked by ${this.upgradeManager.getExclusiveRival(definition.id)?.label ?? 'another branch'}`;
+      case 'locked': {
+        const requirement = getUnmetRequirement(definition, id => this.upgradeManager.getUpgradeLevel(id));
+        const label = requirement ? this.upgradeManager.getUpgradeDefinition(requirement.id)?.label : undefined;
+        return requirement ? `Requires ${label ?? requirement.id} Lv.${requirement.level}` : 'Locked';
+      }
+      default: {
+        // Preview the total cost and resulting level of the current purchase mode
+        const preview = this.getPurchasePreview(definition.id);
+        if (preview.count <= 1 && this.purchaseMode === 1) {
+          return `Cost: ${formatAmounts(preview.cost)}`;
+        }
+        return `+${formatNumber(preview.count)} → Lv.${formatNumber(preview.resultingLevel)}: ${formatAmounts(preview.cost)}`;
+      }
+    }
+  }
+
+  private renderZoomButton(ctx: CanvasRenderingContext2D, button: ZoomButton): void {
+    ctx.save();
+    ctx.fillStyle = 'rgba(60, 60, 60, 0.9)';
+    ctx.fillRect(button.x, button.y, button.width, button.height);
+    ctx.strokeStyle = '#888888';
+    ctx.lineWidth = 1;
+    ctx.strokeRect(button.x, button.y, button.width, button.height);
+    ctx.fillStyle = '#FFFFFF';
+    ctx.font = `bold ${Math.round(button.height * 0.6)}px Arial`;
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'middle';
+    ctx.fillText(button.label, button.x + button.width / 2, button.y + button.height / 2);
+    ctx.restore();
+  }
+
+  private renderPurchaseModeButton(ctx: CanvasRenderingContext2D, button: PurchaseModeButton): void {
+    const selected = button.mode === this.purchaseMode;
+    ctx.save();
+    ctx.fillStyle = selected ? '#4CAF50' : 'rgba(60, 60, 60, 0.9)';
+    ctx.fillRect(button.x, button.y, button.width, button.height);
+    ctx.strokeStyle = selected ? '#45a049' : '#888888';
+    ctx.lineWidth = 1;
+    ctx.strokeRect(button.x, button.y, button.width, button.height);
+    ctx.fillStyle = '#FFFFFF';
+    ctx.font = `bold ${Math.round(button.height * 0.45)}px Arial`;
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'middle';
+    ctx.fillText(UpgradeTreePanel.getPurchaseModeLabel(button.mode), button.x + button.width / 2, button.y + button.height / 2);
+    ctx.restore();
+  }
+
+  private isInRect(point: Vector2, rect: ViewRect): boolean {
+    return point.x >= rect.x &&
+           point.x <= rect.x + rect.width &&
+           point.y >= rect.y &&
+           point.y <= rect.y + rect.height;
+  }
+
+  // Update canvas dimensions when window resizes
+  updateCanvasDimensions(width: number, height: number, isMobile: boolean): void {
+    this.canvasWidth = width;
+    this.canvasHeight = height;
+    this.isMobile = isMobile;
+    this.updateViewport();
+    this.resetView();
+  }
+}